@@ -1,5 +1,4 @@
 import React, { useEffect } from 'react';
-import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import AppNavigator from './navigation/AppNavigator';
 import { LogBox, Text, View, Alert, Platform } from 'react-native';
@@ -7,13 +6,18 @@ import * as SplashScreen from 'expo-splash-screen';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import Constants from 'expo-constants';
 import * as FileSystem from 'expo-file-system';
-import { initStorage } from './services/storage';
+import { initDemoMode } from './services/demoMode';
 import { initDrawingStorage } from './services/drawingService';
+import { clearOpenedFiles, initEncryption, isEncryptionUnlocked } from './services/encryptionService';
+import { initSettings } from './services/settingsService';
+import PassphraseUnlockScreen from './screens/PassphraseUnlockScreen';
 import { 
   initializeAppDirectories, 
   requestFileSystemPermissions 
 } from './utils/fileSystemUtils';
 import { ToastProvider } from './components/ui/Toast';
+import { AppLockProvider } from './hooks/useAppLock';
+import { ThemeProvider } from './hooks/useTheme';
 import theme from './constants/theme';
 
 // Keep the splash screen visible while we initialize the app
@@ -36,9 +40,19 @@ if (typeof global !== 'undefined' && !global.Expo) {
   };
 }
 
+// Load stored data; needs the diary to be unlocked when it is encrypted
+async function loadData() {
+  // Initialize storage services, reopening the sample diary if demo mode is on
+  await initDemoMode();
+  
+  // Initialize drawing service
+  await initDrawingStorage();
+}
+
 export default function App() {
   // Handle errors in the app
   const [isReady, setIsReady] = React.useState(false);
+  const [needsUnlock, setNeedsUnlock] = React.useState(false);
   const [error, setError] = React.useState<Error | null>(null);
 
   useEffect(() => {
@@ -50,17 +64,26 @@ export default function App() {
           console.warn('Some directories could not be initialized');
         }
         
+        // Decrypted media copies left by the last session are never needed again
+        await clearOpenedFiles().catch(e => console.warn('Could not clear decrypted files:', e));
+        
         // Request permissions
         const permissions = await requestFileSystemPermissions();
         if (!permissions.mediaLibrary) {
           console.warn('Media library permission not granted. Some features may be limited.');
         }
         
-        // Initialize storage services
-        await initStorage();
+        // Load saved preferences before any screen reads them
+        await initSettings();
+        
+        // Encrypted diaries wait for the passphrase before anything is read
+        await initEncryption();
+        if (!isEncryptionUnlocked()) {
+          setNeedsUnlock(true);
+          return;
+        }
         
-        // Initialize drawing service
-        await initDrawingStorage();
+        await loadData();
         
         // Pre-load any assets or data here
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -76,10 +99,29 @@ export default function App() {
     prepare();
   }, []);
 
+  const handleUnlocked = async () => {
+    try {
+      await loadData();
+    } catch (e) {
+      console.warn('Error loading app:', e);
+      setError(e as Error);
+    } finally {
+      setNeedsUnlock(false);
+    }
+  };
+
   if (!isReady) {
     return null; // Still showing splash screen
   }
 
+  if (needsUnlock) {
+    return React.createElement(SafeAreaProvider, {}, 
+      React.createElement(ThemeProvider, { children:
+        React.createElement(PassphraseUnlockScreen, { onUnlocked: handleUnlocked })
+      })
+    );
+  }
+
   if (error) {
     return React.createElement(View, { 
       style: { 
@@ -112,11 +154,16 @@ export default function App() {
       React.createElement(SafeAreaProvider, 
         {}, 
         [
-          React.createElement(ToastProvider, 
-            { children: [
-              React.createElement(AppNavigator, {}, null),
-              React.createElement(StatusBar, { style: 'auto' }, null)
-            ]}
+          React.createElement(ThemeProvider, 
+            { children: 
+              React.createElement(AppLockProvider, 
+                { children: 
+                  React.createElement(ToastProvider, 
+                    { children: React.createElement(AppNavigator, {}, null) }
+                  )
+                }
+              )
+            }
           )
         ]
       )
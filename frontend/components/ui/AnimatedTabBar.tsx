@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -16,7 +16,8 @@ import Animated, {
   interpolateColor
 } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 interface TabItem {
   key: string;
@@ -39,6 +40,9 @@ export const AnimatedTabBar: React.FC<AnimatedTabBarProps> = ({
   onTabPress,
   style
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   // Calculate tab width based on number of tabs
   const tabWidth = width / tabs.length;
   
@@ -119,7 +123,7 @@ export const AnimatedTabBar: React.FC<AnimatedTabBarProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     position: 'absolute',
     bottom: 0,
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet, ViewStyle, StyleProp } from 'react-native';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 interface CardProps {
   children: React.ReactNode;
@@ -20,6 +21,9 @@ export const Card: React.FC<CardProps> = ({
   padding = 'medium',
   borderRadius = 'medium',
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   // Create shadow style based on elevation
   let shadowStyle: ViewStyle = {};
   if (elevation === 'low') {
@@ -71,7 +75,7 @@ export const Card: React.FC<CardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   card: {
     backgroundColor: theme.colors.cardBackground,
     overflow: 'hidden',
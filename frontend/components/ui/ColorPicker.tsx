@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  AccessibilityActionEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import { Hsl, hslToHex, parseColor } from '../../utils/color';
+
+// Color stops drawn along each track
+const TRACK_SEGMENTS = 24;
+
+// Change per accessibility increment, as a fraction of the track
+const ACCESSIBILITY_STEP = 0.05;
+
+export const DEFAULT_SWATCHES = [
+  '#000000', // Black
+  '#8E8E93', // Grey
+  '#FF3B30', // Red
+  '#FF9500', // Orange
+  '#FFCC00', // Yellow
+  '#34C759', // Green
+  '#5AC8FA', // Light blue
+  '#007AFF', // Blue
+  '#AF52DE', // Purple
+  '#FF2D55', // Pink
+  '#8B5A2B', // Brown
+  '#FFFFFF', // White
+];
+
+type Channel = 'h' | 's' | 'l';
+
+const CHANNELS: { channel: Channel; label: string; max: number }[] = [
+  { channel: 'h', label: 'Hue', max: 360 },
+  { channel: 's', label: 'Saturation', max: 1 },
+  { channel: 'l', label: 'Lightness', max: 1 },
+];
+
+interface ColorPickerProps {
+  color: string; // Selected color, hex
+  onChange: (color: string) => void; // Called with a #RRGGBB color
+  swatches?: string[]; // Quick picks shown above the sliders
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Pick any color from hue, saturation and lightness sliders, or from a row
+ * of quick swatches
+ */
+export const ColorPicker: React.FC<ColorPickerProps> = ({
+  color,
+  onChange,
+  swatches = DEFAULT_SWATCHES,
+  style,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [hsl, setHsl] = useState<Hsl>(() => parseColor(color) ?? { h: 0, s: 0, l: 0 });
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // Follow changes made from outside, keeping the hue of greys the user had picked
+  useEffect(() => {
+    const parsed = parseColor(color);
+    if (parsed && hslToHex(parsed) !== hslToHex(hsl)) {
+      setHsl(parsed.s === 0 ? { ...parsed, h: hsl.h } : parsed);
+    }
+  }, [color]);
+
+  const update = (next: Hsl) => {
+    setHsl(next);
+    onChange(hslToHex(next));
+  };
+
+  const setChannel = (channel: Channel, fraction: number) => {
+    const max = CHANNELS.find(item => item.channel === channel)?.max ?? 1;
+    const value = Math.min(1, Math.max(0, fraction)) * max;
+    update({ ...hsl, [channel]: channel === 'h' ? Math.min(value, 359.9) : value });
+  };
+
+  const handleTouch = (channel: Channel) => (event: GestureResponderEvent) => {
+    if (trackWidth > 0) {
+      setChannel(channel, event.nativeEvent.locationX / trackWidth);
+    }
+  };
+
+  const handleAccessibilityAction = (channel: Channel, max: number) => (event: AccessibilityActionEvent) => {
+    const step = event.nativeEvent.actionName === 'increment' ? ACCESSIBILITY_STEP : -ACCESSIBILITY_STEP;
+    setChannel(channel, hsl[channel] / max + step);
+  };
+
+  // Color at a point along a channel's track, with the other channels as they are
+  const stopColor = (channel: Channel, fraction: number): string => {
+    switch (channel) {
+      case 'h':
+        return hslToHex({ h: fraction * 360, s: 1, l: 0.5 });
+      case 's':
+        return hslToHex({ ...hsl, s: fraction });
+      default:
+        return hslToHex({ ...hsl, l: fraction });
+    }
+  };
+
+  const selected = hslToHex(hsl);
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.swatchRow}>
+        <View style={[styles.preview, { backgroundColor: selected }]} />
+        <Text style={styles.hexText}>{selected}</Text>
+      </View>
+
+      <View style={styles.swatches}>
+        {swatches.map(swatch => (
+          <TouchableOpacity
+            key={swatch}
+            style={[
+              styles.swatch,
+              { backgroundColor: swatch },
+              swatch.toUpperCase() === selected && styles.selectedSwatch,
+            ]}
+            onPress={() => {
+              const parsed = parseColor(swatch);
+              if (parsed) {
+                update(parsed.s === 0 ? { ...parsed, h: hsl.h } : parsed);
+              }
+            }}
+            accessibilityLabel={`Color ${swatch}`}
+          />
+        ))}
+      </View>
+
+      {CHANNELS.map(({ channel, label, max }) => (
+        <View key={channel} style={styles.channel}>
+          <Text style={styles.channelLabel}>{label}</Text>
+          <View
+            style={styles.track}
+            onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+            onStartShouldSetResponder={() => true}
+            onMoveShouldSetResponder={() => true}
+            onResponderGrant={handleTouch(channel)}
+            onResponderMove={handleTouch(channel)}
+            accessible
+            accessibilityRole="adjustable"
+            accessibilityLabel={label}
+            accessibilityValue={{ min: 0, max: 100, now: Math.round((hsl[channel] / max) * 100) }}
+            accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+            onAccessibilityAction={handleAccessibilityAction(channel, max)}
+          >
+            {Array.from({ length: TRACK_SEGMENTS }, (_, index) => (
+              <View
+                key={index}
+                pointerEvents="none"
+                style={[styles.segment, { backgroundColor: stopColor(channel, index / (TRACK_SEGMENTS - 1)) }]}
+              />
+            ))}
+            <View
+              pointerEvents="none"
+              style={[styles.thumb, { left: `${(hsl[channel] / max) * 100}%` }]}
+            />
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    paddingVertical: theme.spacing.xs,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  preview: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
+  },
+  hexText: {
+    fontSize: theme.typography.fontSizes.sm,
+    fontFamily: theme.typography.fontFamily.mono,
+    color: theme.colors.text,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.xs,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  selectedSwatch: {
+    borderWidth: 3,
+    borderColor: theme.colors.text,
+    transform: [{ scale: 1.2 }],
+  },
+  channel: {
+    marginTop: theme.spacing.xs,
+  },
+  channelLabel: {
+    fontSize: theme.typography.fontSizes.xs,
+    color: theme.colors.textLight,
+    marginBottom: 2,
+  },
+  track: {
+    height: 20,
+    flexDirection: 'row',
+    borderRadius: theme.radii.md,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+  },
+  thumb: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 6,
+    marginLeft: -3,
+    borderRadius: 3,
+    borderWidth: 2,
+    borderColor: theme.colors.white,
+    backgroundColor: 'transparent',
+  },
+});
+
+export default ColorPicker;
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { 
   StyleSheet, 
   View, 
@@ -10,25 +10,25 @@ import {
   ViewStyle,
   TextStyle,
   StyleProp,
-  Platform
+  Platform,
+  GestureResponderEvent
 } from 'react-native';
 import Svg, { Path, G } from 'react-native-svg';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
 import ViewShot from 'react-native-view-shot';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as ImageManipulator from 'expo-image-manipulator';
 import { Canvas, Path as SkiaPath, Skia, PaintStyle, CanvasRef } from '@shopify/react-native-skia';
+import { Point } from '../../types';
+import { ColorPicker } from './ColorPicker';
 
 /**
  * Type definitions for Drawing Canvas component
  */
-type Point = {
-  x: number;
-  y: number;
-};
 
 // SkPath type from Skia
 type SkPath = ReturnType<typeof Skia.Path.Make>;
@@ -42,10 +42,12 @@ type DrawingPath = {
   skiaPath: SkPath;
 };
 
-type ColorOption = string; // Hex color value
-
 type StrokeWidthOption = number; // Stroke width in pixels
 
+// The drawing surface stays white in both themes: strokes are analysed by
+// color and default to black ink
+const PAPER_COLOR = '#FFFFFF';
+
 interface DrawingCanvasProps {
   /** Width of the canvas */
   width?: number | string;
@@ -81,6 +83,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   initialStrokeWidth = 3,
 }) => {
   // State
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const [paths, setPaths] = useState<DrawingPath[]>([]);
   const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
   const [currentColor, setCurrentColor] = useState<string>(initialColor);
@@ -92,16 +97,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   // Refs
   const viewShotRef = useRef<ViewShot>(null);
   const canvasRef = useRef<CanvasRef>(null);
+  // Latest touch force; pan events don't carry it, raw touch events do
+  // (iOS with 3D Touch or Apple Pencil)
+  const forceRef = useRef<number | undefined>(undefined);
   
-  // Color and width options
-  const colorOptions: ColorOption[] = [
-    '#000000', // Black
-    '#FF3B30', // Red
-    '#34C759', // Green
-    '#007AFF', // Blue
-    '#FFCC00', // Yellow
-  ];
-  
+  // Width options
   const strokeWidths: StrokeWidthOption[] = [1, 2, 4, 6, 8];
   
   // Helper: Create Skia Path from points with smoothing
@@ -152,6 +152,21 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     return skiaPath;
   };
   
+  // Remember the touch force reported with each raw touch event
+  const handleTouch = (e: GestureResponderEvent) => {
+    const { force } = e.nativeEvent;
+    forceRef.current = typeof force === 'number' && force > 0 ? Math.min(1, force) : undefined;
+  };
+  
+  // Point with the time it was drawn and, where available, its pressure
+  const capturePoint = (x: number, y: number): Point => {
+    const point: Point = { x, y, t: Date.now() };
+    if (forceRef.current !== undefined) {
+      point.pressure = forceRef.current;
+    }
+    return point;
+  };
+  
   // Pan gesture for drawing with improved sensitivity
   const panGesture = Gesture.Pan()
     .runOnJS(true)
@@ -160,7 +175,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     .simultaneousWithExternalGesture() // Allow simultaneous gestures
     .onStart((e) => {
       console.log('Drawing started at:', e.x, e.y);
-      const newPoint = { x: e.x, y: e.y };
+      const newPoint = capturePoint(e.x, e.y);
       setCurrentPoints([newPoint]);
       setIsDrawing(true);
       if (onDrawingStart) onDrawingStart();
@@ -170,7 +185,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
       console.log('Drawing update at:', e.x, e.y);
       // Add point with throttling to prevent too many points
       const lastPoint = currentPoints[currentPoints.length - 1];
-      const newPoint = { x: e.x, y: e.y };
+      const newPoint = capturePoint(e.x, e.y);
       
       // Only add point if it's far enough from the last point (reduces unnecessary points)
       const distance = Math.sqrt(
@@ -238,9 +253,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     if (onDrawingComplete) onDrawingComplete(JSON.stringify([]));
   }, [onDrawingComplete]);
   
-  // Handle color change
+  // Handle color change; called continuously while a slider is dragged
   const handleColorChange = useCallback((color: string) => {
-    console.log('Color changed to:', color);
     setCurrentColor(color);
   }, []);
   
@@ -431,38 +445,40 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
           }
         ]}
       >
-        <GestureDetector gesture={panGesture}>
-          <Canvas 
-            ref={canvasRef}
-            style={[
-              styles.canvas,
-              { 
-                width: typeof width === 'number' ? width : Dimensions.get('window').width - 32, 
-                height: typeof height === 'number' ? height : 300 
-              },
-              isDrawing && styles.activeCanvas // Add highlighted border when drawing
-            ]}
-          >
-            {/* Grid lines for better spatial reference */}
-            {renderGridLines()}
+        <View onTouchStart={handleTouch} onTouchMove={handleTouch}>
+          <GestureDetector gesture={panGesture}>
+            <Canvas 
+              ref={canvasRef}
+              style={[
+                styles.canvas,
+                { 
+                  width: typeof width === 'number' ? width : Dimensions.get('window').width - 32, 
+                  height: typeof height === 'number' ? height : 300 
+                },
+                isDrawing && styles.activeCanvas // Add highlighted border when drawing
+              ]}
+            >
+              {/* Grid lines for better spatial reference */}
+              {renderGridLines()}
             
-            {/* Render completed paths */}
-            {paths.map((path) => (
-              <SkiaPath
-                key={path.id}
-                path={path.skiaPath}
-                color={path.color}
-                strokeWidth={path.width}
-                style="stroke"
-                strokeCap="round"
-                strokeJoin="round"
-              />
-            ))}
+              {/* Render completed paths */}
+              {paths.map((path) => (
+                <SkiaPath
+                  key={path.id}
+                  path={path.skiaPath}
+                  color={path.color}
+                  strokeWidth={path.width}
+                  style="stroke"
+                  strokeCap="round"
+                  strokeJoin="round"
+                />
+              ))}
             
-            {/* Render current path with effects */}
-            {renderCurrentSkiaPath()}
-          </Canvas>
-        </GestureDetector>
+              {/* Render current path with effects */}
+              {renderCurrentSkiaPath()}
+            </Canvas>
+          </GestureDetector>
+        </View>
       </ViewShot>
       
       {/* Empty State Overlay */}
@@ -555,19 +571,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
       {/* Color Picker */}
           <View style={styles.colorPickerContainer}>
         <Text style={styles.toolbarLabel}>Color</Text>
-            <View style={styles.colorPicker}>
-              {colorOptions.map((color) => (
-                <TouchableOpacity
-                  key={color}
-                  style={[
-                    styles.colorButton,
-                    { backgroundColor: color },
-                    currentColor === color && styles.selectedColor,
-                  ]}
-                  onPress={() => handleColorChange(color)}
-                />
-              ))}
-            </View>
+            <ColorPicker color={currentColor} onChange={handleColorChange} />
           </View>
           
       {/* Stroke Width Picker */}
@@ -597,11 +601,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     borderRadius: 8,
     overflow: 'hidden',
-    backgroundColor: '#FFFFFF',
+    backgroundColor: theme.colors.cardBackground,
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
@@ -612,13 +616,13 @@ const styles = StyleSheet.create({
     flex: 1, // Take up available space
   },
   canvasContainer: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: PAPER_COLOR,
     borderRadius: 8,
     overflow: 'hidden',
     flex: 1, // Take up available space
   },
   canvas: {
-    backgroundColor: '#FFFFFF',
+    backgroundColor: PAPER_COLOR,
     borderRadius: 8,
     flex: 1, // Take up available space
   },
@@ -651,26 +655,6 @@ const styles = StyleSheet.create({
   colorPickerContainer: {
     marginBottom: theme.spacing.sm,
   },
-  colorPicker: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    marginTop: theme.spacing.xs,
-  },
-  colorButton: {
-    width: 24,
-    height: 24,
-    borderRadius: 12,
-    marginRight: theme.spacing.sm,
-    marginBottom: theme.spacing.xs,
-    borderWidth: 1,
-    borderColor: '#ddd',
-    elevation: 2,
-  },
-  selectedColor: {
-    borderWidth: 3,
-    borderColor: '#333',
-    transform: [{ scale: 1.2 }],
-  },
   widthPickerContainer: {
     marginTop: theme.spacing.sm,
   },
@@ -685,7 +669,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginRight: theme.spacing.sm,
     borderWidth: 1,
-    borderColor: '#ddd',
+    borderColor: theme.colors.border,
     borderRadius: 4,
     elevation: 2,
   },
@@ -705,7 +689,7 @@ const styles = StyleSheet.create({
   },
   loadingOverlay: {
     ...StyleSheet.absoluteFillObject,
-    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    backgroundColor: theme.colors.glassBackground,
     justifyContent: 'center',
     alignItems: 'center',
   },
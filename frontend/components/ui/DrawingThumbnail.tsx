@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -8,14 +8,15 @@ import {
 } from 'react-native';
 import { Canvas, Path, Skia } from '@shopify/react-native-skia';
 import { Path as PathType, Point } from '../../types';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 interface DrawingThumbnailProps {
   drawingData?: string | null; // JSON string of paths
   width?: number;
   height?: number;
   style?: StyleProp<ViewStyle>;
-  backgroundColor?: string;
+  backgroundColor?: string; // Defaults to the theme's card background
 }
 
 /**
@@ -26,8 +27,10 @@ export const DrawingThumbnail: React.FC<DrawingThumbnailProps> = ({
   width = 80,
   height = 80,
   style,
-  backgroundColor = theme.colors.cardBackground,
+  backgroundColor,
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
   const [paths, setPaths] = useState<PathType[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -143,7 +146,7 @@ export const DrawingThumbnail: React.FC<DrawingThumbnailProps> = ({
     <View 
       style={[
         styles.container, 
-        { width, height, backgroundColor },
+        { width, height, backgroundColor: backgroundColor ?? theme.colors.cardBackground },
         style
       ]}
     >
@@ -168,7 +171,7 @@ export const DrawingThumbnail: React.FC<DrawingThumbnailProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     borderRadius: theme.radii.sm,
     overflow: 'hidden',
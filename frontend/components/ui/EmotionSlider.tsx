@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -12,19 +12,11 @@ import {
   ColorValue
 } from 'react-native';
 // Using regular View instead of LinearGradient since it's not available
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 // Using Animated.View instead of external slider
 // import Slider from '@react-native-community/slider';
 
-// Add missing theme color
-const customTheme = {
-  ...theme,
-  colors: {
-    ...theme.colors,
-    lightGray: '#e0e0e0' // Fallback for missing theme color
-  }
-};
-
 interface EmotionSliderProps {
   label: string;
   value: number;
@@ -58,12 +50,13 @@ export const EmotionSlider: React.FC<EmotionSliderProps> = ({
   step = 1,
   style,
   labelStyle,
-  gradientColors = [customTheme.colors.primary, customTheme.colors.secondary],
-  minimumTrackTintColor = customTheme.colors.primary,
-  maximumTrackTintColor = customTheme.colors.lightGray,
-  thumbTintColor = customTheme.colors.text,
-  colorGradient = [customTheme.colors.primary, customTheme.colors.secondary]
+  minimumTrackTintColor,
+  maximumTrackTintColor,
+  thumbTintColor,
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const [sliderWidth, setSliderWidth] = useState(width - 40);
   
   // Convert value to position
@@ -136,7 +129,7 @@ export const EmotionSlider: React.FC<EmotionSliderProps> = ({
       // Track background
       React.createElement(
         View, 
-        { style: [styles.track, { backgroundColor: maximumTrackTintColor }] }
+        { style: [styles.track, { backgroundColor: maximumTrackTintColor ?? theme.colors.lightGray }] }
       ),
       // Active track
       React.createElement(
@@ -146,7 +139,7 @@ export const EmotionSlider: React.FC<EmotionSliderProps> = ({
             styles.activeTrack, 
             { 
               width: `${percentage}%`,
-              backgroundColor: minimumTrackTintColor 
+              backgroundColor: minimumTrackTintColor ?? theme.colors.primary
             }
           ] 
         }
@@ -159,7 +152,7 @@ export const EmotionSlider: React.FC<EmotionSliderProps> = ({
           style: [
             styles.thumb,
             {
-              backgroundColor: thumbTintColor,
+              backgroundColor: thumbTintColor ?? theme.colors.text,
               transform: [
                 { translateX: thumbPosition },
                 { scale: scale }
@@ -209,7 +202,7 @@ export const EmotionSlider: React.FC<EmotionSliderProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     width: '100%',
     marginVertical: theme.spacing.md,
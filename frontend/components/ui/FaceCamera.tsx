@@ -1,147 +1,133 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { 
-  View, 
-  StyleSheet, 
-  Text, 
-  TouchableOpacity, 
-  Dimensions,
-  Platform,
-  ViewStyle
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform
 } from 'react-native';
-import theme from '../../constants/theme';
-
-// Types for face analysis result
-export interface FaceAnalysisResult {
-  faceDetected: boolean;
-  dominantEmotion: string;
-  emotionScores: Record<string, number>;
-  timestamp: number;
-}
+import { Camera } from 'expo-camera';
+import * as FileSystem from 'expo-file-system';
+import { Ionicons } from '@expo/vector-icons';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import FaceDetectorComponent from './FaceDetector';
+import { FaceDetectionData } from '../../types';
+import {
+  FaceAnalysisResult,
+  analyzeFaceSamples,
+  analyzeImage,
+  selectRecentSamples,
+} from '../../services/faceAnalysis';
+
+export type { FaceAnalysisResult };
+
+// How often a fresh result is reported while a face is in view
+const RESULT_INTERVAL_MS = 500;
 
 interface FaceCameraProps {
   onEmotionDetected: (result: FaceAnalysisResult) => void;
 }
 
-function FaceCamera({ onEmotionDetected }: FaceCameraProps) {
-  // Camera states
-  const [hasPermission, setHasPermission] = useState<boolean | null>(null);
-  const [type, setType] = useState<'front' | 'back'>('front');
-
-  // Request camera permissions
-  useEffect(() => {
-    if (Platform.OS === 'web') {
-      // Simulate permission for web
-      setHasPermission(true);
-    } else {
-      // For mobile platforms, you would request actual permissions
-      const requestPermissions = async () => {
-        try {
-          // Placeholder for actual permission request
-          const { status } = { status: 'granted' };
-          setHasPermission(status === 'granted');
-        } catch (error) {
-          console.error('Permission error:', error);
-          setHasPermission(false);
-        }
-      };
-      requestPermissions();
+/**
+ * Front camera that scores the user's expression from face detector
+ * readings over a short sliding window. Taking a snapshot saves a still
+ * with the entry and scores it together with the readings around it.
+ */
+export function FaceCamera({ onEmotionDetected }: FaceCameraProps) {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const cameraRef = useRef<Camera | null>(null);
+  const samplesRef = useRef<FaceDetectionData[]>([]);
+  const lastResultRef = useRef(0);
+  const [capturing, setCapturing] = useState(false);
+
+  const handleFaceDetected = async (faceData: FaceDetectionData | null) => {
+    if (!faceData) {
+      return;
+    }
+
+    // Keep only the readings the scorer will look at
+    samplesRef.current = selectRecentSamples([...samplesRef.current, faceData]);
+
+    const now = Date.now();
+    if (now - lastResultRef.current < RESULT_INTERVAL_MS) {
+      return;
+    }
+    lastResultRef.current = now;
+
+    const result = await analyzeFaceSamples(samplesRef.current);
+    if (result) {
+      onEmotionDetected(result);
     }
-  }, []);
-
-  // Simulate face detection for web and mobile
-  const simulateFaceDetection = () => {
-    const emotions = [
-      'neutral', 'joy', 'sadness', 'anger', 
-      'surprise', 'fear', 'disgust', 'contentment'
-    ];
-    
-    const dominantEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-    
-    const emotionScores: Record<string, number> = {};
-    emotions.forEach(emotion => {
-      emotionScores[emotion] = emotion === dominantEmotion 
-        ? Math.random() * 0.5 + 0.5 
-        : Math.random() * 0.5;
-    });
-
-    const result: FaceAnalysisResult = {
-      faceDetected: true,
-      dominantEmotion,
-      emotionScores,
-      timestamp: Date.now(),
-    };
-
-    onEmotionDetected(result);
   };
 
-  // Toggle camera type
-  const toggleCameraType = () => {
-    setType(current => current === 'back' ? 'front' : 'back');
+  const takeSnapshot = async () => {
+    if (!cameraRef.current || capturing) {
+      return;
+    }
+
+    setCapturing(true);
+    let photoUri: string | null = null;
+    try {
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.5 });
+      photoUri = photo.uri;
+
+      const result = await analyzeImage({ uri: photo.uri }, samplesRef.current);
+      if (result) {
+        onEmotionDetected(result);
+      }
+    } catch (error) {
+      console.error('Failed to take face snapshot:', error);
+    } finally {
+      // analyzeImage keeps its own (possibly encrypted) copy; drop the camera's
+      if (photoUri) {
+        await FileSystem.deleteAsync(photoUri, { idempotent: true }).catch(() => {});
+      }
+      setCapturing(false);
+    }
   };
 
-  // Render camera or permission request
-  if (hasPermission === null) {
-    return React.createElement(View, {});
-  }
-  
-  if (hasPermission === false) {
+  if (Platform.OS === 'web') {
     return React.createElement(
-      View, 
+      View,
       { style: styles.permissionContainer },
       React.createElement(
         Text,
         { style: styles.permissionText },
-        'No access to camera'
+        'Face analysis is not supported on web'
       )
     );
   }
 
   return React.createElement(
-    View, 
+    View,
     { style: styles.container },
+    React.createElement(FaceDetectorComponent, { onFaceDetected: handleFaceDetected, cameraRef }),
     React.createElement(
-      View, 
-      { style: styles.camera },
-      React.createElement(
-        TouchableOpacity, 
-        {
-          style: styles.button, 
-          onPress: Platform.OS === 'web' ? simulateFaceDetection : toggleCameraType
-        },
-        React.createElement(
-          Text, 
-          { style: styles.buttonText },
-          Platform.OS === 'web' 
-            ? 'Simulate Face Detection' 
-            : 'Flip Camera'
-        )
-      )
+      TouchableOpacity,
+      {
+        style: styles.snapshotButton,
+        onPress: takeSnapshot,
+        disabled: capturing,
+        accessibilityLabel: 'Take snapshot',
+      },
+      capturing
+        ? React.createElement(ActivityIndicator, { size: 'small', color: '#fff' })
+        : React.createElement(Ionicons, { name: 'camera', size: 20, color: '#fff' }),
+      React.createElement(Text, { style: styles.snapshotText }, 'Take Snapshot')
     )
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
   },
-  camera: {
-    width: Dimensions.get('window').width,
-    height: Dimensions.get('window').height,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: theme.colors.background,
-  },
-  button: {
-    backgroundColor: theme.colors.primary,
-    padding: 15,
-    borderRadius: 10,
-  },
-  buttonText: {
-    color: 'white',
-    fontSize: 16,
-  },
   permissionContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -154,6 +140,22 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.md,
     fontWeight: '400' as const,
   },
+  snapshotButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.radii.md,
+    marginBottom: theme.spacing.md,
+  },
+  snapshotText: {
+    color: '#fff',
+    marginLeft: theme.spacing.sm,
+    fontSize: theme.typography.fontSizes.md,
+    fontWeight: '500' as const,
+  },
 });
 
-export default FaceCamera; 
\ No newline at end of file
+export default FaceCamera;
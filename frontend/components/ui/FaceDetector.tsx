@@ -1,9 +1,8 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   View, 
   StyleSheet, 
   Text, 
-  TouchableOpacity, 
   ActivityIndicator,
   Alert,
   Dimensions,
@@ -12,30 +11,30 @@ import {
 import { Camera, CameraType, FaceDetectionResult } from 'expo-camera';
 import * as FaceDetector from 'expo-face-detector';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../../constants/theme';
-
-// Interface for face detection data
-export interface FaceDetectionData {
-  smilingProbability: number;
-  leftEyeOpenProbability: number;
-  rightEyeOpenProbability: number;
-  headEulerAngleX: number; // Head tilt (pitch)
-  headEulerAngleY: number; // Head rotation (yaw)
-  headEulerAngleZ: number; // Head roll
-}
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import { FaceDetectionData } from '../../types';
+
+export type { FaceDetectionData };
 
 interface FaceDetectorProps {
   onFaceDetected: (faceData: FaceDetectionData | null) => void;
   showPreview?: boolean;
+  cameraRef?: React.MutableRefObject<Camera | null>; // Set to the preview camera, e.g. to take a still
 }
 
 const FaceDetectorComponent: React.FC<FaceDetectorProps> = ({ 
   onFaceDetected, 
-  showPreview = true 
+  showPreview = true,
+  cameraRef: externalCameraRef
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [detectedFace, setDetectedFace] = useState<FaceDetectionData | null>(null);
-  const cameraRef = useRef<Camera | null>(null);
+  const internalCameraRef = useRef<Camera | null>(null);
+  const cameraRef = externalCameraRef ?? internalCameraRef;
 
   // Request camera and face detection permissions
   useEffect(() => {
@@ -69,9 +68,10 @@ const FaceDetectorComponent: React.FC<FaceDetectorProps> = ({
           smilingProbability: face.smilingProbability ?? 0,
           leftEyeOpenProbability: face.leftEyeOpenProbability ?? 0,
           rightEyeOpenProbability: face.rightEyeOpenProbability ?? 0,
-          headEulerAngleX: 0, // Not directly available in expo-face-detector
-          headEulerAngleY: 0, // Not directly available in expo-face-detector
-          headEulerAngleZ: 0  // Not directly available in expo-face-detector
+          headEulerAngleX: 0, // Pitch is not reported by expo-face-detector
+          headEulerAngleY: face.yawAngle ?? 0,
+          headEulerAngleZ: face.rollAngle ?? 0,
+          timestamp: Date.now()
         };
 
         setDetectedFace(faceData);
@@ -87,19 +87,6 @@ const FaceDetectorComponent: React.FC<FaceDetectorProps> = ({
     }
   };
 
-  // Web fallback
-  const webFallback = () => {
-    const dummyFaceData: FaceDetectionData = {
-      smilingProbability: 0.5,
-      leftEyeOpenProbability: 0.8,
-      rightEyeOpenProbability: 0.8,
-      headEulerAngleX: 0,
-      headEulerAngleY: 0,
-      headEulerAngleZ: 0
-    };
-    onFaceDetected(dummyFaceData);
-  };
-
   // Render component
   if (Platform.OS === 'web') {
     return React.createElement(
@@ -108,23 +95,7 @@ const FaceDetectorComponent: React.FC<FaceDetectorProps> = ({
       React.createElement(
         Text, 
         { style: styles.warningText },
-        'Face Detection Not Fully Supported on Web'
-      ),
-      React.createElement(
-        View, 
-        { style: styles.buttonContainer },
-        React.createElement(
-          TouchableOpacity, 
-          { 
-            style: styles.fallbackButton,
-            onPress: webFallback 
-          },
-          React.createElement(
-            Text,
-            { style: styles.buttonText },
-            'Use Dummy Face Data'
-          )
-        )
+        'Face detection is not supported on web'
       )
     );
   }
@@ -193,7 +164,7 @@ const FaceDetectorComponent: React.FC<FaceDetectorProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
@@ -213,18 +184,6 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: theme.spacing.md,
   },
-  buttonContainer: {
-    marginTop: theme.spacing.md,
-  },
-  fallbackButton: {
-    backgroundColor: theme.colors.primary,
-    padding: theme.spacing.md,
-    borderRadius: theme.radii.md,
-  },
-  buttonText: {
-    color: theme.colors.cardBackground,
-    textAlign: 'center',
-  },
   faceDataContainer: {
     marginTop: theme.spacing.md,
     padding: theme.spacing.md,
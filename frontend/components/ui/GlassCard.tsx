@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet, ViewStyle, StyleProp } from 'react-native';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 interface GlassCardProps {
   children: React.ReactNode;
@@ -15,6 +16,9 @@ export const GlassCard: React.FC<GlassCardProps> = ({
   padding = 'medium',
   borderRadius = 'medium',
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const paddingStyle = padding !== 'none' 
     ? styles[`padding${padding.charAt(0).toUpperCase() + padding.slice(1)}` as keyof typeof styles] 
     : {};
@@ -37,7 +41,7 @@ export const GlassCard: React.FC<GlassCardProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   card: {
     backgroundColor: theme.colors.background,
     borderWidth: 1,
@@ -1,12 +1,13 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { StyleSheet, View, ViewStyle, StyleProp, ColorValue } from 'react-native';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 interface GradientBackgroundProps {
   children: React.ReactNode;
   style?: StyleProp<ViewStyle>;
   // Corrected the type of gradientType to match the actual structure of the theme object
-  gradientType?: keyof typeof theme.colors;
+  gradientType?: keyof AppTheme['colors'];
   start?: { x: number; y: number };
   end?: { x: number; y: number };
   animated?: boolean;
@@ -20,6 +21,9 @@ export const GradientBackground: React.FC<GradientBackgroundProps> = ({
   end = { x: 1, y: 1 },
   animated = false,
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   // Get the gradient color (using just the primary color since we don't have LinearGradient)
   const backgroundColor = theme.colors[gradientType] || theme.colors.primary;
   
@@ -36,7 +40,7 @@ export const GradientBackground: React.FC<GradientBackgroundProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     width: '100%',
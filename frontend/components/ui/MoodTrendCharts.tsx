@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -11,7 +11,8 @@ import {
 import { LineChart, BarChart, PieChart, ProgressChart, ContributionGraph } from 'react-native-chart-kit';
 import Animated, { useSharedValue, useAnimatedStyle, withTiming, Easing } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 import { TrendAnalysisResult } from '../../services/trendAnalysis';
 import { Card } from './Card';
 
@@ -24,6 +25,9 @@ export const MoodTrendCharts: React.FC<MoodTrendChartsProps> = ({
   trendData, 
   days 
 }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const { width } = Dimensions.get('window');
   const chartWidth = width - theme.spacing.lg * 2;
   
@@ -466,7 +470,7 @@ export const MoodTrendCharts: React.FC<MoodTrendChartsProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     padding: theme.spacing.md,
   },
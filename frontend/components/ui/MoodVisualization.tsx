@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -6,7 +6,8 @@ import {
   TouchableOpacity,
   Dimensions
 } from 'react-native';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
 
 // Dummy interface for mood analysis
 interface EmotionAnalysisResult {
@@ -41,6 +42,8 @@ const getDummySound = () => {
 };
 
 export const MoodVisualization: React.FC<MoodVisualizationProps> = ({ moodAnalysis }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
   const { width, height } = Dimensions.get('window');
   const [selectedSound, setSelectedSound] = useState<string | null>(null);
   
@@ -80,7 +83,7 @@ export const MoodVisualization: React.FC<MoodVisualizationProps> = ({ moodAnalys
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
@@ -90,6 +93,7 @@ const styles = StyleSheet.create({
   title: {
     fontSize: theme.typography.fontSizes.xl,
     fontWeight: theme.typography.fontWeights.bold as '700',
+    color: theme.colors.text,
     marginBottom: theme.spacing.lg,
   },
   soundControls: {
@@ -97,6 +101,7 @@ const styles = StyleSheet.create({
   },
   currentSound: {
     fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.text,
     marginBottom: theme.spacing.md,
   },
   buttonContainer: {
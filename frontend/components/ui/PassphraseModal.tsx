@@ -0,0 +1,171 @@
+import React, { useEffect, useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  KeyboardTypeOptions,
+} from 'react-native';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import { Button } from './Button';
+
+interface PassphraseModalProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  fields: string[]; // Placeholder for each passphrase input
+  confirmLabel?: string;
+  keyboardType?: KeyboardTypeOptions; // number-pad for PINs
+  maxLength?: number;
+  error?: string | null;
+  busy?: boolean;
+  onSubmit: (values: string[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Modal asking for one or more passphrases or PINs (Alert.prompt is iOS only)
+ */
+export const PassphraseModal: React.FC<PassphraseModalProps> = ({
+  visible,
+  title,
+  message,
+  fields,
+  confirmLabel = 'OK',
+  keyboardType = 'default',
+  maxLength,
+  error,
+  busy = false,
+  onSubmit,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [values, setValues] = useState<string[]>(fields.map(() => ''));
+
+  // Start empty each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setValues(fields.map(() => ''));
+    }
+  }, [visible, fields.length]);
+
+  const updateValue = (index: number, value: string) => {
+    setValues(current => current.map((existing, i) => (i === index ? value : existing)));
+  };
+
+  const canSubmit = !busy && values.every(value => value.length > 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          {message ? <Text style={styles.message}>{message}</Text> : null}
+
+          {fields.map((placeholder, index) => (
+            <TextInput
+              key={placeholder}
+              style={styles.input}
+              placeholder={placeholder}
+              placeholderTextColor={theme.colors.textLight}
+              value={values[index]}
+              onChangeText={value => updateValue(index, value)}
+              secureTextEntry
+              keyboardType={keyboardType}
+              maxLength={maxLength}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!busy}
+            />
+          ))}
+
+          {error ? <Text style={styles.error}>{error}</Text> : null}
+
+          {busy ? (
+            <ActivityIndicator style={styles.busy} color={theme.colors.primary} />
+          ) : (
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+                <Text style={styles.cancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <Button
+                title={confirmLabel}
+                onPress={() => onSubmit(values)}
+                disabled={!canSubmit}
+                style={!canSubmit && styles.disabled}
+              />
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: theme.spacing.xl,
+  },
+  dialog: {
+    backgroundColor: theme.colors.cardBackground,
+    borderRadius: theme.radii.lg,
+    padding: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.typography.fontSizes.lg,
+    fontWeight: theme.typography.fontWeights.bold as '700',
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  message: {
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.textLight,
+    marginBottom: theme.spacing.md,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radii.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  error: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+  },
+  busy: {
+    marginTop: theme.spacing.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: theme.spacing.sm,
+  },
+  cancelButton: {
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  cancelText: {
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.textLight,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default PassphraseModal;
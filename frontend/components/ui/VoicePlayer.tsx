@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import { VoiceEmotionSegment } from '../../types';
+import { computeWaveform } from '../../services/audioService';
+import { VoicePlayer as Player, VoicePlayerStatus, createVoicePlayer } from '../../services/voicePlayer';
+
+const BAR_COUNT = 48;
+
+// Height of bars when the recording can't be decoded (AAC on Android)
+const FLAT_BAR = 0.15;
+
+interface VoicePlayerProps {
+  uri: string;
+  segments?: VoiceEmotionSegment[]; // Emotion timeline shown under the waveform
+  duration?: number; // Seconds, shown until the recording reports its own
+  style?: StyleProp<ViewStyle>;
+}
+
+const formatTime = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Plays a voice recording with a waveform that can be tapped or dragged to
+ * seek, and the emotion heard in each part of it
+ */
+export const VoicePlayer: React.FC<VoicePlayerProps> = ({ uri, segments = [], duration = 0, style }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const playerRef = useRef<Player | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const [waveform, setWaveform] = useState<number[]>([]);
+  const [status, setStatus] = useState<VoicePlayerStatus>({ playing: false, position: 0, duration });
+  const [waveformWidth, setWaveformWidth] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setFailed(false);
+
+    const load = async () => {
+      const [player, peaks] = await Promise.all([
+        createVoicePlayer(uri, next => {
+          if (!cancelled) {
+            setStatus(next);
+          }
+        }),
+        computeWaveform(uri, BAR_COUNT),
+      ]);
+
+      if (cancelled) {
+        player?.unload();
+        return;
+      }
+
+      playerRef.current = player;
+      setWaveform(peaks ?? new Array(BAR_COUNT).fill(FLAT_BAR));
+      setFailed(!player);
+      setLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      playerRef.current?.unload();
+      playerRef.current = null;
+    };
+  }, [uri]);
+
+  const totalDuration = status.duration || duration;
+  const progress = totalDuration > 0 ? Math.min(1, status.position / totalDuration) : 0;
+  const currentSegment = segments.find(segment =>
+    status.position >= segment.start && status.position < segment.end
+  );
+
+  const togglePlayback = () => {
+    if (status.playing) {
+      playerRef.current?.pause();
+    } else {
+      playerRef.current?.play();
+    }
+  };
+
+  const seekToTouch = (event: GestureResponderEvent) => {
+    if (waveformWidth === 0 || totalDuration === 0) {
+      return;
+    }
+    const fraction = Math.min(1, Math.max(0, event.nativeEvent.locationX / waveformWidth));
+    playerRef.current?.seekTo(fraction * totalDuration);
+  };
+
+  const segmentColor = (segment: VoiceEmotionSegment): string => {
+    const colors = theme.colors as unknown as Record<string, string>;
+    return colors[segment.dominantEmotion] ?? theme.colors.neutral;
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centered, style]}>
+        <ActivityIndicator color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (failed) {
+    return (
+      <View style={[styles.container, styles.centered, style]}>
+        <Text style={styles.errorText}>This recording can't be played</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.playerRow}>
+        <TouchableOpacity
+          style={styles.playButton}
+          onPress={togglePlayback}
+          accessibilityLabel={status.playing ? 'Pause recording' : 'Play recording'}
+        >
+          <Ionicons name={status.playing ? 'pause' : 'play'} size={22} color={theme.colors.white} />
+        </TouchableOpacity>
+
+        <View
+          style={styles.waveform}
+          onLayout={(event: LayoutChangeEvent) => setWaveformWidth(event.nativeEvent.layout.width)}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderGrant={seekToTouch}
+          onResponderMove={seekToTouch}
+        >
+          {waveform.map((peak, index) => (
+            <View
+              key={index}
+              pointerEvents="none"
+              style={[
+                styles.bar,
+                {
+                  height: `${Math.max(8, peak * 100)}%`,
+                  backgroundColor: index / waveform.length < progress
+                    ? theme.colors.primary
+                    : theme.colors.lightGray,
+                },
+              ]}
+            />
+          ))}
+        </View>
+      </View>
+
+      {segments.length > 0 && totalDuration > 0 && (
+        <View style={styles.timeline} pointerEvents="none">
+          {segments.map(segment => (
+            <View
+              key={segment.start}
+              style={[
+                styles.segment,
+                {
+                  left: `${(segment.start / totalDuration) * 100}%`,
+                  width: `${((segment.end - segment.start) / totalDuration) * 100}%`,
+                  backgroundColor: segmentColor(segment),
+                  opacity: segment === currentSegment ? 1 : 0.5,
+                },
+              ]}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.infoRow}>
+        <Text style={styles.timeText}>
+          {formatTime(status.position)} / {formatTime(totalDuration)}
+        </Text>
+        {currentSegment && (
+          <Text style={styles.segmentText}>
+            Sounds like {capitalize(String(currentSegment.dominantEmotion))}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    paddingVertical: theme.spacing.sm,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 60,
+  },
+  errorText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing.md,
+  },
+  waveform: {
+    flex: 1,
+    height: 48,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  bar: {
+    width: 3,
+    borderRadius: 2,
+  },
+  timeline: {
+    height: 6,
+    marginTop: theme.spacing.sm,
+    marginLeft: 40 + theme.spacing.md,
+    borderRadius: 3,
+    backgroundColor: theme.colors.lightGray,
+    overflow: 'hidden',
+  },
+  segment: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.xs,
+    marginLeft: 40 + theme.spacing.md,
+  },
+  timeText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+  },
+  segmentText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.text,
+  },
+});
+
+export default VoicePlayer;
@@ -1,35 +1,60 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { 
-  View, 
-  Text, 
-  TouchableOpacity, 
-  StyleSheet, 
-  Platform 
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Platform
 } from 'react-native';
-import * as FileSystem from 'expo-file-system';
 import { Audio } from 'expo-av';
-import theme from '../../constants/theme';
+import { AppTheme } from '../../constants/theme';
+import { useTheme } from '../../hooks/useTheme';
+import {
+  VOICE_RECORDING_OPTIONS,
+  canAnalyzeRecordings,
+  storeRecording,
+  trimRecordingSilence,
+} from '../../services/audioService';
+import { VoiceActivityDetector, createVoiceActivityDetector } from '../../services/voiceActivity';
+
+// How often the recorder reports its input level, in milliseconds
+const METERING_INTERVAL_MS = 100;
 
 // Interface for voice recording data
 export interface VoiceRecordingData {
   uri: string | null;
-  duration: number;
-  decibels: number;
+  duration: number; // Seconds, after trimming
+  decibels: number; // Mean input level while speaking, in dBFS; 0 when unknown
 }
 
 interface VoiceRecorderProps {
   onRecordingComplete: (recordingData: VoiceRecordingData) => void;
-  maxDuration?: number; // in seconds
+  maxDuration?: number; // in seconds; long enough for a spoken journal by default
+  autoStopSilence?: number; // Seconds of silence after speaking that stop the recording; 0 to turn off
+  trimSilence?: boolean; // Cut the silence before and after the speech (WAV recordings only)
 }
 
-const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ 
-  onRecordingComplete, 
-  maxDuration = 60 
+export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
+  onRecordingComplete,
+  maxDuration = 180,
+  autoStopSilence = 3,
+  trimSilence = true,
 }) => {
-  const [recording, setRecording] = useState<Audio.Recording | null>(null);
-  const [recordingStatus, setRecordingStatus] = useState<'idle' | 'recording' | 'stopped'>('idle');
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [recordingStatus, setRecordingStatus] = useState<'idle' | 'recording' | 'processing' | 'stopped'>('idle');
   const [recordingDuration, setRecordingDuration] = useState(0);
-  const [timer, setTimer] = useState<NodeJS.Timeout | null>(null);
+  const [level, setLevel] = useState(0);
+  const [speaking, setSpeaking] = useState(false);
+  const [silenceLeft, setSilenceLeft] = useState<number | null>(null);
+
+  // Status updates arrive on the native side's schedule, so the handlers
+  // read the live recording through refs rather than render-time state
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const stoppingRef = useRef(false);
+  const stopRecordingRef = useRef<() => Promise<void>>(async () => {});
 
   // Permissions and setup
   useEffect(() => {
@@ -44,8 +69,44 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     };
 
     setupAudioPermissions();
+
+    // Don't leave the microphone running if the screen goes away mid-recording
+    return () => {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      recording?.stopAndUnloadAsync().catch(() => {});
+    };
   }, []);
 
+  const handleStatus = (status: Audio.RecordingStatus) => {
+    if (!status.isRecording || recordingRef.current === null) {
+      return;
+    }
+
+    const seconds = status.durationMillis / 1000;
+    setRecordingDuration(Math.floor(seconds));
+
+    if (status.metering !== undefined && detectorRef.current) {
+      const activity = detectorRef.current.update(status.metering, status.durationMillis);
+      setLevel(activity.level);
+      setSpeaking(activity.speaking);
+      setSilenceLeft(
+        activity.heardSpeech && autoStopSilence > 0 && activity.silenceMs >= 1000
+          ? Math.max(0, Math.ceil(autoStopSilence - activity.silenceMs / 1000))
+          : null
+      );
+
+      if (activity.shouldStop) {
+        stopRecordingRef.current();
+        return;
+      }
+    }
+
+    if (seconds >= maxDuration) {
+      stopRecordingRef.current();
+    }
+  };
+
   // Start recording
   const startRecording = async () => {
     if (Platform.OS === 'web') {
@@ -55,8 +116,9 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
 
     try {
       // Ensure we stop any existing recording
-      if (recording) {
-        await recording.stopAndUnloadAsync();
+      if (recordingRef.current) {
+        await recordingRef.current.stopAndUnloadAsync();
+        recordingRef.current = null;
       }
 
       // Request permissions
@@ -70,76 +132,65 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
 
       // Create a new recording
       const newRecording = new Audio.Recording();
-      await newRecording.prepareToRecordAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
-      );
-      await newRecording.startAsync();
+      await newRecording.prepareToRecordAsync(VOICE_RECORDING_OPTIONS);
+      newRecording.setProgressUpdateInterval(METERING_INTERVAL_MS);
+      newRecording.setOnRecordingStatusUpdate(handleStatus);
 
-      setRecording(newRecording);
-      setRecordingStatus('recording');
+      detectorRef.current = createVoiceActivityDetector({ trailingSilenceMs: autoStopSilence * 1000 });
+      stoppingRef.current = false;
+      recordingRef.current = newRecording;
+      setRecordingDuration(0);
+      setLevel(0);
+      setSpeaking(false);
+      setSilenceLeft(null);
 
-      // Start duration timer
-      const recordingTimer = setInterval(() => {
-        setRecordingDuration(prev => {
-          if (prev >= maxDuration) {
-            stopRecording();
-            return maxDuration;
-          }
-          return prev + 1;
-        });
-      }, 1000);
-
-      setTimer(recordingTimer);
+      await newRecording.startAsync();
+      setRecordingStatus('recording');
     } catch (err) {
+      recordingRef.current = null;
       console.error('Failed to start recording', err);
     }
   };
 
   // Stop recording
   const stopRecording = async () => {
-    if (Platform.OS === 'web' || !recording) return;
-
-    // Clear timer
-    if (timer) {
-      clearInterval(timer);
-      setTimer(null);
-    }
+    const recording = recordingRef.current;
+    if (Platform.OS === 'web' || !recording || stoppingRef.current) return;
+    stoppingRef.current = true;
+    setRecordingStatus('processing');
 
     try {
       // Stop and unload the recording
-      await recording.stopAndUnloadAsync();
-      
-      // Get recording details
-      const recordingDetails = await recording.getStatusAsync();
-      
-      // Generate unique filename
-      const filename = `voice_${Date.now()}.m4a`;
-      const fileUri = `${FileSystem.documentDirectory}${filename}`;
-
-      // Move recording to app's document directory
-      await FileSystem.moveAsync({
-        from: recording.getURI() || '',
-        to: fileUri
-      });
+      recording.setOnRecordingStatusUpdate(null);
+      const recordingDetails = await recording.stopAndUnloadAsync();
+      recordingRef.current = null;
+
+      const tempUri = recording.getURI() || '';
+      const trimmedDuration = trimSilence ? await trimRecordingSilence(tempUri) : null;
+
+      // Keep the recording with the others, in the recorder's format (WAV on iOS)
+      const fileUri = await storeRecording(tempUri);
 
       // Prepare recording data
       const recordingData: VoiceRecordingData = {
         uri: fileUri,
-        duration: recordingDuration,
-        decibels: recordingDetails.metering || 0
+        duration: trimmedDuration ?? recordingDetails.durationMillis / 1000,
+        decibels: detectorRef.current?.getAverageSpeechLevel() ?? 0
       };
 
-      // Reset state
-      setRecording(null);
-      setRecordingStatus('stopped');
-      setRecordingDuration(0);
-
       // Callback with recording data
       onRecordingComplete(recordingData);
     } catch (err) {
       console.error('Failed to stop recording', err);
+    } finally {
+      detectorRef.current = null;
+      setRecordingStatus('stopped');
+      setRecordingDuration(0);
+      setLevel(0);
+      setSilenceLeft(null);
     }
   };
+  stopRecordingRef.current = stopRecording;
 
   // Web fallback
   const webFallback = () => {
@@ -151,44 +202,90 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     onRecordingComplete(dummyRecordingData);
   };
 
+  const hint = silenceLeft !== null
+    ? `Stopping in ${silenceLeft}s unless you keep talking`
+    : speaking
+      ? 'Listening...'
+      : autoStopSilence > 0
+        ? `Stops after ${autoStopSilence}s of silence`
+        : 'Tap stop when you are done';
+
   // Render component
+  if (Platform.OS === 'web') {
+    return React.createElement(
+      View,
+      { style: styles.container },
+      React.createElement(
+        TouchableOpacity,
+        {
+          style: styles.recordButton,
+          onPress: webFallback
+        },
+        React.createElement(
+          Text,
+          { style: styles.buttonText },
+          'Voice Recording Not Supported'
+        )
+      )
+    );
+  }
+
   return React.createElement(
-    View, 
+    View,
     { style: styles.container },
-    Platform.OS !== 'web' 
-      ? React.createElement(
-          TouchableOpacity,
-          {
-            style: [
-              styles.recordButton, 
-              recordingStatus === 'recording' && styles.recordingButton
-            ],
-            onPress: recordingStatus === 'recording' ? stopRecording : startRecording
-          },
-          React.createElement(
-            Text, 
-            { style: styles.buttonText },
-            recordingStatus === 'recording' 
-              ? `Stop (${recordingDuration}s)` 
-              : 'Start Recording'
-          )
-        )
-      : React.createElement(
-          TouchableOpacity,
-          {
-            style: styles.recordButton,
-            onPress: webFallback
-          },
-          React.createElement(
-            Text, 
-            { style: styles.buttonText },
-            'Voice Recording Not Supported'
-          )
-        )
+    React.createElement(
+      TouchableOpacity,
+      {
+        style: [
+          styles.recordButton,
+          recordingStatus === 'recording' && styles.recordingButton
+        ],
+        disabled: recordingStatus === 'processing',
+        onPress: recordingStatus === 'recording' ? stopRecording : startRecording
+      },
+      React.createElement(
+        Text,
+        { style: styles.buttonText },
+        recordingStatus === 'recording'
+          ? `Stop (${recordingDuration}s)`
+          : recordingStatus === 'processing'
+            ? 'Saving...'
+            : 'Start Recording'
+      )
+    ),
+    recordingStatus === 'recording' && React.createElement(
+      View,
+      { style: styles.meterSection },
+      React.createElement(
+        View,
+        {
+          style: styles.meterTrack,
+          accessibilityRole: 'progressbar',
+          accessibilityLabel: 'Input level',
+          accessibilityValue: { min: 0, max: 100, now: Math.round(level * 100) },
+        },
+        React.createElement(View, {
+          style: [
+            styles.meterFill,
+            {
+              width: `${Math.round(level * 100)}%`,
+              backgroundColor: speaking ? theme.colors.success : theme.colors.gray,
+            },
+          ],
+        })
+      ),
+      React.createElement(Text, { style: styles.hintText }, hint)
+    ),
+    // Say so up front rather than leaving the recording silently unscored
+    !canAnalyzeRecordings() && React.createElement(
+      Text,
+      { style: styles.noticeText },
+      'Voice analysis is not available on this device yet. Recordings are kept with the entry and can be played back.'
+    )
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -209,6 +306,33 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSizes.md,
     fontWeight: 'bold',
   },
+  meterSection: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  meterTrack: {
+    alignSelf: 'stretch',
+    height: 8,
+    borderRadius: theme.radii.sm,
+    backgroundColor: theme.colors.lightGray,
+    overflow: 'hidden',
+  },
+  meterFill: {
+    height: '100%',
+    borderRadius: theme.radii.sm,
+  },
+  hintText: {
+    marginTop: theme.spacing.xs,
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+  },
+  noticeText: {
+    marginTop: theme.spacing.md,
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+  },
 });
 
-export default VoiceRecorder; 
\ No newline at end of file
+export default VoiceRecorder;
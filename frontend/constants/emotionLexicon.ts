@@ -0,0 +1,236 @@
+import { DiscreteEmotion } from '../types';
+
+// Emotion the words express, with a strength from 0 to 1
+export type LexiconEntry = Partial<Record<DiscreteEmotion, number>>;
+
+/**
+ * Word-level emotion lexicon used by services/textEmotionClassifier.ts.
+ * Keys are lowercase base forms; the classifier strips common suffixes
+ * ("worried" -> "worry", "loved" -> "love") before looking words up.
+ */
+export const EMOTION_LEXICON: Record<string, LexiconEntry> = {
+  // Joy
+  happy: { joy: 0.8 },
+  joy: { joy: 0.9 },
+  joyful: { joy: 0.9 },
+  glad: { joy: 0.6 },
+  excited: { joy: 0.7, surprise: 0.2 },
+  exciting: { joy: 0.6, surprise: 0.2 },
+  great: { joy: 0.6 },
+  good: { joy: 0.4, contentment: 0.2 },
+  wonderful: { joy: 0.8 },
+  amazing: { joy: 0.7, surprise: 0.3 },
+  awesome: { joy: 0.7 },
+  fantastic: { joy: 0.8 },
+  love: { joy: 0.8 },
+  lovely: { joy: 0.6, contentment: 0.2 },
+  pleased: { joy: 0.5, contentment: 0.3 },
+  delighted: { joy: 0.9 },
+  thrilled: { joy: 0.9, surprise: 0.2 },
+  cheerful: { joy: 0.7 },
+  fun: { joy: 0.6 },
+  laugh: { joy: 0.6 },
+  smile: { joy: 0.5 },
+  proud: { joy: 0.6 },
+  grateful: { joy: 0.5, contentment: 0.4 },
+  thankful: { joy: 0.4, contentment: 0.4 },
+  hopeful: { joy: 0.4, contentment: 0.2 },
+  yay: { joy: 0.7 },
+
+  // Sadness
+  sad: { sadness: 0.8 },
+  unhappy: { sadness: 0.7 },
+  depressed: { sadness: 0.9 },
+  down: { sadness: 0.4 },
+  miserable: { sadness: 0.9 },
+  upset: { sadness: 0.5, anger: 0.2 },
+  lonely: { sadness: 0.7 },
+  alone: { sadness: 0.4 },
+  cry: { sadness: 0.7 },
+  tear: { sadness: 0.5 },
+  heartbroken: { sadness: 1.0 },
+  hurt: { sadness: 0.6, anger: 0.2 },
+  disappointed: { sadness: 0.6, anger: 0.1 },
+  gloomy: { sadness: 0.6 },
+  hopeless: { sadness: 0.9, fear: 0.2 },
+  empty: { sadness: 0.5 },
+  tired: { sadness: 0.3 },
+  exhausted: { sadness: 0.4 },
+  grief: { sadness: 1.0 },
+  miss: { sadness: 0.4 },
+  sorry: { sadness: 0.4 },
+  lost: { sadness: 0.4, fear: 0.2 },
+
+  // Anger
+  angry: { anger: 0.8 },
+  mad: { anger: 0.7 },
+  furious: { anger: 1.0 },
+  annoyed: { anger: 0.5 },
+  annoying: { anger: 0.5 },
+  irritated: { anger: 0.5 },
+  frustrated: { anger: 0.6, sadness: 0.1 },
+  frustrating: { anger: 0.6 },
+  hate: { anger: 0.8, disgust: 0.3 },
+  rage: { anger: 1.0 },
+  outraged: { anger: 0.9 },
+  resent: { anger: 0.6 },
+  pissed: { anger: 0.8 },
+  unfair: { anger: 0.5 },
+  bitter: { anger: 0.5, sadness: 0.2 },
+  hostile: { anger: 0.7 },
+
+  // Fear
+  afraid: { fear: 0.8 },
+  scared: { fear: 0.8 },
+  fearful: { fear: 0.8 },
+  terrified: { fear: 1.0 },
+  anxious: { fear: 0.7 },
+  anxiety: { fear: 0.7 },
+  worry: { fear: 0.6 },
+  worried: { fear: 0.6 },
+  nervous: { fear: 0.6 },
+  panic: { fear: 0.9 },
+  stressed: { fear: 0.5, anger: 0.2 },
+  stress: { fear: 0.5, anger: 0.2 },
+  overwhelmed: { fear: 0.6, sadness: 0.2 },
+  dread: { fear: 0.8 },
+  uneasy: { fear: 0.5 },
+  insecure: { fear: 0.5, sadness: 0.2 },
+  tense: { fear: 0.5 },
+  frightened: { fear: 0.8 },
+
+  // Surprise
+  surprised: { surprise: 0.8 },
+  surprise: { surprise: 0.7 },
+  shocked: { surprise: 0.8, fear: 0.2 },
+  amazed: { surprise: 0.8, joy: 0.3 },
+  astonished: { surprise: 0.9 },
+  unexpected: { surprise: 0.6 },
+  suddenly: { surprise: 0.4 },
+  wow: { surprise: 0.7, joy: 0.2 },
+  whoa: { surprise: 0.7 },
+  stunned: { surprise: 0.8 },
+  speechless: { surprise: 0.7 },
+
+  // Disgust
+  disgusted: { disgust: 0.9 },
+  disgusting: { disgust: 0.9 },
+  gross: { disgust: 0.7 },
+  revolting: { disgust: 0.9 },
+  awful: { disgust: 0.5, sadness: 0.3 },
+  horrible: { disgust: 0.5, fear: 0.2 },
+  nasty: { disgust: 0.7 },
+  sick: { disgust: 0.5, sadness: 0.2 },
+  yuck: { disgust: 0.8 },
+  ew: { disgust: 0.7 },
+  vile: { disgust: 0.9 },
+  repulsive: { disgust: 0.9 },
+  terrible: { disgust: 0.4, sadness: 0.4 },
+
+  // Contentment
+  content: { contentment: 0.7 },
+  satisfied: { contentment: 0.7 },
+  peaceful: { contentment: 0.8 },
+  calm: { contentment: 0.7 },
+  relaxed: { contentment: 0.8 },
+  relaxing: { contentment: 0.7 },
+  comfortable: { contentment: 0.6 },
+  cozy: { contentment: 0.6 },
+  serene: { contentment: 0.9 },
+  fine: { contentment: 0.3 },
+  okay: { contentment: 0.2 },
+  ok: { contentment: 0.2 },
+  rested: { contentment: 0.5 },
+  relieved: { contentment: 0.6, joy: 0.2 },
+  safe: { contentment: 0.5 },
+  balanced: { contentment: 0.5 },
+  chill: { contentment: 0.5 },
+};
+
+// Words that scale the next emotion word
+export const INTENSIFIERS: Record<string, number> = {
+  very: 1.5,
+  really: 1.4,
+  so: 1.3,
+  extremely: 1.8,
+  incredibly: 1.7,
+  super: 1.5,
+  totally: 1.4,
+  completely: 1.5,
+  absolutely: 1.6,
+  truly: 1.3,
+  deeply: 1.5,
+  too: 1.3,
+  most: 1.3,
+  // Diminishers
+  slightly: 0.5,
+  somewhat: 0.6,
+  bit: 0.6,
+  little: 0.6,
+  kinda: 0.7,
+  kind: 0.7,
+  sort: 0.7,
+  barely: 0.4,
+  mildly: 0.5,
+  fairly: 0.8,
+};
+
+// Words that negate the emotion words that follow them in the same clause
+export const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor',
+  'without', 'hardly', 'cannot', 'nt',
+]);
+
+// Emoji and emoticons, matched on the raw text before tokenising
+export const EMOJI_LEXICON: Record<string, LexiconEntry> = {
+  '😀': { joy: 0.8 },
+  '😃': { joy: 0.8 },
+  '😄': { joy: 0.9 },
+  '😁': { joy: 0.8 },
+  '😂': { joy: 0.8 },
+  '🤣': { joy: 0.8 },
+  '😊': { joy: 0.7, contentment: 0.3 },
+  '🙂': { joy: 0.4, contentment: 0.3 },
+  '😍': { joy: 0.9 },
+  '🥰': { joy: 0.8, contentment: 0.3 },
+  '❤': { joy: 0.7 },
+  '🎉': { joy: 0.8, surprise: 0.2 },
+  '😌': { contentment: 0.8 },
+  '😇': { contentment: 0.6, joy: 0.3 },
+  '🧘': { contentment: 0.8 },
+  '😢': { sadness: 0.8 },
+  '😭': { sadness: 0.9 },
+  '😞': { sadness: 0.7 },
+  '😔': { sadness: 0.7 },
+  '🙁': { sadness: 0.5 },
+  '☹': { sadness: 0.6 },
+  '💔': { sadness: 0.9 },
+  '😠': { anger: 0.8 },
+  '😡': { anger: 0.9 },
+  '🤬': { anger: 1.0 },
+  '😤': { anger: 0.6 },
+  '😨': { fear: 0.8 },
+  '😰': { fear: 0.8 },
+  '😱': { fear: 0.7, surprise: 0.4 },
+  '😟': { fear: 0.5, sadness: 0.2 },
+  '😬': { fear: 0.4 },
+  '😮': { surprise: 0.8 },
+  '😲': { surprise: 0.9 },
+  '🤯': { surprise: 0.8 },
+  '😳': { surprise: 0.6, fear: 0.2 },
+  '🤢': { disgust: 0.9 },
+  '🤮': { disgust: 1.0 },
+  '😒': { disgust: 0.4, anger: 0.3 },
+  '😐': {},
+  ':)': { joy: 0.5 },
+  ':-)': { joy: 0.5 },
+  ':D': { joy: 0.8 },
+  ':-D': { joy: 0.8 },
+  '<3': { joy: 0.6 },
+  ':(': { sadness: 0.6 },
+  ':-(': { sadness: 0.6 },
+  ":'(": { sadness: 0.8 },
+  '>:(': { anger: 0.8 },
+  ':O': { surprise: 0.7 },
+  ':o': { surprise: 0.6 },
+};
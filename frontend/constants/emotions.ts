@@ -0,0 +1,6 @@
+import { DiscreteEmotion } from '../types';
+
+// The categorical emotions in EmotionData, in display order
+export const DISCRETE_EMOTIONS: readonly DiscreteEmotion[] = [
+  'joy', 'sadness', 'anger', 'fear', 'surprise', 'disgust', 'contentment', 'neutral',
+];
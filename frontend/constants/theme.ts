@@ -1,25 +1,134 @@
 import { Dimensions, Platform } from 'react-native';
-import { Theme, ThemeColors, ThemeSpacing, ThemeTypography, ThemeRadii } from '../types';
+import { ThemeColors, ThemeGradients } from '../types';
 
 const { width, height } = Dimensions.get('window');
-// Theme constants for EmotiGlass app
-export const theme = {
-  // Color palette
-  colors: {
-    primary: '#6A5ACD', // Slate Blue
-    secondary: '#4169E1', // Royal Blue
-    background: '#F0F4F8', // Light Blue-Gray
-    cardBackground: '#FFFFFF', // White
-    text: '#1A2B3C', // Dark Blue-Gray
-    textLight: '#6B7280', // Gray
-    border: '#E2E8F0', // Light Border
-    accent: '#10B981', // Emerald Green
-    error: '#EF4444', // Red
-    success: '#10B981', // Green
-    warning: '#E3A55D', // Warning color (orange)
-    info: '#5DB1E3', // Info color (light blue)
-  },
-  
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+// Emotion colors are shared by both palettes; the dark palette lifts the
+// darkest ones so they stay readable on dark backgrounds
+const emotionColors = {
+  joy: '#FFD700', // Gold
+  sadness: '#4682B4', // Steel Blue
+  anger: '#B22222', // Firebrick
+  fear: '#556B2F', // Dark Olive Green
+  surprise: '#9932CC', // Dark Orchid
+  disgust: '#228B22', // Forest Green
+  contentment: '#20B2AA', // Light Sea Green
+  neutral: '#A9A9A9', // Dark Gray
+};
+
+export const lightColors: ThemeColors = {
+  primary: '#6A5ACD', // Slate Blue
+  primaryLight: '#9388E0',
+  primaryDark: '#483D8B',
+  secondary: '#4169E1', // Royal Blue
+  secondaryLight: '#7B96EC',
+  secondaryDark: '#27408B',
+  accent: '#10B981', // Emerald Green
+  accentLight: '#6EE7B7',
+  accentDark: '#047857',
+
+  ...emotionColors,
+
+  white: '#FFFFFF',
+  offWhite: '#F8FAFC',
+  lightGray: '#E5E7EB',
+  gray: '#9CA3AF',
+  darkGray: '#4B5563',
+  charcoal: '#1F2937',
+  black: '#000000',
+
+  text: '#1A2B3C', // Dark Blue-Gray
+  textLight: '#6B7280', // Gray
+  background: '#F0F4F8', // Light Blue-Gray
+  cardBackground: '#FFFFFF', // White
+  border: '#E2E8F0', // Light Border
+  error: '#EF4444', // Red
+  success: '#10B981', // Green
+  warning: '#E3A55D', // Warning color (orange)
+  info: '#5DB1E3', // Info color (light blue)
+  glassBackground: 'rgba(255, 255, 255, 0.7)',
+
+  glassLight: 'rgba(255, 255, 255, 0.25)',
+  glassDark: 'rgba(0, 0, 0, 0.1)',
+  glassBorder: 'rgba(255, 255, 255, 0.4)',
+};
+
+export const darkColors: ThemeColors = {
+  primary: '#8B7CF6',
+  primaryLight: '#B4A9FA',
+  primaryDark: '#6A5ACD',
+  secondary: '#6B8EF0',
+  secondaryLight: '#9DB4F5',
+  secondaryDark: '#4169E1',
+  accent: '#34D399',
+  accentLight: '#6EE7B7',
+  accentDark: '#10B981',
+
+  ...emotionColors,
+  sadness: '#6A9FCF',
+  anger: '#E05252',
+  fear: '#8BA650',
+  surprise: '#B767E0',
+  disgust: '#4CAF50',
+  neutral: '#B8B8B8',
+
+  // Scale is inverted so "white" surfaces and "lightGray" dividers stay low contrast
+  white: '#1E2430',
+  offWhite: '#171C26',
+  lightGray: '#2D3544',
+  gray: '#6B7280',
+  darkGray: '#9CA3AF',
+  charcoal: '#E5E7EB',
+  black: '#FFFFFF',
+
+  text: '#E6EDF5',
+  textLight: '#9AA5B4',
+  background: '#10141C',
+  cardBackground: '#1B212C',
+  border: '#2D3544',
+  error: '#F87171',
+  success: '#34D399',
+  warning: '#F0B86E',
+  info: '#7CC4EE',
+  glassBackground: 'rgba(27, 33, 44, 0.75)',
+
+  glassLight: 'rgba(255, 255, 255, 0.08)',
+  glassDark: 'rgba(0, 0, 0, 0.35)',
+  glassBorder: 'rgba(255, 255, 255, 0.12)',
+};
+
+export const lightGradients: ThemeGradients = {
+  primary: ['#6A5ACD', '#4169E1'],
+  secondary: ['#4169E1', '#5DB1E3'],
+  accent: ['#10B981', '#20B2AA'],
+  calm: ['#A8E6CF', '#DCEDC1'],
+  warm: ['#FFD3B6', '#FFAAA5'],
+  cool: ['#B3E5FC', '#81D4FA'],
+  joyful: ['#FFD700', '#FFA500'],
+  sad: ['#4682B4', '#5F9EA0'],
+  angry: ['#B22222', '#FF6347'],
+  neutral: ['#D3D3D3', '#A9A9A9'],
+  dark: ['#1A2B3C', '#2C3E50'],
+};
+
+export const darkGradients: ThemeGradients = {
+  primary: ['#483D8B', '#27408B'],
+  secondary: ['#27408B', '#1E5F8A'],
+  accent: ['#047857', '#0F766E'],
+  calm: ['#1F4E3D', '#2E4A2A'],
+  warm: ['#5C3A2E', '#5C2E2E'],
+  cool: ['#1E3A5F', '#1A4F6E'],
+  joyful: ['#7A6400', '#7A4A00'],
+  sad: ['#23415A', '#2F4F50'],
+  angry: ['#5A1111', '#7A2F24'],
+  neutral: ['#3A3F47', '#2A2E35'],
+  dark: ['#0B0E14', '#161B24'],
+};
+
+// Everything except colors and gradients is the same in both themes
+const baseTheme = {
   // Typography
   typography: {
     // Font families
@@ -107,4 +216,26 @@ export const theme = {
   },
 };
 
-export default theme; 
\ No newline at end of file
+export const lightTheme = {
+  ...baseTheme,
+  mode: 'light' as 'light' | 'dark',
+  colors: lightColors,
+  gradients: lightGradients,
+};
+
+export const darkTheme: AppTheme = {
+  ...baseTheme,
+  mode: 'dark',
+  colors: darkColors,
+  gradients: darkGradients,
+};
+
+export type AppTheme = typeof lightTheme;
+
+/**
+ * Static light theme for code outside React components. Components should
+ * use useTheme() so they follow the user's light/dark choice.
+ */
+export const theme = lightTheme;
+
+export default theme;
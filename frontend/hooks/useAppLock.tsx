@@ -0,0 +1,163 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import {
+  AppLockConfig,
+  PinVerifyResult,
+  authenticateWithBiometrics,
+  getAppLockConfig,
+  initAppLock,
+  isBiometricsAvailable,
+  removePin,
+  setAutoLockTimeout as saveAutoLockTimeout,
+  setBiometricsEnabled as saveBiometricsEnabled,
+  setPin as savePin,
+  verifyPin,
+} from '../services/appLockService';
+import { clearOpenedFiles } from '../services/encryptionService';
+
+interface AppLockContextType {
+  ready: boolean; // Settings loaded
+  enabled: boolean; // A PIN is set
+  locked: boolean;
+  biometricsAvailable: boolean;
+  biometricsEnabled: boolean;
+  autoLockTimeout: number;
+  lock: () => void;
+  unlockWithPin: (pin: string) => Promise<PinVerifyResult>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  disableLock: (pin: string) => Promise<boolean>;
+  setBiometricsEnabled: (enabled: boolean) => Promise<void>;
+  setAutoLockTimeout: (timeout: number) => Promise<void>;
+}
+
+const AppLockContext = React.createContext<AppLockContextType | null>(null);
+
+/**
+ * Holds the app lock state and locks the app when it comes back from the
+ * background after the configured timeout
+ */
+export const AppLockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [ready, setReady] = useState(false);
+  const [lockConfig, setLockConfig] = useState<AppLockConfig | null>(null);
+  const [locked, setLocked] = useState(false);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  // Mirror the service's config after every change
+  const refreshConfig = () => setLockConfig(getAppLockConfig());
+
+  useEffect(() => {
+    const load = async () => {
+      const loaded = await initAppLock();
+      setLockConfig(loaded);
+      setLocked(loaded !== null); // Always start locked
+      setBiometricsAvailable(await isBiometricsAvailable());
+      setReady(true);
+    };
+
+    load();
+  }, []);
+
+  // Lock when returning from the background after the timeout
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      const current = getAppLockConfig();
+      if (!current) {
+        return;
+      }
+
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (nextState === 'active' && backgroundedAt.current !== null) {
+        if (Date.now() - backgroundedAt.current >= current.autoLockTimeout) {
+          setLocked(true);
+        }
+        backgroundedAt.current = null;
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, []);
+
+  // Decrypted media copies shouldn't outlive the session that opened them
+  useEffect(() => {
+    if (locked) {
+      clearOpenedFiles().catch(error => console.error('[useAppLock] Failed to clear decrypted files:', error));
+    }
+  }, [locked]);
+
+  const lock = useCallback(() => {
+    if (getAppLockConfig()) {
+      setLocked(true);
+    }
+  }, []);
+
+  const unlockWithPin = useCallback(async (pin: string) => {
+    const result = await verifyPin(pin);
+    refreshConfig();
+    if (result.success) {
+      setLocked(false);
+    }
+    return result;
+  }, []);
+
+  const unlockWithBiometrics = useCallback(async () => {
+    const success = await authenticateWithBiometrics();
+    if (success) {
+      setLocked(false);
+    }
+    return success;
+  }, []);
+
+  const setPin = useCallback(async (pin: string) => {
+    await savePin(pin);
+    refreshConfig();
+  }, []);
+
+  const disableLock = useCallback(async (pin: string) => {
+    const removed = await removePin(pin);
+    refreshConfig();
+    return removed;
+  }, []);
+
+  const setBiometricsEnabled = useCallback(async (enabled: boolean) => {
+    await saveBiometricsEnabled(enabled);
+    refreshConfig();
+  }, []);
+
+  const setAutoLockTimeout = useCallback(async (timeout: number) => {
+    await saveAutoLockTimeout(timeout);
+    refreshConfig();
+  }, []);
+
+  const value: AppLockContextType = {
+    ready,
+    enabled: lockConfig !== null,
+    locked,
+    biometricsAvailable,
+    biometricsEnabled: lockConfig?.biometricsEnabled ?? false,
+    autoLockTimeout: lockConfig?.autoLockTimeout ?? 0,
+    lock,
+    unlockWithPin,
+    unlockWithBiometrics,
+    setPin,
+    disableLock,
+    setBiometricsEnabled,
+    setAutoLockTimeout,
+  };
+
+  return <AppLockContext.Provider value={value}>{children}</AppLockContext.Provider>;
+};
+
+/**
+ * Access the app lock from any screen inside AppLockProvider
+ */
+export const useAppLock = (): AppLockContextType => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import {
+  AppSettings,
+  getSettings,
+  subscribeToSettings,
+  updateSettings,
+} from '../services/settingsService';
+
+/**
+ * Read and change persisted settings. Components re-render when any setting
+ * changes, wherever the change came from.
+ * @returns Current settings and a function to update them
+ */
+export const useSettings = (): [AppSettings, (changes: Partial<AppSettings>) => Promise<boolean>] => {
+  const settings = useSyncExternalStore(subscribeToSettings, getSettings);
+  return [settings, updateSettings];
+};
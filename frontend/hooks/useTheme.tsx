@@ -0,0 +1,53 @@
+import React, { useContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { AppTheme, ThemeMode, darkTheme, lightTheme } from '../constants/theme';
+import { useSettings } from './useSettings';
+
+interface ThemeContextType {
+  theme: AppTheme;
+  mode: ThemeMode; // What the user chose, including 'system'
+  isDark: boolean;
+  setMode: (mode: ThemeMode) => void;
+}
+
+const ThemeContext = React.createContext<ThemeContextType | null>(null);
+
+/**
+ * Provides the light or dark theme from the user's setting, following the
+ * device appearance when set to 'system'. Also keeps the status bar readable.
+ */
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, updateSettings] = useSettings();
+  const systemScheme = useColorScheme();
+
+  const mode = settings.themeMode;
+  const isDark = mode === 'dark' || (mode === 'system' && systemScheme === 'dark');
+
+  const value = useMemo<ThemeContextType>(() => ({
+    theme: isDark ? darkTheme : lightTheme,
+    mode,
+    isDark,
+    setMode: (nextMode: ThemeMode) => {
+      updateSettings({ themeMode: nextMode });
+    },
+  }), [isDark, mode, updateSettings]);
+
+  return (
+    <ThemeContext.Provider value={value}>
+      {children}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+    </ThemeContext.Provider>
+  );
+};
+
+/**
+ * Access the active theme from any component inside ThemeProvider
+ */
+export const useTheme = (): ThemeContextType => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
@@ -1,5 +1,5 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, DarkTheme, DefaultTheme } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
@@ -8,23 +8,18 @@ import HomeScreen from '../screens/HomeScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import MoodDiaryScreen from '../screens/MoodDiaryScreen';
 import EmotionCaptureScreen from '../screens/EmotionCaptureScreen';
+import EmotionInputScreen from '../screens/EmotionInputScreen';
+import MoodVisualizationScreen from '../screens/MoodVisualizationScreen';
+import MoodAnalysisScreen from '../screens/MoodAnalysisScreen';
 import EntryDetailsScreen from '../screens/EntryDetailsScreen';
 import AmbientModeScreen from '../screens/AmbientModeScreen';
-import theme from '../constants/theme';
+import LockScreen from '../screens/LockScreen';
+import { useAppLock } from '../hooks/useAppLock';
+import { useTheme } from '../hooks/useTheme';
+import { MainTabParamList, RootStackParamList } from '../types';
+import { linking } from './linking';
 
-// Define the param lists for our navigators
-export type RootStackParamList = {
-  Main: undefined;
-  EntryDetails: { entryId: string };
-  AmbientMode: undefined;
-  EmotionCapture: undefined;
-};
-
-export type MainTabParamList = {
-  Home: undefined;
-  MoodDiary: undefined;
-  Settings: undefined;
-};
+export type { MainTabParamList, RootStackParamList };
 
 // Create navigators
 const Stack = createStackNavigator<RootStackParamList>();
@@ -32,6 +27,8 @@ const Tab = createBottomTabNavigator<MainTabParamList>();
 
 // Tab Navigator
 const MainTabNavigator = () => {
+  const { theme } = useTheme();
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -83,8 +80,29 @@ const MainTabNavigator = () => {
 
 // Main App Navigator
 const AppNavigator = () => {
+  const { ready, locked } = useAppLock();
+  const { theme, isDark } = useTheme();
+
+  // Wait for the lock settings so the diary never flashes before the lock screen
+  if (!ready) {
+    return null;
+  }
+
   return (
-    <NavigationContainer>
+    <NavigationContainer
+      linking={linking}
+      theme={{
+        ...(isDark ? DarkTheme : DefaultTheme),
+        colors: {
+          ...(isDark ? DarkTheme : DefaultTheme).colors,
+          primary: theme.colors.primary,
+          background: theme.colors.background,
+          card: theme.colors.cardBackground,
+          text: theme.colors.text,
+          border: theme.colors.border,
+        },
+      }}
+    >
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -94,35 +112,61 @@ const AppNavigator = () => {
           headerBackTitleVisible: false,
         }}
       >
-        <Stack.Screen 
-          name="Main" 
-          component={MainTabNavigator} 
-          options={{ headerShown: false }}
-        />
-        <Stack.Screen 
-          name="EntryDetails" 
-          component={EntryDetailsScreen} 
-          options={{ title: 'Mood Entry Details' }}
-        />
-        <Stack.Screen 
-          name="AmbientMode" 
-          component={AmbientModeScreen} 
-          options={{ 
-            title: 'Ambient Mode',
-            headerTransparent: true,
-            headerTintColor: '#fff',
-          }}
-        />
-        <Stack.Screen 
-          name="EmotionCapture" 
-          component={EmotionCaptureScreen} 
-          options={{ 
-            title: 'Capture Emotions',
-            headerStyle: {
-              backgroundColor: theme.colors.background,
-            },
-          }}
-        />
+        {locked ? (
+          // Only the lock screen exists while locked, so nothing can navigate past it
+          <Stack.Screen 
+            name="Lock" 
+            component={LockScreen} 
+            options={{ headerShown: false, animationTypeForReplace: 'pop' }}
+          />
+        ) : (
+          <>
+            <Stack.Screen 
+              name="Main" 
+              component={MainTabNavigator} 
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen 
+              name="EntryDetails" 
+              component={EntryDetailsScreen} 
+              options={{ title: 'Mood Entry Details' }}
+            />
+            <Stack.Screen 
+              name="AmbientMode" 
+              component={AmbientModeScreen} 
+              options={{ 
+                title: 'Ambient Mode',
+                headerTransparent: true,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen 
+              name="EmotionCapture" 
+              component={EmotionCaptureScreen} 
+              options={{ 
+                title: 'Capture Emotions',
+                headerStyle: {
+                  backgroundColor: theme.colors.background,
+                },
+              }}
+            />
+            <Stack.Screen 
+              name="EmotionInput" 
+              component={EmotionInputScreen} 
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen 
+              name="MoodVisualization" 
+              component={MoodVisualizationScreen} 
+              options={{ headerShown: false }}
+            />
+            <Stack.Screen 
+              name="MoodAnalysis" 
+              component={MoodAnalysisScreen} 
+              options={{ headerShown: false }}
+            />
+          </>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,108 @@
+import { parseDeepLink } from '../deepLinks';
+
+describe('parseDeepLink', () => {
+  describe('capture', () => {
+    it('opens the requested input tab', () => {
+      expect(parseDeepLink('emotiglass://capture?source=face')).toEqual({
+        link: { type: 'capture', source: 'face' },
+        warnings: [],
+      });
+    });
+
+    it('accepts the path without a scheme, with a trailing slash or in capitals', () => {
+      expect(parseDeepLink('capture').link).toEqual({ type: 'capture', source: undefined });
+      expect(parseDeepLink('/Capture/?source=voice').link).toEqual({ type: 'capture', source: 'voice' });
+    });
+
+    it('ignores unknown tabs and parameters', () => {
+      const { link, warnings } = parseDeepLink('emotiglass://capture?source=camera&mode=quick');
+
+      expect(link).toEqual({ type: 'capture', source: undefined });
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toContain('source=camera');
+      expect(warnings[1]).toContain('mode=quick');
+    });
+  });
+
+  describe('log', () => {
+    it('stores emotions as 0-1 and mood factors as 0-100', () => {
+      expect(parseDeepLink('emotiglass://log?joy=70&energy=40&calmness=100&fear=0')).toEqual({
+        link: { type: 'log', prefill: { joy: 0.7, energy: 40, calmness: 100, fear: 0 } },
+        warnings: [],
+      });
+    });
+
+    it('drops out-of-range and non-numeric values', () => {
+      const { link, warnings } = parseDeepLink('emotiglass://log?joy=101&anger=-5&sadness=lots&energy=1e2&tension=50');
+
+      expect(link).toEqual({ type: 'log', prefill: { tension: 50 } });
+      expect(warnings).toHaveLength(4);
+      warnings.forEach(warning => expect(warning).toContain('expected a number from 0 to 100'));
+    });
+
+    it('drops parameters that are not emotions or mood factors', () => {
+      const { link, warnings } = parseDeepLink('emotiglass://log?happiness=80&intensity=20');
+
+      expect(link).toEqual({ type: 'log', prefill: {} });
+      expect(warnings).toEqual([
+        'Ignored happiness: not an emotion or mood factor',
+        'Ignored intensity: not an emotion or mood factor',
+      ]);
+    });
+  });
+
+  describe('diary', () => {
+    it('filters by tag, emotion and search text', () => {
+      expect(parseDeepLink('emotiglass://diary?tag=work&emotion=joy&query=long+day%21')).toEqual({
+        link: { type: 'diary', filters: { tag: 'work', emotion: 'joy', query: 'long day!' } },
+        warnings: [],
+      });
+    });
+
+    it('ignores unknown emotions, empty or overlong text and unknown parameters', () => {
+      const { link, warnings } = parseDeepLink(
+        `emotiglass://diary?emotion=bliss&tag=%20&query=${'a'.repeat(101)}&sort=newest`
+      );
+
+      expect(link).toEqual({ type: 'diary', filters: {} });
+      expect(warnings).toHaveLength(4);
+    });
+
+    it('leaves out the fragment', () => {
+      expect(parseDeepLink('emotiglass://diary?tag=work#top').link).toEqual({
+        type: 'diary',
+        filters: { tag: 'work' },
+      });
+    });
+  });
+
+  describe('malformed percent-encoding', () => {
+    it('keeps the raw text instead of failing the link', () => {
+      expect(parseDeepLink('emotiglass://diary?tag=100%25%zz').link).toEqual({
+        type: 'diary',
+        filters: { tag: '100%25%zz' },
+      });
+    });
+
+    it('drops a malformed value that has to be a number or a known name', () => {
+      const { link, warnings } = parseDeepLink('emotiglass://log?joy=%E0%A4%A&energy=%3');
+
+      expect(link).toEqual({ type: 'log', prefill: {} });
+      expect(warnings).toEqual([
+        'Ignored joy=%E0%A4%A: expected a number from 0 to 100',
+        'Ignored energy=%3: expected a number from 0 to 100',
+      ]);
+    });
+
+    it('ignores a malformed parameter name', () => {
+      const { link, warnings } = parseDeepLink('emotiglass://capture?sour%ce=face');
+
+      expect(link).toEqual({ type: 'capture', source: undefined });
+      expect(warnings).toEqual([expect.stringContaining('sour%ce=face')]);
+    });
+  });
+
+  it('leaves other paths to the navigator', () => {
+    expect(parseDeepLink('emotiglass://settings?theme=dark')).toEqual({ link: null, warnings: [] });
+  });
+});
@@ -0,0 +1,124 @@
+import { DiscreteEmotion, EmotionData, EmotionInputTab, MoodDiaryParams } from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+
+const INPUT_TABS: EmotionInputTab[] = ['sliders', 'drawing', 'voice', 'face'];
+
+const DIMENSIONS: (keyof EmotionData)[] = ['energy', 'calmness', 'tension'];
+
+// Longest tag or search text accepted from a link
+const MAX_TEXT_LENGTH = 100;
+
+/**
+ * An action requested from outside the app:
+ * - emotiglass://capture?source=face opens an input tab
+ * - emotiglass://log?joy=70&energy=40 pre-fills the sliders (all values 0-100)
+ * - emotiglass://diary?tag=work filters the diary by tag, emotion or search text
+ */
+export type DeepLink =
+  | { type: 'capture'; source?: EmotionInputTab }
+  | { type: 'log'; prefill: Partial<EmotionData> }
+  | { type: 'diary'; filters: MoodDiaryParams };
+
+export interface DeepLinkParseResult {
+  link: DeepLink | null; // null when the path is not one of ours
+  warnings: string[]; // Parameters that were ignored, and why
+}
+
+// Split a query string into decoded key/value pairs. URLSearchParams is only
+// partly implemented in React Native, so this is done by hand.
+const parseQuery = (query: string): [string, string][] => {
+  return query
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const [key, ...rest] = pair.split('=');
+      const decode = (value: string) => {
+        try {
+          return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch (error) {
+          return value;
+        }
+      };
+      return [decode(key).trim(), decode(rest.join('=')).trim()] as [string, string];
+    });
+};
+
+// Take a 0-100 value; discrete emotions are stored as 0-1
+const parseEmotionValue = (key: keyof EmotionData, raw: string): number | null => {
+  if (!/^\d+(\.\d+)?$/.test(raw)) {
+    return null;
+  }
+  const value = Number(raw);
+  if (value < 0 || value > 100) {
+    return null;
+  }
+  return DIMENSIONS.includes(key) ? value : value / 100;
+};
+
+const parseText = (raw: string): string | null => {
+  const text = raw.trim();
+  return text.length > 0 && text.length <= MAX_TEXT_LENGTH ? text : null;
+};
+
+/**
+ * Parse a quick-capture link. Unknown or out-of-range parameters are
+ * dropped with a warning rather than failing the whole link.
+ * @param url Full URL (emotiglass://log?joy=70) or the path after the scheme
+ * @returns The requested action, or null for paths handled elsewhere
+ */
+export const parseDeepLink = (url: string): DeepLinkParseResult => {
+  const warnings: string[] = [];
+  const withoutScheme = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/^\/+/, '');
+  const [rawPath, ...queryParts] = withoutScheme.split('?');
+  const path = rawPath.replace(/\/+$/, '').toLowerCase();
+  const params = parseQuery(queryParts.join('?').split('#')[0]);
+
+  switch (path) {
+    case 'capture': {
+      let source: EmotionInputTab | undefined;
+      params.forEach(([key, value]) => {
+        if (key === 'source' && INPUT_TABS.includes(value as EmotionInputTab)) {
+          source = value as EmotionInputTab;
+        } else {
+          warnings.push(`Ignored ${key}=${value}: expected source=${INPUT_TABS.join('|')}`);
+        }
+      });
+      return { link: { type: 'capture', source }, warnings };
+    }
+
+    case 'log': {
+      const prefill: Partial<EmotionData> = {};
+      params.forEach(([key, value]) => {
+        const emotionKey = key as keyof EmotionData;
+        if (!DISCRETE_EMOTIONS.includes(emotionKey as DiscreteEmotion) && !DIMENSIONS.includes(emotionKey)) {
+          warnings.push(`Ignored ${key}: not an emotion or mood factor`);
+          return;
+        }
+        const parsed = parseEmotionValue(emotionKey, value);
+        if (parsed === null) {
+          warnings.push(`Ignored ${key}=${value}: expected a number from 0 to 100`);
+          return;
+        }
+        prefill[emotionKey] = parsed;
+      });
+      return { link: { type: 'log', prefill }, warnings };
+    }
+
+    case 'diary': {
+      const filters: MoodDiaryParams = {};
+      params.forEach(([key, value]) => {
+        if (key === 'emotion' && DISCRETE_EMOTIONS.includes(value as DiscreteEmotion)) {
+          filters.emotion = value as DiscreteEmotion;
+        } else if ((key === 'tag' || key === 'query') && parseText(value)) {
+          filters[key] = parseText(value)!;
+        } else {
+          warnings.push(`Ignored ${key}=${value}: expected tag, emotion or query`);
+        }
+      });
+      return { link: { type: 'diary', filters }, warnings };
+    }
+
+    default:
+      return { link: null, warnings };
+  }
+};
@@ -0,0 +1,69 @@
+import { LinkingOptions, getStateFromPath } from '@react-navigation/native';
+import { RootStackParamList } from '../types';
+import { DeepLink, parseDeepLink } from './deepLinks';
+
+// URL scheme registered in app.json
+export const URL_SCHEME = 'emotiglass';
+
+type LinkState = ReturnType<typeof getStateFromPath>;
+
+// Navigation state for a quick-capture link, with Home underneath so back
+// leaves the capture screen rather than the app
+const getStateForDeepLink = (link: DeepLink): LinkState => {
+  switch (link.type) {
+    case 'capture':
+      return {
+        routes: [
+          { name: 'Main' },
+          { name: 'EmotionInput', params: { source: link.source } },
+        ],
+      };
+    case 'log':
+      return {
+        routes: [
+          { name: 'Main' },
+          { name: 'EmotionInput', params: { source: 'sliders', prefill: link.prefill } },
+        ],
+      };
+    case 'diary':
+      return {
+        routes: [
+          { name: 'Main', state: { routes: [{ name: 'MoodDiary', params: link.filters }] } },
+        ],
+      };
+  }
+};
+
+/**
+ * URL paths for every screen that can be opened from outside the app, e.g.
+ * emotiglass://entry/123 opens that entry. The capture, log and diary links
+ * take query parameters, so they go through parseDeepLink (see
+ * navigation/deepLinks.ts) instead of the path config. MoodVisualization
+ * needs a whole emotion result as its param and Lock is never a destination,
+ * so neither has a path.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [`${URL_SCHEME}://`],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          Home: '',
+          MoodDiary: 'diary',
+          Settings: 'settings',
+        },
+      },
+      EmotionInput: 'log',
+      MoodAnalysis: 'analysis',
+      EntryDetails: 'entry/:entryId',
+      AmbientMode: 'ambient',
+    },
+  },
+  getStateFromPath: (path, options) => {
+    const { link, warnings } = parseDeepLink(path);
+    if (warnings.length > 0) {
+      console.warn(`[linking] ${path}: ${warnings.join('; ')}`);
+    }
+    return link ? getStateForDeepLink(link) : getStateFromPath(path, options);
+  },
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,40 +11,44 @@ import {
 } from 'react-native';
 import { Audio } from 'expo-av';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../constants/theme';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
 
 // Get screen dimensions
 const { width, height } = Dimensions.get('window');
 
-// Dummy sound data
+// Dummy sound data; colors are theme color names so they follow light/dark mode
 const ambientSounds = [
   { 
     name: 'Calm', 
     soundFile: null,  // Removed asset import
-    color: theme.colors.primary as string,
+    colorKey: 'primary' as const,
     icon: 'cloud' as const
   },
   { 
     name: 'Focus', 
     soundFile: null,  // Removed asset import
-    color: theme.colors.secondary as string,
+    colorKey: 'secondary' as const,
     icon: 'book' as const
   },
   { 
     name: 'Relax', 
     soundFile: null,  // Removed asset import
-    color: theme.colors.accent as string,
+    colorKey: 'accent' as const,
     icon: 'leaf' as const
   },
   { 
     name: 'Energize', 
     soundFile: null,  // Removed asset import
-    color: theme.colors.success as string,
+    colorKey: 'success' as const,
     icon: 'flash' as const
   },
 ];
 
 const AmbientModeScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const [currentSound, setCurrentSound] = useState<string | null>(null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [showControls, setShowControls] = useState(true);
@@ -186,7 +190,7 @@ const AmbientModeScreen: React.FC = () => {
   const getBackgroundColor = () => {
     if (currentSound) {
       const soundData = ambientSounds.find(s => s.name === currentSound);
-      return soundData ? soundData.color : '#4568DC';
+      return soundData ? theme.colors[soundData.colorKey] : '#4568DC';
     }
     return '#4568DC';
   };
@@ -352,7 +356,7 @@ const AmbientModeScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
   },
@@ -1,182 +1,230 @@
-import React, { useState, useEffect } from 'react';
-import { 
-  View, 
-  StyleSheet, 
-  Text, 
-  SafeAreaView, 
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  SafeAreaView,
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
   Alert
 } from 'react-native';
-import { StackScreenProps } from '@react-navigation/stack';
-import { Audio } from 'expo-av';
 import { Ionicons } from '@expo/vector-icons';
 
-import { FaceDetector, FaceDetectionResult } from '../components/ui/FaceDetector';
-import { VoiceRecorder, VoiceRecordingResult } from '../components/ui/VoiceRecorder';
+import { FaceCamera } from '../components/ui/FaceCamera';
+import { VoiceRecorder, VoiceRecordingData } from '../components/ui/VoiceRecorder';
+import { VoicePlayer } from '../components/ui/VoicePlayer';
 import { useMediaPermissions } from '../hooks/useMediaPermissions';
-import theme from '../constants/theme';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import { FaceAnalysisResult, faceAnalysisToEmotionData } from '../services/faceAnalysis';
+import { VoiceAnalysisResult, analyzeAudioRecording } from '../services/audioService';
+import { createAttachment, deleteAttachments } from '../services/attachmentService';
+import { saveCapture } from '../services/captureService';
+import { computeEmotionAnalysis } from '../services/emotionAnalysis';
+import {
+  EmotionData,
+  MoodEntryAttachment,
+  ModalityResult,
+  RootStackScreenProps,
+  VoiceEmotionSegment,
+} from '../types';
 
-// Screen props
-type RootStackParamList = {
-  EmotionCapture: undefined;
-};
-
-type EmotionCaptureScreenProps = StackScreenProps<RootStackParamList, 'EmotionCapture'>;
+type EmotionCaptureScreenProps = RootStackScreenProps<'EmotionCapture'>;
 
-// Emotion data structure
-interface EmotionData {
-  faceData?: FaceDetectionResult;
-  voiceData?: VoiceRecordingResult;
+// What the camera and microphone picked up
+interface CapturedEmotion {
+  faceData?: FaceAnalysisResult;
+  voiceData?: VoiceRecordingData;
+  voiceEmotions?: ModalityResult;
   timestamp: number;
 }
 
+// Saved when neither input could be scored
+const NEUTRAL_EMOTIONS: EmotionData = {
+  joy: 0,
+  sadness: 0,
+  anger: 0,
+  fear: 0,
+  surprise: 0,
+  disgust: 0,
+  contentment: 0,
+  neutral: 1,
+  energy: 50,
+  calmness: 50,
+  tension: 50,
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
 const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   // Permissions hook
   const [permissionState, permissionActions] = useMediaPermissions();
-  
+
   // State for captured data
-  const [capturedEmotion, setCapturedEmotion] = useState<EmotionData | null>(null);
+  const [capturedEmotion, setCapturedEmotion] = useState<CapturedEmotion | null>(null);
+  const [attachments, setAttachments] = useState<MoodEntryAttachment[]>([]);
+  // Latest attachments, for captures that finish before the next render
+  const attachmentsRef = useRef<MoodEntryAttachment[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [attachingVoice, setAttachingVoice] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<'face' | 'voice'>('face');
-  const [soundObject, setSoundObject] = useState<Audio.Sound | null>(null);
-  const [isPlayingAudio, setIsPlayingAudio] = useState<boolean>(false);
-  
+
   // Request permissions on mount
   useEffect(() => {
     permissionActions.requestAllPermissions();
-    
-    return () => {
-      // Clean up audio player on unmount
-      if (soundObject) {
-        soundObject.unloadAsync();
-      }
-    };
   }, []);
-  
-  // Handle face detection result
-  const handleFaceDetected = (result: FaceDetectionResult) => {
+
+  // Keep one file per kind, the latest capture replacing the one before
+  const recordAttachment = async (
+    kind: MoodEntryAttachment['kind'],
+    uri: string,
+    details?: { duration?: number; timeline?: VoiceEmotionSegment[] }
+  ) => {
+    const attachment = await createAttachment(kind, uri, details);
+    if (!attachment) {
+      return;
+    }
+
+    const replaced = attachmentsRef.current.filter(existing => existing.kind === kind && existing.uri !== uri);
+    attachmentsRef.current = [...attachmentsRef.current.filter(existing => existing.kind !== kind), attachment];
+    setAttachments(attachmentsRef.current);
+    deleteAttachments(replaced);
+  };
+
+  // Handle face analysis result
+  const handleFaceDetected = (result: FaceAnalysisResult) => {
     setCapturedEmotion(prev => ({
       ...prev,
       faceData: result,
       timestamp: Date.now(),
     }));
-  };
-  
-  // Handle voice recording result
-  const handleRecordingComplete = (result: VoiceRecordingResult) => {
-    if (result.status === 'completed' && result.audioUri) {
-      setCapturedEmotion(prev => ({
-        ...prev,
-        voiceData: result,
-        timestamp: Date.now(),
-      }));
+    if (result.imageUri) {
+      recordAttachment('face', result.imageUri);
     }
   };
-  
-  // Play recorded audio
-  const playAudio = async () => {
-    if (!capturedEmotion?.voiceData?.audioUri) {
+
+  // Handle voice recording result
+  const handleRecordingComplete = async (result: VoiceRecordingData) => {
+    if (!result.uri) {
       return;
     }
-    
+
+    setCapturedEmotion(prev => ({
+      ...prev,
+      voiceData: result,
+      voiceEmotions: undefined,
+      timestamp: Date.now(),
+    }));
+    // Kept with the recording so entry details can show it without decoding again
+    setAttachingVoice(true);
+    let analysis: VoiceAnalysisResult | null = null;
     try {
-      // Unload any existing audio
-      if (soundObject) {
-        await soundObject.unloadAsync();
-      }
-      
-      // Create and load new sound object
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: capturedEmotion.voiceData.audioUri },
-        { shouldPlay: true }
-      );
-      
-      setSoundObject(sound);
-      setIsPlayingAudio(true);
-      
-      // Handle playback status updates
-      sound.setOnPlaybackStatusUpdate(status => {
-        if (status.isLoaded && !status.isPlaying && status.didJustFinish) {
-          setIsPlayingAudio(false);
-        }
-      });
-    } catch (error) {
-      console.error('Failed to play audio:', error);
-      Alert.alert('Error', 'Failed to play audio recording');
-      setIsPlayingAudio(false);
+      analysis = await analyzeAudioRecording(result.uri);
+      await recordAttachment('voice', result.uri, { duration: result.duration, timeline: analysis?.timeline });
+    } finally {
+      setAttachingVoice(false);
+    }
+
+    if (analysis) {
+      const voiceEmotions: ModalityResult = {
+        modality: 'voice',
+        emotions: analysis.emotions,
+        // A few seconds of speech is needed for stable measurements
+        confidence: Math.min(1, analysis.speechDuration / 5),
+        timestamp: Date.now(),
+      };
+      setCapturedEmotion(prev => prev && prev.voiceData?.uri === result.uri ? { ...prev, voiceEmotions } : prev);
     }
   };
-  
+
   // Format emotion data for display
-  const formatEmotionData = (emotionData: EmotionData) => {
-    if (!emotionData) return null;
-    
+  const formatEmotionData = (emotionData: CapturedEmotion) => {
+    const scores = emotionData.faceData?.emotionScores;
+
     // Format face data
-    const faceDataText = emotionData.faceData ? {
-      happiness: `${(emotionData.faceData.emotions.happiness * 100).toFixed(1)}%`,
-      surprise: `${(emotionData.faceData.emotions.surprise * 100).toFixed(1)}%`,
-      neutral: `${(emotionData.faceData.emotions.neutral * 100).toFixed(1)}%`,
-      anger: `${(emotionData.faceData.emotions.anger * 100).toFixed(1)}%`,
-      eyesOpen: `${((emotionData.faceData.faceAttributes.leftEyeOpen + 
-                    emotionData.faceData.faceAttributes.rightEyeOpen) / 2 * 100).toFixed(1)}%`,
+    const faceDataText = scores ? {
+      joy: formatPercent(scores.joy),
+      surprise: formatPercent(scores.surprise),
+      neutral: formatPercent(scores.neutral),
+      anger: formatPercent(scores.anger),
+      confidence: formatPercent(emotionData.faceData!.confidence),
     } : null;
-    
+
     // Format voice data
-    const voiceDataText = emotionData.voiceData?.status === 'completed' ? {
-      duration: `${((emotionData.voiceData.durationMs || 0) / 1000).toFixed(1)}s`,
-      uri: emotionData.voiceData.audioUri?.split('/').pop() || 'Unknown',
+    const voiceDataText = emotionData.voiceData?.uri ? {
+      duration: `${emotionData.voiceData.duration.toFixed(1)}s`,
+      uri: emotionData.voiceData.uri,
+      dominant: emotionData.voiceEmotions
+        ? computeEmotionAnalysis(emotionData.voiceEmotions.emotions).dominantEmotion
+        : 'Not enough speech',
     } : null;
-    
+
     return { faceDataText, voiceDataText };
   };
-  
-  // Save emotion data to the app's database (simulated)
-  const saveEmotionData = () => {
+
+  // Save the face and voice results as a diary entry
+  const saveEmotionData = async () => {
     if (!capturedEmotion) {
       Alert.alert('Error', 'No emotion data to save');
       return;
     }
-    
+
     setIsProcessing(true);
-    
-    // Simulate processing delay
-    setTimeout(() => {
-      setIsProcessing(false);
-      Alert.alert(
-        'Success',
-        'Emotion data saved successfully!',
-        [
-          { 
-            text: 'OK', 
-            onPress: () => {
-              // Clear data after saving
-              setCapturedEmotion(null);
-            } 
-          }
-        ]
-      );
-    }, 1500);
+
+    const modalities: ModalityResult[] = [];
+    if (capturedEmotion.faceData?.faceDetected) {
+      modalities.push({
+        modality: 'face',
+        emotions: faceAnalysisToEmotionData(capturedEmotion.faceData),
+        confidence: capturedEmotion.faceData.confidence,
+        timestamp: capturedEmotion.faceData.timestamp,
+      });
+    }
+    if (capturedEmotion.voiceEmotions) {
+      modalities.push(capturedEmotion.voiceEmotions);
+    }
+
+    const entry = await saveCapture({
+      modalities,
+      fallbackEmotions: NEUTRAL_EMOTIONS,
+      attachments,
+    });
+
+    setIsProcessing(false);
+
+    if (!entry) {
+      Alert.alert('Not Saved', 'Your emotion data could not be saved. Please try again.');
+      return;
+    }
+
+    // Clear data after saving
+    setCapturedEmotion(null);
+    attachmentsRef.current = [];
+    setAttachments([]);
+    navigation.navigate('Main', { screen: 'MoodDiary', params: { highlightId: entry.id } });
   };
-  
+
   // Formatted data for display
   const formattedData = capturedEmotion ? formatEmotionData(capturedEmotion) : null;
-  
+
   return (
     <SafeAreaView style={styles.container}>
       <Text style={styles.title}>Emotion Capture</Text>
-      
+
       {/* Tab navigation */}
       <View style={styles.tabContainer}>
         <TouchableOpacity
           style={[styles.tab, activeTab === 'face' && styles.activeTab]}
           onPress={() => setActiveTab('face')}
         >
-          <Ionicons 
-            name="happy" 
-            size={24} 
-            color={activeTab === 'face' ? theme.colors.primary : theme.colors.textLight} 
+          <Ionicons
+            name="happy"
+            size={24}
+            color={activeTab === 'face' ? theme.colors.primary : theme.colors.textLight}
           />
           <Text style={[
             styles.tabText,
@@ -185,15 +233,15 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
             Face
           </Text>
         </TouchableOpacity>
-        
+
         <TouchableOpacity
           style={[styles.tab, activeTab === 'voice' && styles.activeTab]}
           onPress={() => setActiveTab('voice')}
         >
-          <Ionicons 
-            name="mic" 
-            size={24} 
-            color={activeTab === 'voice' ? theme.colors.primary : theme.colors.textLight} 
+          <Ionicons
+            name="mic"
+            size={24}
+            color={activeTab === 'voice' ? theme.colors.primary : theme.colors.textLight}
           />
           <Text style={[
             styles.tabText,
@@ -203,7 +251,7 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
           </Text>
         </TouchableOpacity>
       </View>
-      
+
       {/* Main content area */}
       <View style={styles.contentContainer}>
         {/* Face detection tab */}
@@ -225,14 +273,11 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
                 </TouchableOpacity>
               </View>
             ) : (
-              <FaceDetector 
-                onFaceDetected={handleFaceDetected}
-                showFaceMarkers={true}
-              />
+              <FaceCamera onEmotionDetected={handleFaceDetected} />
             )}
           </View>
         )}
-        
+
         {/* Voice recording tab */}
         {activeTab === 'voice' && (
           <View style={styles.voiceContainer}>
@@ -254,18 +299,17 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
             ) : (
               <VoiceRecorder
                 onRecordingComplete={handleRecordingComplete}
-                maxDurationMs={30000}
-                showWaveform={true}
+                maxDuration={30}
               />
             )}
           </View>
         )}
       </View>
-      
+
       {/* Results section */}
       <View style={styles.resultsContainer}>
         <Text style={styles.sectionTitle}>Results</Text>
-        
+
         {capturedEmotion ? (
           <ScrollView style={styles.resultsScroll}>
             {/* Face results */}
@@ -276,8 +320,8 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
                   <Text style={styles.resultTitle}>Face Emotions</Text>
                 </View>
                 <View style={styles.resultRow}>
-                  <Text style={styles.resultLabel}>Happiness:</Text>
-                  <Text style={styles.resultValue}>{formattedData.faceDataText.happiness}</Text>
+                  <Text style={styles.resultLabel}>Joy:</Text>
+                  <Text style={styles.resultValue}>{formattedData.faceDataText.joy}</Text>
                 </View>
                 <View style={styles.resultRow}>
                   <Text style={styles.resultLabel}>Surprise:</Text>
@@ -292,12 +336,12 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
                   <Text style={styles.resultValue}>{formattedData.faceDataText.anger}</Text>
                 </View>
                 <View style={styles.resultRow}>
-                  <Text style={styles.resultLabel}>Eyes Open:</Text>
-                  <Text style={styles.resultValue}>{formattedData.faceDataText.eyesOpen}</Text>
+                  <Text style={styles.resultLabel}>Confidence:</Text>
+                  <Text style={styles.resultValue}>{formattedData.faceDataText.confidence}</Text>
                 </View>
               </View>
             )}
-            
+
             {/* Voice results */}
             {formattedData?.voiceDataText && (
               <View style={styles.resultCard}>
@@ -310,25 +354,15 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
                   <Text style={styles.resultValue}>{formattedData.voiceDataText.duration}</Text>
                 </View>
                 <View style={styles.resultRow}>
-                  <Text style={styles.resultLabel}>File:</Text>
-                  <Text style={styles.resultValue}>{formattedData.voiceDataText.uri}</Text>
+                  <Text style={styles.resultLabel}>Voice:</Text>
+                  <Text style={styles.resultValue}>{formattedData.voiceDataText.dominant}</Text>
                 </View>
-                
-                {/* Play button */}
-                <TouchableOpacity 
-                  style={styles.playButton}
-                  onPress={playAudio}
-                  disabled={isPlayingAudio}
-                >
-                  <Ionicons 
-                    name={isPlayingAudio ? "pause-circle" : "play-circle"} 
-                    size={24} 
-                    color="#fff" 
-                  />
-                  <Text style={styles.playButtonText}>
-                    {isPlayingAudio ? "Playing..." : "Play Recording"}
-                  </Text>
-                </TouchableOpacity>
+
+                <VoicePlayer
+                  uri={formattedData.voiceDataText.uri}
+                  duration={capturedEmotion.voiceData!.duration}
+                  style={styles.voicePlayer}
+                />
               </View>
             )}
           </ScrollView>
@@ -340,13 +374,13 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
             </Text>
           </View>
         )}
-        
+
         {/* Save button */}
         {capturedEmotion && (
           <TouchableOpacity
             style={styles.saveButton}
             onPress={saveEmotionData}
-            disabled={isProcessing}
+            disabled={isProcessing || attachingVoice}
           >
             {isProcessing ? (
               <ActivityIndicator size="small" color="#fff" />
@@ -363,14 +397,14 @@ const EmotionCaptureScreen: React.FC<EmotionCaptureScreenProps> = ({ navigation
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
   },
   title: {
     fontSize: theme.typography.fontSizes.xl,
-    fontWeight: theme.typography.fontWeights.bold,
+    fontWeight: theme.typography.fontWeights.bold as '700',
     color: theme.colors.text,
     textAlign: 'center',
     marginVertical: theme.spacing.md,
@@ -401,7 +435,7 @@ const styles = StyleSheet.create({
   },
   activeTabText: {
     color: theme.colors.primary,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
   },
   contentContainer: {
     flex: 1,
@@ -439,7 +473,7 @@ const styles = StyleSheet.create({
   permissionButtonText: {
     color: '#fff',
     fontSize: theme.typography.fontSizes.md,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
   },
   resultsContainer: {
     marginHorizontal: theme.spacing.md,
@@ -452,7 +486,7 @@ const styles = StyleSheet.create({
   },
   sectionTitle: {
     fontSize: theme.typography.fontSizes.lg,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
     color: theme.colors.text,
     marginBottom: theme.spacing.sm,
     paddingHorizontal: theme.spacing.md,
@@ -475,7 +509,7 @@ const styles = StyleSheet.create({
   },
   resultTitle: {
     fontSize: theme.typography.fontSizes.md,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
     color: theme.colors.text,
     marginLeft: theme.spacing.sm,
   },
@@ -491,24 +525,11 @@ const styles = StyleSheet.create({
   resultValue: {
     fontSize: theme.typography.fontSizes.md,
     color: theme.colors.text,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
   },
-  playButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: theme.colors.primary,
-    paddingVertical: theme.spacing.sm,
-    paddingHorizontal: theme.spacing.md,
-    borderRadius: theme.radii.md,
+  voicePlayer: {
     marginTop: theme.spacing.md,
   },
-  playButtonText: {
-    color: '#fff',
-    marginLeft: theme.spacing.xs,
-    fontSize: theme.typography.fontSizes.sm,
-    fontWeight: theme.typography.fontWeights.medium,
-  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -535,8 +556,8 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginLeft: theme.spacing.sm,
     fontSize: theme.typography.fontSizes.md,
-    fontWeight: theme.typography.fontWeights.medium,
+    fontWeight: theme.typography.fontWeights.medium as '500',
   },
 });
 
-export default EmotionCaptureScreen; 
\ No newline at end of file
+export default EmotionCaptureScreen;
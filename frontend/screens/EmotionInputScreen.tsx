@@ -1,35 +1,64 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   StyleSheet, 
   View, 
   Text, 
   ScrollView, 
   TouchableOpacity,
+  TextInput,
   ActivityIndicator,
   Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
-import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../constants/theme';
+import { AppTheme } from '../constants/theme';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { useTheme } from '../hooks/useTheme';
 import { EmotionSlider } from '../components/ui/EmotionSlider';
 import { DrawingCanvas } from '../components/ui/DrawingCanvas';
-import { VoiceRecorder } from '../components/ui/VoiceRecorder';
+import { VoiceRecorder, VoiceRecordingData } from '../components/ui/VoiceRecorder';
 import { FaceCamera } from '../components/ui/FaceCamera';
-import { EmotionData, RootStackParamList } from '../types';
-import { generateRandomEmotionData } from '../services/dummyData';
+import {
+  DiscreteEmotion,
+  EmotionData,
+  EmotionInputTab,
+  AttachmentKind,
+  EmotionModality,
+  ModalityResult,
+  MoodEntryAttachment,
+  RootStackNavigationProp,
+  RootStackParamList,
+  VoiceEmotionSegment,
+} from '../types';
 import { analyzeDrawing, saveDrawing, initDrawingStorage } from '../services/drawingService';
-import { analyzeAudioRecording } from '../services/audioService';
+import {
+  VoiceAnalysisResult,
+  analyzeAudioRecording,
+  canAnalyzeRecordings,
+  hasTranscriptionEngine,
+  transcribeRecording,
+} from '../services/audioService';
 import { FaceAnalysisResult, faceAnalysisToEmotionData } from '../services/faceAnalysis';
+import { fuseModalities } from '../services/emotionFusion';
 import { initStorage } from '../services/storage';
+import { saveCapture } from '../services/captureService';
+import { createAttachment, deleteAttachments } from '../services/attachmentService';
+import { isDemoMode } from '../services/demoMode';
 
-type EmotionInputScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EmotionInput'>;
+type EmotionInputScreenNavigationProp = RootStackNavigationProp<'EmotionInput'>;
+type EmotionInputRouteProp = RouteProp<RootStackParamList, 'EmotionInput'>;
 
 export const EmotionInputScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const navigation = useNavigation<EmotionInputScreenNavigationProp>();
-  const [activeTab, setActiveTab] = useState<'sliders' | 'drawing' | 'voice' | 'face'>('sliders');
-  const [emotionData, setEmotionData] = useState<EmotionData>({
+  const route = useRoute<EmotionInputRouteProp>();
+  const [activeTab, setActiveTab] = useState<EmotionInputTab>(route.params?.source ?? 'sliders');
+  // Emotions stay at zero unless set, so the sliders only speak for the mood
+  // factors until the user (or a log link) gives an emotion a value
+  const [sliderData, setSliderData] = useState<EmotionData>({
     joy: 0,
     sadness: 0,
     anger: 0,
@@ -37,13 +66,28 @@ export const EmotionInputScreen: React.FC = () => {
     surprise: 0,
     disgust: 0,
     contentment: 0,
-    neutral: 1,
+    neutral: 0,
     energy: 50,
     calmness: 50,
     tension: 50
   });
-  const [faceAnalysis, setFaceAnalysis] = useState<any | null>(null);
-  const [analyzing, setAnalyzing] = useState(false);
+  // Emotions that got their own slider from a log link
+  const [emotionSliders, setEmotionSliders] = useState<DiscreteEmotion[]>([]);
+  const [faceAnalysis, setFaceAnalysis] = useState<FaceAnalysisResult | null>(null);
+  const [modalityResults, setModalityResults] = useState<ModalityResult[]>([]);
+  // Saved files and notes that go into the entry along with the emotions;
+  // one attachment per kind, the latest capture replacing the one before
+  const [drawingPaths, setDrawingPaths] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<MoodEntryAttachment[]>([]);
+  // Latest attachments, for captures that finish before the next render
+  const attachmentsRef = useRef<MoodEntryAttachment[]>([]);
+  const [notes, setNotes] = useState('');
+  const [transcript, setTranscript] = useState<string | null>(null);
+  const [transcribing, setTranscribing] = useState(false);
+  const [attachingVoice, setAttachingVoice] = useState(false);
+  // Recording the transcript should belong to; a newer recording replaces it
+  const transcriptUriRef = useRef<string | null>(null);
+  const [saving, setSaving] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   
   // Initialize services
@@ -73,12 +117,58 @@ export const EmotionInputScreen: React.FC = () => {
     initializeServices();
   }, []);
   
+  // Every input tab adds its own result; the fused result combines them all
+  const fusedResult = useMemo(() => fuseModalities(modalityResults), [modalityResults]);
+  const emotionData = fusedResult ? fusedResult.emotions : sliderData;
+  
+  const recordModality = (modality: EmotionModality, emotions: EmotionData, confidence: number) => {
+    setModalityResults(prev => [
+      ...prev.filter(result => result.modality !== modality),
+      { modality, emotions, confidence, timestamp: Date.now() },
+    ]);
+  };
+  
+  const recordAttachment = async (
+    kind: AttachmentKind,
+    uri: string,
+    details?: { duration?: number; timeline?: VoiceEmotionSegment[] }
+  ) => {
+    const attachment = await createAttachment(kind, uri, details);
+    if (!attachment) {
+      return;
+    }
+    
+    // A new capture replaces the previous one, whose file is no longer needed
+    const replaced = attachmentsRef.current.filter(existing => existing.kind === kind && existing.uri !== uri);
+    attachmentsRef.current = [...attachmentsRef.current.filter(existing => existing.kind !== kind), attachment];
+    setAttachments(attachmentsRef.current);
+    deleteAttachments(replaced);
+  };
+  
+  // Apply the tab and slider values a deep link asked for
+  useEffect(() => {
+    const params = route.params;
+    if (!params) {
+      return;
+    }
+    
+    if (params.source) {
+      setActiveTab(params.source);
+    }
+    
+    if (params.prefill && Object.keys(params.prefill).length > 0) {
+      const prefilled = { ...sliderData, ...params.prefill };
+      setSliderData(prefilled);
+      setEmotionSliders(DISCRETE_EMOTIONS.filter(emotion => params.prefill![emotion] !== undefined));
+      recordModality('sliders', prefilled, 1);
+    }
+  }, [route.params]);
+  
   // Update emotion data from sliders
   const handleSliderChange = (name: keyof EmotionData, value: number) => {
-    setEmotionData(prev => ({
-      ...prev,
-      [name]: value,
-    }));
+    const updated = { ...sliderData, [name]: value };
+    setSliderData(updated);
+    recordModality('sliders', updated, 1);
   };
   
   // Update emotion data from drawing
@@ -113,49 +203,74 @@ export const EmotionInputScreen: React.FC = () => {
       }
       
       console.log(`Drawing saved to: ${uri}`);
+      setDrawingPaths(drawingData);
+      recordAttachment('drawing', uri);
       
       // Analyze the drawing for emotional content
       const emotionResults = await analyzeDrawing(drawingData);
       console.log('Drawing analysis complete', emotionResults);
       
-      // Update the emotion data and store drawing data for thumbnails
-      setEmotionData(prev => ({
-        ...prev,
-        ...emotionResults,
-        // Store drawing data for thumbnail generation
-        drawingData: drawingData
-      }));
+      recordModality('drawing', { ...sliderData, ...emotionResults }, 1);
     } catch (error) {
       console.error('Failed to process drawing:', error);
-      // If analysis fails, use random data as fallback
-      const randomData = generateRandomEmotionData();
-      setEmotionData(prev => ({
-        ...prev,
-        ...randomData
-      }));
     }
   };
   
   // Update emotion data from voice recording
-  const handleVoiceRecorded = async (uri: string) => {
+  const handleVoiceRecorded = async (recordingData: VoiceRecordingData) => {
+    if (!recordingData.uri) {
+      return;
+    }
+    transcribe(recordingData.uri);
+    
+    // The timeline is kept with the recording so entry details can show it
+    // without decoding the file again
+    setAttachingVoice(true);
+    let analysis: VoiceAnalysisResult | null = null;
     try {
-      // Analyze the voice recording
-      const analysis = await analyzeAudioRecording(uri);
-      
-      // Update the emotion data with the analysis results
-      setEmotionData(prev => ({
-        ...prev,
-        ...analysis.emotions
-      }));
+      // Analyze how it was said
+      analysis = await analyzeAudioRecording(recordingData.uri);
+      await recordAttachment('voice', recordingData.uri, {
+        duration: recordingData.duration,
+        timeline: analysis?.timeline,
+      });
     } catch (error) {
       console.error('Failed to analyze voice recording:', error);
-      // If analysis fails, use random data as fallback
-      const randomData = generateRandomEmotionData();
-      setEmotionData(prev => ({
-        ...prev,
-        ...randomData
-      }));
+    } finally {
+      setAttachingVoice(false);
+    }
+    
+    if (!analysis) {
+      Alert.alert(
+        'Voice Not Analyzed',
+        canAnalyzeRecordings()
+          ? 'Not enough speech could be measured in this recording.'
+          : 'Voice analysis is not available on this device yet. The recording is kept with the entry.'
+      );
+      return;
+    }
+    
+    // A few seconds of speech is needed for stable measurements
+    recordModality('voice', analysis.emotions, Math.min(1, analysis.speechDuration / 5));
+  };
+  
+  // Write down what was said, when an offline engine is available
+  const transcribe = async (uri: string) => {
+    transcriptUriRef.current = uri;
+    setTranscript(null);
+    if (!hasTranscriptionEngine()) {
+      return;
     }
+    
+    setTranscribing(true);
+    const text = await transcribeRecording(uri);
+    
+    // Drop the transcript of a recording that was re-recorded meanwhile
+    if (transcriptUriRef.current !== uri) {
+      return;
+    }
+    setTranscript(text);
+    setTranscribing(false);
   };
   
   // Handle face emotion detection
@@ -163,34 +278,39 @@ export const EmotionInputScreen: React.FC = () => {
     setFaceAnalysis(result);
     
     if (result.faceDetected) {
-      // Convert face analysis to emotion data format
-      const emotionData = faceAnalysisToEmotionData(result);
-      
-      // Update the emotion data
-      setEmotionData(prev => ({
-        ...prev,
-        ...emotionData
-      }));
+      recordModality('face', faceAnalysisToEmotionData(result), result.confidence);
+    }
+    if (result.imageUri) {
+      recordAttachment('face', result.imageUri);
     }
   };
   
-  // Submit and analyze emotion data
-  const handleSubmit = async () => {
-    setAnalyzing(true);
+  // Save everything captured as a diary entry and show it in the diary
+  const handleSave = async () => {
+    setSaving(true);
     
-    try {
-      // Navigate to visualization screen after a short delay
-      setTimeout(() => {
-        navigation.navigate('MoodVisualization', {
-          emotionData: emotionData
-        });
-        setAnalyzing(false);
-      }, 1000);
-    } catch (error) {
-      console.error('Failed to analyze emotions:', error);
-      Alert.alert('Error', 'Failed to analyze emotions. Please try again.');
-      setAnalyzing(false);
+    const entry = await saveCapture({
+      modalities: modalityResults,
+      fallbackEmotions: sliderData,
+      notes,
+      transcript: transcript ?? undefined,
+      drawingData: drawingPaths ?? undefined,
+      attachments,
+    });
+    
+    setSaving(false);
+    
+    if (!entry) {
+      Alert.alert('Not Saved', 'Your entry could not be saved. Please try again.');
+      return;
     }
+    
+    navigation.navigate('Main', { screen: 'MoodDiary', params: { highlightId: entry.id } });
+  };
+  
+  // Look at the current result without saving it
+  const handlePreview = () => {
+    navigation.navigate('MoodVisualization', { emotionData });
   };
   
   // Show loading indicator while initializing
@@ -213,6 +333,13 @@ export const EmotionInputScreen: React.FC = () => {
           <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>How are you feeling?</Text>
+        <TouchableOpacity 
+          style={styles.previewButton}
+          onPress={handlePreview}
+          accessibilityLabel="Preview visualization"
+        >
+          <Ionicons name="eye-outline" size={24} color={theme.colors.text} />
+        </TouchableOpacity>
       </View>
       
       <View style={styles.tabContainer}>
@@ -303,28 +430,42 @@ export const EmotionInputScreen: React.FC = () => {
           <View style={styles.slidersContainer}>
             <EmotionSlider
               label="Energy"
-              value={emotionData.energy}
+              value={sliderData.energy}
               onValueChange={(value) => handleSliderChange('energy', value)}
-              minimumTrackTintColor="#3498db"
-              maximumTrackTintColor="#bdc3c7"
-              thumbTintColor="#3498db"
+              minimumTrackTintColor={theme.colors.secondary}
+              maximumTrackTintColor={theme.colors.lightGray}
+              thumbTintColor={theme.colors.secondary}
             />
             <EmotionSlider
               label="Calmness"
-              value={emotionData.calmness}
+              value={sliderData.calmness}
               onValueChange={(value) => handleSliderChange('calmness', value)}
-              minimumTrackTintColor="#2ecc71"
-              maximumTrackTintColor="#bdc3c7"
-              thumbTintColor="#2ecc71"
+              minimumTrackTintColor={theme.colors.success}
+              maximumTrackTintColor={theme.colors.lightGray}
+              thumbTintColor={theme.colors.success}
             />
             <EmotionSlider
               label="Tension"
-              value={emotionData.tension}
+              value={sliderData.tension}
               onValueChange={(value) => handleSliderChange('tension', value)}
-              minimumTrackTintColor="#e74c3c"
-              maximumTrackTintColor="#bdc3c7"
-              thumbTintColor="#e74c3c"
+              minimumTrackTintColor={theme.colors.error}
+              maximumTrackTintColor={theme.colors.lightGray}
+              thumbTintColor={theme.colors.error}
             />
+            {emotionSliders.map(emotion => (
+              <EmotionSlider
+                key={emotion}
+                label={emotion.charAt(0).toUpperCase() + emotion.slice(1)}
+                value={sliderData[emotion]}
+                min={0}
+                max={1}
+                step={0.01}
+                onValueChange={(value) => handleSliderChange(emotion, value)}
+                minimumTrackTintColor={theme.colors.primary}
+                maximumTrackTintColor={theme.colors.lightGray}
+                thumbTintColor={theme.colors.primary}
+              />
+            ))}
           </View>
         )}
         
@@ -341,6 +482,12 @@ export const EmotionInputScreen: React.FC = () => {
         {activeTab === 'voice' && (
           <View style={styles.voiceContainer}>
             <VoiceRecorder onRecordingComplete={handleVoiceRecorded} />
+            {transcribing && (
+              <Text style={styles.transcriptText}>Transcribing...</Text>
+            )}
+            {transcript && !transcribing && (
+              <Text style={styles.transcriptText}>"{transcript}"</Text>
+            )}
           </View>
         )}
         
@@ -382,18 +529,42 @@ export const EmotionInputScreen: React.FC = () => {
         )}
       </ScrollView>
       
+      {fusedResult && fusedResult.modalities.length > 1 && (
+        <View style={styles.fusionSummary}>
+          <Text style={styles.fusionSummaryText}>
+            Combining {fusedResult.modalities.map(result => result.modality).join(', ')}
+          </Text>
+          {fusedResult.conflicts.length > 0 && (
+            <Text style={styles.fusionConflictText}>
+              Your {fusedResult.conflicts[0].modalities.join(' and ')} input point to different feelings
+            </Text>
+          )}
+        </View>
+      )}
+      
       <View style={styles.footer}>
+        <TextInput
+          style={styles.notesInput}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Add a note (optional)"
+          placeholderTextColor={theme.colors.textLight}
+          multiline
+        />
+        {isDemoMode() && (
+          <Text style={styles.demoNote}>Demo mode: this entry goes into the sample diary</Text>
+        )}
         <TouchableOpacity
           style={styles.submitButton}
-          onPress={handleSubmit}
-          disabled={analyzing}
+          onPress={handleSave}
+          disabled={saving || transcribing || attachingVoice}
         >
-          {analyzing ? (
+          {saving ? (
             <ActivityIndicator color="#fff" />
           ) : (
             <>
-              <Text style={styles.submitButtonText}>Analyze My Mood</Text>
-              <Ionicons name="arrow-forward" size={20} color="#fff" />
+              <Text style={styles.submitButtonText}>Save Entry</Text>
+              <Ionicons name="checkmark" size={20} color="#fff" />
             </>
           )}
         </TouchableOpacity>
@@ -402,7 +573,7 @@ export const EmotionInputScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   safeArea: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -427,10 +598,14 @@ const styles = StyleSheet.create({
     marginRight: theme.spacing.md,
   },
   headerTitle: {
+    flex: 1,
     fontSize: theme.typography.fontSizes.lg,
     fontWeight: '700',
     color: theme.colors.text,
   },
+  previewButton: {
+    marginLeft: theme.spacing.md,
+  },
   tabContainer: {
     flexDirection: 'row',
     borderBottomWidth: 1,
@@ -477,9 +652,31 @@ const styles = StyleSheet.create({
   voiceContainer: {
     marginVertical: theme.spacing.md,
   },
+  transcriptText: {
+    marginTop: theme.spacing.md,
+    fontSize: theme.typography.fontSizes.md,
+    fontStyle: 'italic',
+    color: theme.colors.textLight,
+    textAlign: 'center',
+  },
   faceContainer: {
     marginVertical: theme.spacing.md,
   },
+  fusionSummary: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+  },
+  fusionSummaryText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+  },
+  fusionConflictText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.warning,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+  },
   detectedEmotionContainer: {
     marginTop: theme.spacing.md,
     padding: theme.spacing.md,
@@ -535,6 +732,24 @@ const styles = StyleSheet.create({
     borderTopColor: theme.colors.border,
     backgroundColor: theme.colors.background,
   },
+  notesInput: {
+    minHeight: 44,
+    maxHeight: 100,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.text,
+  },
+  demoNote: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
   submitButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -549,4 +764,6 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginRight: theme.spacing.sm,
   },
-}); 
\ No newline at end of file
+});
+
+export default EmotionInputScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -10,18 +10,20 @@ import {
   Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../constants/theme';
-import { RootStackParamList, MoodEntry } from '../types';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import { RootStackNavigationProp, RootStackParamList, MoodEntry, MoodEntryAttachment } from '../types';
 import { getMoodEntry, updateMoodEntry } from '../services/storage';
 import { Card } from '../components/ui/Card';
 import { DrawingThumbnail } from '../components/ui/DrawingThumbnail';
+import { VoicePlayer } from '../components/ui/VoicePlayer';
+import { resolveAttachmentUri } from '../services/attachmentService';
 import { useToast } from '../components/ui/Toast';
 
 type EntryDetailsRouteProp = RouteProp<RootStackParamList, 'EntryDetails'>;
-type EntryDetailsNavigationProp = StackNavigationProp<RootStackParamList, 'EntryDetails'>;
+type EntryDetailsNavigationProp = RootStackNavigationProp<'EntryDetails'>;
 
 // Common emoji sets for different emotions
 const EMOTION_EMOJIS: Record<string, string[]> = {
@@ -44,6 +46,9 @@ const SUGGESTED_TAGS = [
 ];
 
 export const EntryDetailsScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const navigation = useNavigation<EntryDetailsNavigationProp>();
   const route = useRoute<EntryDetailsRouteProp>();
   const toast = useToast();
@@ -61,6 +66,7 @@ export const EntryDetailsScreen: React.FC = () => {
   const [selectedEmoji, setSelectedEmoji] = useState('');
   const [isFavorite, setIsFavorite] = useState(false);
   const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [voiceRecording, setVoiceRecording] = useState<{ attachment: MoodEntryAttachment; uri: string } | null>(null);
   
   // Load entry
   useEffect(() => {
@@ -89,6 +95,29 @@ export const EntryDetailsScreen: React.FC = () => {
     loadEntry();
   }, [entryId]);
   
+  // Find the entry's voice recording; its timeline was scored when it was attached
+  useEffect(() => {
+    const attachment = entry?.attachments?.find(item => item.kind === 'voice');
+    if (!attachment) {
+      setVoiceRecording(null);
+      return;
+    }
+    
+    let cancelled = false;
+    const loadRecording = async () => {
+      const uri = await resolveAttachmentUri(attachment);
+      if (cancelled || !uri) {
+        return;
+      }
+      setVoiceRecording({ attachment, uri });
+    };
+    
+    loadRecording();
+    return () => {
+      cancelled = true;
+    };
+  }, [entry?.id]);
+  
   // Save changes
   const saveChanges = async () => {
     if (!entry) return;
@@ -216,7 +245,7 @@ export const EntryDetailsScreen: React.FC = () => {
           <View style={styles.emotionHeader}>
             <View style={[
               styles.emotionIndicator, 
-              { backgroundColor: getEmotionColor(entry.dominantEmotion) }
+              { backgroundColor: getEmotionColor(entry.dominantEmotion, theme) }
             ]} />
             <View style={styles.emotionInfo}>
               <Text style={styles.emotionText}>
@@ -246,11 +275,28 @@ export const EntryDetailsScreen: React.FC = () => {
               color={theme.colors.textLight} 
             />
             <Text style={styles.sourceText}>
-              Created with {entry.source}
+              Created with {entry.modalities && entry.modalities.length > 1
+                ? entry.modalities.map(result => result.modality).join(' + ')
+                : entry.source}
             </Text>
           </View>
         </Card>
         
+        {/* Voice recording */}
+        {voiceRecording && (
+          <Card style={styles.inputCard}>
+            <Text style={styles.inputLabel}>Voice Recording</Text>
+            <VoicePlayer
+              uri={voiceRecording.uri}
+              duration={voiceRecording.attachment.duration}
+              segments={voiceRecording.attachment.timeline}
+            />
+            {entry.transcript && (
+              <Text style={styles.transcriptText}>"{entry.transcript}"</Text>
+            )}
+          </Card>
+        )}
+        
         {/* Title Input */}
         <Card style={styles.inputCard}>
           <Text style={styles.inputLabel}>Title</Text>
@@ -405,7 +451,7 @@ export const EntryDetailsScreen: React.FC = () => {
 };
 
 // Helper function to get a color for each emotion
-const getEmotionColor = (emotion: string): string => {
+const getEmotionColor = (emotion: string, theme: AppTheme): string => {
   const emotionColors: Record<string, string> = {
     joy: theme.colors.joy,
     sadness: theme.colors.sadness,
@@ -427,12 +473,13 @@ const getSourceIcon = (source: string): string => {
     drawing: 'brush',
     voice: 'mic',
     face: 'camera',
+    text: 'document-text',
   };
   
   return sourceIcons[source] || 'help-circle';
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   safeArea: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -676,6 +723,13 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     lineHeight: theme.typography.lineHeights.normal * theme.typography.fontSizes.md,
   },
+  transcriptText: {
+    marginTop: theme.spacing.sm,
+    fontSize: theme.typography.fontSizes.md,
+    fontStyle: 'italic',
+    color: theme.colors.textLight,
+    lineHeight: theme.typography.lineHeights.normal * theme.typography.fontSizes.md,
+  },
   notesEditContainer: {
     marginTop: theme.spacing.xs,
   },
@@ -692,4 +746,6 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     ...theme.shadows.light,
   },
-}); 
\ No newline at end of file
+});
+
+export default EntryDetailsScreen;
@@ -0,0 +1,261 @@
+import React, { useEffect, useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import { useAppLock } from '../hooks/useAppLock';
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH, getLockoutRemaining } from '../services/appLockService';
+
+const KEYPAD_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+  ['biometric', '0', 'delete'],
+];
+
+const formatLockout = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} min` : `${seconds} s`;
+};
+
+/**
+ * PIN pad shown in place of the app while it is locked
+ */
+const LockScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const { biometricsEnabled, biometricsAvailable, unlockWithPin, unlockWithBiometrics } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [lockoutRemaining, setLockoutRemaining] = useState(getLockoutRemaining());
+
+  const canUseBiometrics = biometricsEnabled && biometricsAvailable;
+
+  // Offer biometrics straight away when enabled
+  useEffect(() => {
+    if (canUseBiometrics && getLockoutRemaining() === 0) {
+      unlockWithBiometrics();
+    }
+  }, [canUseBiometrics]);
+
+  // Count down an active lockout
+  useEffect(() => {
+    if (lockoutRemaining <= 0) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      const remaining = getLockoutRemaining();
+      setLockoutRemaining(remaining);
+      if (remaining === 0) {
+        setMessage(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [lockoutRemaining > 0]);
+
+  const submitPin = async (enteredPin: string) => {
+    setChecking(true);
+    const result = await unlockWithPin(enteredPin);
+    setChecking(false);
+
+    if (result.success) {
+      return;
+    }
+
+    setPin('');
+    if (result.lockedUntil) {
+      setLockoutRemaining(getLockoutRemaining());
+      setMessage('Too many incorrect attempts.');
+    } else {
+      setMessage(`Incorrect PIN. ${result.remainingAttempts} attempts left.`);
+    }
+  };
+
+  const handleKeyPress = (key: string) => {
+    if (checking || lockoutRemaining > 0) {
+      return;
+    }
+
+    if (key === 'biometric') {
+      unlockWithBiometrics();
+      return;
+    }
+
+    if (key === 'delete') {
+      setPin(current => current.slice(0, -1));
+      return;
+    }
+
+    if (pin.length < MAX_PIN_LENGTH) {
+      setPin(pin + key);
+      setMessage(null);
+    }
+  };
+
+  const renderKey = (key: string) => {
+    if (key === 'biometric') {
+      return canUseBiometrics ? (
+        <TouchableOpacity key={key} style={styles.key} onPress={() => handleKeyPress(key)}>
+          <Ionicons name="finger-print" size={28} color={theme.colors.primary} />
+        </TouchableOpacity>
+      ) : (
+        <View key={key} style={styles.key} />
+      );
+    }
+
+    if (key === 'delete') {
+      return (
+        <TouchableOpacity key={key} style={styles.key} onPress={() => handleKeyPress(key)}>
+          <Ionicons name="backspace-outline" size={28} color={theme.colors.text} />
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity key={key} style={[styles.key, styles.digitKey]} onPress={() => handleKeyPress(key)}>
+        <Text style={styles.keyText}>{key}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const lockedOut = lockoutRemaining > 0;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="lock-closed" size={40} color={theme.colors.primary} />
+        <Text style={styles.title}>Enter your PIN</Text>
+
+        <View style={styles.dots}>
+          {Array.from({ length: Math.max(MIN_PIN_LENGTH, pin.length) }, (_, index) => (
+            <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+          ))}
+        </View>
+
+        <Text style={styles.message}>
+          {lockedOut
+            ? `${message || 'Locked.'} Try again in ${formatLockout(lockoutRemaining)}.`
+            : message || ' '}
+        </Text>
+      </View>
+
+      <View style={[styles.keypad, lockedOut && styles.keypadDisabled]}>
+        {KEYPAD_ROWS.map((row, rowIndex) => (
+          <View key={rowIndex} style={styles.keypadRow}>
+            {row.map(renderKey)}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.footer}>
+        {checking ? (
+          <ActivityIndicator color={theme.colors.primary} />
+        ) : (
+          <TouchableOpacity
+            style={[styles.unlockButton, (pin.length < MIN_PIN_LENGTH || lockedOut) && styles.unlockButtonDisabled]}
+            onPress={() => submitPin(pin)}
+            disabled={pin.length < MIN_PIN_LENGTH || lockedOut}
+          >
+            <Text style={styles.unlockText}>Unlock</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'space-between',
+  },
+  header: {
+    alignItems: 'center',
+    marginTop: theme.spacing.xxl * 2,
+  },
+  title: {
+    fontSize: theme.typography.fontSizes.xl,
+    fontWeight: theme.typography.fontWeights.bold as '700',
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  dots: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.xl,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: theme.colors.primary,
+    marginHorizontal: theme.spacing.sm,
+  },
+  dotFilled: {
+    backgroundColor: theme.colors.primary,
+  },
+  message: {
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.error,
+    marginTop: theme.spacing.lg,
+    textAlign: 'center',
+    paddingHorizontal: theme.spacing.xl,
+  },
+  keypad: {
+    paddingHorizontal: theme.spacing.xxl,
+  },
+  keypadDisabled: {
+    opacity: 0.4,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  digitKey: {
+    backgroundColor: theme.colors.cardBackground,
+    ...theme.shadows.light,
+  },
+  keyText: {
+    fontSize: theme.typography.fontSizes.xxl,
+    color: theme.colors.text,
+  },
+  footer: {
+    padding: theme.spacing.xl,
+  },
+  unlockButton: {
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.radii.md,
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  unlockButtonDisabled: {
+    opacity: 0.5,
+  },
+  unlockText: {
+    color: 'white',
+    fontSize: theme.typography.fontSizes.lg,
+    fontWeight: theme.typography.fontWeights.medium as '500',
+  },
+});
+
+export default LockScreen;
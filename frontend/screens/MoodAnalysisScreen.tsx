@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useState, useMemo } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -8,19 +8,23 @@ import {
   ActivityIndicator 
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { StackNavigationProp } from '@react-navigation/stack';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { colors, spacing, typography } from '../constants/theme';
-import { RootStackParamList } from '../types';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import { RootStackNavigationProp } from '../types';
 import { getAllMoodEntries } from '../services/storage';
 import { analyzeTrends, TrendAnalysisResult } from '../services/trendAnalysis';
+import { isDemoMode } from '../services/demoMode';
 import { MoodTrendCharts } from '../components/ui/MoodTrendCharts';
 import { MoodEntry } from '../types';
 
-type MoodAnalysisScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MoodAnalysis'>;
+type MoodAnalysisScreenNavigationProp = RootStackNavigationProp<'MoodAnalysis'>;
 
 export const MoodAnalysisScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const navigation = useNavigation<MoodAnalysisScreenNavigationProp>();
   const [trendData, setTrendData] = useState<TrendAnalysisResult | null>(null);
   const [entries, setEntries] = useState<MoodEntry[]>([]);
@@ -61,7 +65,8 @@ export const MoodAnalysisScreen: React.FC = () => {
       }
       
       // Analyze trends
-      const analysisResult = analyzeTrends(filteredEntries);
+      // Demo mode shows trends of its own sample entries
+      const analysisResult = analyzeTrends(filteredEntries, { includeSynthetic: isDemoMode() });
       setTrendData(analysisResult);
     } catch (error) {
       console.error('Failed to load mood analysis data:', error);
@@ -82,7 +87,7 @@ export const MoodAnalysisScreen: React.FC = () => {
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Ionicons name="arrow-back" size={24} color={colors.text} />
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Mood Analysis</Text>
       </View>
@@ -114,12 +119,12 @@ export const MoodAnalysisScreen: React.FC = () => {
       
       {loading ? (
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color={colors.primary} />
+          <ActivityIndicator size="large" color={theme.colors.primary} />
           <Text style={styles.loadingText}>Analyzing your mood data...</Text>
         </View>
       ) : !trendData || Object.values(trendData.emotionFrequency).every(count => count === 0) ? (
         <View style={styles.emptyContainer}>
-          <Ionicons name="analytics-outline" size={64} color={colors.textLight} />
+          <Ionicons name="analytics-outline" size={64} color={theme.colors.textLight} />
           <Text style={styles.emptyText}>
             {noDataMessage || errorMessage}
           </Text>
@@ -142,55 +147,55 @@ export const MoodAnalysisScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   safeArea: {
     flex: 1,
-    backgroundColor: colors.background,
+    backgroundColor: theme.colors.background,
   },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
-    padding: spacing.md,
+    padding: theme.spacing.md,
     borderBottomWidth: 1,
-    borderBottomColor: colors.border,
+    borderBottomColor: theme.colors.border,
   },
   backButton: {
-    marginRight: spacing.md,
+    marginRight: theme.spacing.md,
   },
   headerTitle: {
-    fontSize: typography.fontSizes.lg,
-    fontWeight: typography.fontWeights.bold,
-    color: colors.text,
+    fontSize: theme.typography.fontSizes.lg,
+    fontWeight: theme.typography.fontWeights.bold,
+    color: theme.colors.text,
   },
   timeRangeSelector: {
     flexDirection: 'row',
     alignItems: 'center',
-    paddingHorizontal: spacing.md,
-    paddingVertical: spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
     borderBottomWidth: 1,
-    borderBottomColor: colors.border,
+    borderBottomColor: theme.colors.border,
   },
   timeRangeLabel: {
-    fontSize: typography.fontSizes.sm,
-    color: colors.text,
-    marginRight: spacing.sm,
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.text,
+    marginRight: theme.spacing.sm,
   },
   timeRangeButtons: {
     flexDirection: 'row',
   },
   timeRangeButton: {
-    paddingHorizontal: spacing.md,
-    paddingVertical: spacing.xs,
-    marginHorizontal: spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    marginHorizontal: theme.spacing.xs,
     borderRadius: 16,
-    backgroundColor: colors.cardBackground,
+    backgroundColor: theme.colors.cardBackground,
   },
   activeTimeRangeButton: {
-    backgroundColor: colors.primary,
+    backgroundColor: theme.colors.primary,
   },
   timeRangeButtonText: {
-    fontSize: typography.fontSizes.sm,
-    color: colors.text,
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.text,
   },
   activeTimeRangeButtonText: {
     color: '#fff',
@@ -201,38 +206,40 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   loadingText: {
-    fontSize: typography.fontSizes.md,
-    color: colors.text,
-    marginTop: spacing.md,
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
   },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-    padding: spacing.xl,
+    padding: theme.spacing.xl,
   },
   emptyText: {
-    fontSize: typography.fontSizes.md,
-    color: colors.textLight,
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.textLight,
     textAlign: 'center',
-    marginTop: spacing.lg,
-    marginBottom: spacing.xl,
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.xl,
   },
   createButton: {
-    backgroundColor: colors.primary,
-    paddingHorizontal: spacing.lg,
-    paddingVertical: spacing.md,
+    backgroundColor: theme.colors.primary,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
     borderRadius: 8,
   },
   createButtonText: {
     color: '#fff',
-    fontSize: typography.fontSizes.md,
-    fontWeight: typography.fontWeights.medium,
+    fontSize: theme.typography.fontSizes.md,
+    fontWeight: theme.typography.fontWeights.medium,
   },
   scrollView: {
     flex: 1,
   },
   scrollContent: {
-    paddingBottom: spacing.xl,
+    paddingBottom: theme.spacing.xl,
   },
-}); 
\ No newline at end of file
+});
+
+export default MoodAnalysisScreen;
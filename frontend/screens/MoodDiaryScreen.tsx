@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useState, useMemo, useRef } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -12,17 +12,20 @@ import {
   Platform
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { StackNavigationProp } from '@react-navigation/stack';
-import { useNavigation } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../constants/theme';
+import { AppTheme } from '../constants/theme';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { useTheme } from '../hooks/useTheme';
 import { getAllMoodEntries, deleteMoodEntry } from '../services/storage';
-import { MoodEntry, RootStackParamList } from '../types';
+import { exitDemoMode, isDemoMode } from '../services/demoMode';
+import { MainTabNavigationProp, MainTabParamList, MoodEntry } from '../types';
 import { DrawingThumbnail } from '../components/ui/DrawingThumbnail';
 import { Card } from '../components/ui/Card';
 import { useToast } from '../components/ui/Toast';
 
-type MoodDiaryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MoodDiary'>;
+type MoodDiaryScreenNavigationProp = MainTabNavigationProp<'MoodDiary'>;
+type MoodDiaryRouteProp = RouteProp<MainTabParamList, 'MoodDiary'>;
 
 // Filter options type
 type FilterOptions = {
@@ -32,84 +35,23 @@ type FilterOptions = {
     endDate: Date | null;
   };
   sources: string[];
+  tags: string[];
 };
 
+// How long a just-saved entry stays highlighted, in milliseconds
+const HIGHLIGHT_DURATION = 3000;
+
 // Date formatter helper
 const formatDate = (date: Date): string => {
   return date.toLocaleDateString();
 };
 
-// Mock data for mood entries
-const mockEntries = [
-  {
-    id: '1',
-    date: '2025-05-31T15:30:00Z',
-    mood: 'Happy',
-    emotionValues: {
-      happiness: 0.85,
-      surprise: 0.15,
-      neutral: 0.0,
-      anger: 0.0,
-    },
-    notes: 'Had a great meeting with the team!',
-    tags: ['work', 'success'],
-  },
-  {
-    id: '2',
-    date: '2025-05-30T18:45:00Z',
-    mood: 'Relaxed',
-    emotionValues: {
-      happiness: 0.6,
-      surprise: 0.0,
-      neutral: 0.4,
-      anger: 0.0,
-    },
-    notes: 'Evening walk in the park',
-    tags: ['nature', 'exercise'],
-  },
-  {
-    id: '3',
-    date: '2025-05-30T09:15:00Z',
-    mood: 'Focused',
-    emotionValues: {
-      happiness: 0.3,
-      surprise: 0.0,
-      neutral: 0.7,
-      anger: 0.0,
-    },
-    notes: 'Morning meditation session helped me focus',
-    tags: ['meditation', 'morning'],
-  },
-  {
-    id: '4',
-    date: '2025-05-29T20:00:00Z',
-    mood: 'Frustrated',
-    emotionValues: {
-      happiness: 0.0,
-      surprise: 0.1,
-      neutral: 0.3,
-      anger: 0.6,
-    },
-    notes: 'Traffic jam on the way home',
-    tags: ['traffic', 'stress'],
-  },
-  {
-    id: '5',
-    date: '2025-05-29T12:30:00Z',
-    mood: 'Excited',
-    emotionValues: {
-      happiness: 0.7,
-      surprise: 0.3,
-      neutral: 0.0,
-      anger: 0.0,
-    },
-    notes: 'Lunch with an old friend',
-    tags: ['friends', 'food'],
-  },
-];
-
 export const MoodDiaryScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const navigation = useNavigation<MoodDiaryScreenNavigationProp>();
+  const route = useRoute<MoodDiaryRouteProp>();
   const toast = useToast();
   const [entries, setEntries] = useState<MoodEntry[]>([]);
   const [filteredEntries, setFilteredEntries] = useState<MoodEntry[]>([]);
@@ -117,22 +59,22 @@ export const MoodDiaryScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [demoMode, setDemoMode] = useState(isDemoMode());
+  // Entry just saved from the input screen, highlighted for a moment
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const listRef = useRef<FlatList<MoodEntry>>(null);
   
   // Filter states
   const [filterOptions, setFilterOptions] = useState<FilterOptions>({
     emotions: [],
     dateRange: { startDate: null, endDate: null },
-    sources: []
+    sources: [],
+    tags: []
   });
   
-  // Available emotion types for filtering
-  const emotionTypes = [
-    'joy', 'sadness', 'anger', 'fear', 
-    'surprise', 'disgust', 'contentment', 'neutral'
-  ];
-  
   // Available input sources for filtering
-  const inputSources = ['sliders', 'drawing', 'voice', 'face'];
+  const inputSources = ['sliders', 'drawing', 'voice', 'face', 'text'];
 
   const loadEntries = async () => {
     setLoading(true);
@@ -155,11 +97,58 @@ export const MoodDiaryScreen: React.FC = () => {
     loadEntries();
   }, []);
   
+  // Start from the filters a deep link asked for
+  useEffect(() => {
+    const params = route.params;
+    if (!params) {
+      return;
+    }
+    
+    setFilterOptions({
+      emotions: params.emotion ? [params.emotion] : [],
+      dateRange: { startDate: null, endDate: null },
+      sources: [],
+      tags: params.tag ? [params.tag] : []
+    });
+    setSearchQuery(params.query ?? '');
+    
+    if (params.highlightId) {
+      // The diary stays mounted between tabs, so fetch the new entry; being the
+      // newest it lands at the top of the list
+      setHighlightedId(params.highlightId);
+      loadEntries();
+      listRef.current?.scrollToOffset({ offset: 0, animated: true });
+      
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+      highlightTimeoutRef.current = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION);
+    }
+  }, [route.params]);
+  
+  useEffect(() => {
+    return () => {
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
+      }
+    };
+  }, []);
+  
   // Apply filters and search when entries, filterOptions, or searchQuery change
   useEffect(() => {
     applyFiltersAndSearch();
   }, [entries, filterOptions, searchQuery]);
 
+  // Drop the sample entries and show the real diary again
+  const handleExitDemo = async () => {
+    const cleared = await exitDemoMode();
+    setDemoMode(false);
+    if (!cleared) {
+      toast.showToast('Some sample entries could not be removed', 'error');
+    }
+    loadEntries();
+  };
+
   const handleRefresh = () => {
     setRefreshing(true);
     loadEntries();
@@ -212,12 +201,21 @@ export const MoodDiaryScreen: React.FC = () => {
       );
     }
     
+    // Apply tag filters
+    if (filterOptions.tags.length > 0) {
+      const tags = filterOptions.tags.map(tag => tag.toLowerCase());
+      result = result.filter(entry => 
+        (entry.tags || []).some(tag => tags.includes(tag.toLowerCase()))
+      );
+    }
+    
     // Apply search query
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase().trim();
       result = result.filter(entry => 
         entry.dominantEmotion.toLowerCase().includes(query) || 
-        (entry.notes && entry.notes.toLowerCase().includes(query))
+        (entry.notes && entry.notes.toLowerCase().includes(query)) ||
+        (entry.transcript && entry.transcript.toLowerCase().includes(query))
       );
     }
     
@@ -259,7 +257,8 @@ export const MoodDiaryScreen: React.FC = () => {
     setFilterOptions({
       emotions: [],
       dateRange: { startDate: null, endDate: null },
-      sources: []
+      sources: [],
+    tags: []
     });
     setSearchQuery('');
   };
@@ -268,6 +267,7 @@ export const MoodDiaryScreen: React.FC = () => {
   const hasActiveFilters = () => {
     return filterOptions.emotions.length > 0 || 
            filterOptions.sources.length > 0 || 
+           filterOptions.tags.length > 0 || 
            filterOptions.dateRange.startDate !== null || 
            filterOptions.dateRange.endDate !== null ||
            searchQuery.trim() !== '';
@@ -278,14 +278,19 @@ export const MoodDiaryScreen: React.FC = () => {
     const formattedDate = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
     
     // Get a color based on the dominant emotion
-    const emotionColor = getEmotionColor(item.dominantEmotion);
+    const emotionColor = getEmotionColor(item.dominantEmotion, theme);
     
     return (
       <TouchableOpacity
         onPress={() => navigation.navigate('EntryDetails', { entryId: item.id })}
         activeOpacity={0.7}
       >
-        <Card style={styles.entryCard} elevation="medium" padding="none" borderRadius="medium">
+        <Card
+          style={[styles.entryCard, item.id === highlightedId && styles.highlightedCard]}
+          elevation="medium"
+          padding="none"
+          borderRadius="medium"
+        >
         <View style={[styles.emotionIndicator, { backgroundColor: emotionColor }]} />
         <View style={styles.entryContent}>
           <Text style={styles.emotionText}>{item.dominantEmotion.toUpperCase()}</Text>
@@ -364,13 +369,13 @@ export const MoodDiaryScreen: React.FC = () => {
             <View style={styles.filterSection}>
               <Text style={styles.filterSectionTitle}>Emotions</Text>
               <View style={styles.emotionFilters}>
-                {emotionTypes.map(emotion => (
+                {DISCRETE_EMOTIONS.map(emotion => (
                   <TouchableOpacity
                     key={emotion}
                     style={[
                       styles.filterChip,
                       filterOptions.emotions.includes(emotion) && 
-                      { backgroundColor: getEmotionColor(emotion) }
+                      { backgroundColor: getEmotionColor(emotion, theme) }
                     ]}
                     onPress={() => toggleEmotionFilter(emotion)}
                   >
@@ -508,13 +513,23 @@ export const MoodDiaryScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
       
+      {demoMode && (
+        <View style={styles.demoBanner}>
+          <Ionicons name="flask-outline" size={18} color={theme.colors.text} />
+          <Text style={styles.demoBannerText}>Demo mode: these are sample entries</Text>
+          <TouchableOpacity onPress={handleExitDemo}>
+            <Text style={styles.demoBannerAction}>Exit</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       {/* Search and filter bar */}
       <View style={styles.searchContainer}>
         <View style={styles.searchInputContainer}>
           <Ionicons name="search" size={20} color={theme.colors.textLight} />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search emotions or notes..."
+            placeholder="Search emotions, notes or what you said..."
             value={searchQuery}
             onChangeText={setSearchQuery}
             placeholderTextColor={theme.colors.textLight}
@@ -569,6 +584,7 @@ export const MoodDiaryScreen: React.FC = () => {
         </View>
       ) : (
         <FlatList
+          ref={listRef}
           data={filteredEntries}
           renderItem={renderItem}
           keyExtractor={(item) => item.id}
@@ -585,7 +601,7 @@ export const MoodDiaryScreen: React.FC = () => {
 };
 
 // Helper function to get a color for each emotion
-const getEmotionColor = (emotion: string): string => {
+const getEmotionColor = (emotion: string, theme: AppTheme): string => {
   const emotionColors: Record<string, string> = {
     joy: theme.colors.joy,
     sadness: theme.colors.sadness,
@@ -607,12 +623,13 @@ const getSourceIcon = (source: string): string => {
     drawing: 'brush',
     voice: 'mic',
     face: 'camera',
+    text: 'document-text',
   };
   
   return sourceIcons[source] || 'help-circle';
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   safeArea: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -636,6 +653,24 @@ const styles = StyleSheet.create({
   analyzeButton: {
     padding: theme.spacing.sm,
   },
+  demoBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    backgroundColor: theme.colors.warning,
+  },
+  demoBannerText: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.text,
+  },
+  demoBannerAction: {
+    fontSize: theme.typography.fontSizes.sm,
+    fontWeight: theme.typography.fontWeights.bold,
+    color: theme.colors.text,
+  },
   searchContainer: {
     flexDirection: 'row',
     padding: theme.spacing.sm,
@@ -682,6 +717,10 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     overflow: 'hidden',
   },
+  highlightedCard: {
+    borderWidth: 2,
+    borderColor: theme.colors.primary,
+  },
   emotionIndicator: {
     width: 8,
     height: '100%',
@@ -817,7 +856,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: theme.colors.lightGray,
-    borderRadius: theme.radii.round,
+    borderRadius: theme.radii.full,
     paddingVertical: theme.spacing.xs,
     paddingHorizontal: theme.spacing.sm,
     marginRight: theme.spacing.sm,
@@ -891,4 +930,6 @@ const styles = StyleSheet.create({
     color: theme.colors.white,
     fontWeight: theme.typography.fontWeights.medium,
   },
-}); 
\ No newline at end of file
+});
+
+export default MoodDiaryScreen;
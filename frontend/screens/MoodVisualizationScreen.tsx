@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   View, 
   StyleSheet, 
@@ -8,7 +8,6 @@ import {
   Dimensions 
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { 
@@ -21,22 +20,27 @@ import Animated, {
   Easing,
   withDelay
 } from 'react-native-reanimated';
-import { EmotionData, RootStackParamList } from '../types';
-import theme from '../constants/theme';
+import { EmotionData, RootStackNavigationProp, RootStackParamList } from '../types';
+import { computeEmotionAnalysis, createEmotionDescription } from '../services/emotionAnalysis';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
 import { Card } from '../components/ui/Card';
 
 type MoodVisualizationRouteProp = RouteProp<RootStackParamList, 'MoodVisualization'>;
-type MoodVisualizationScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MoodVisualization'>;
+type MoodVisualizationScreenNavigationProp = RootStackNavigationProp<'MoodVisualization'>;
 
 const { width: screenWidth } = Dimensions.get('window');
 
 export const MoodVisualizationScreen: React.FC = () => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
   const navigation = useNavigation<MoodVisualizationScreenNavigationProp>();
   const route = useRoute<MoodVisualizationRouteProp>();
   const { emotionData } = route.params;
+  const analysis = useMemo(() => computeEmotionAnalysis(emotionData), [emotionData]);
+  const { dominantEmotion } = analysis;
   
-  const [dominantEmotion, setDominantEmotion] = useState<string>('neutral');
-  const [intensity, setIntensity] = useState<number>(0);
   const [animationComplete, setAnimationComplete] = useState<boolean>(false);
   
   // Animation values
@@ -46,30 +50,10 @@ export const MoodVisualizationScreen: React.FC = () => {
   const backgroundColorValue = useSharedValue(0);
   const translateY = useSharedValue(50);
   
-  // Get dominant emotion
+  // Animate for the analysed emotion
   useEffect(() => {
-    const emotions = { ...emotionData };
-    delete emotions.energy;
-    delete emotions.calmness;
-    delete emotions.tension;
-    
-    // Find the dominant emotion
-    let maxEmotion = 'neutral';
-    let maxValue = 0;
-    
-    Object.entries(emotions).forEach(([emotion, value]) => {
-      if (value > maxValue) {
-        maxValue = value as number;
-        maxEmotion = emotion;
-      }
-    });
-    
-    setDominantEmotion(maxEmotion);
-    setIntensity(maxValue);
-    
-    // Start animations
-    startAnimations(maxEmotion, maxValue);
-  }, [emotionData]);
+    startAnimations(analysis.dominantEmotion, analysis.intensity);
+  }, [analysis]);
   
   // Start different animations based on the dominant emotion
   const startAnimations = (emotion: string, intensity: number) => {
@@ -206,29 +190,6 @@ export const MoodVisualizationScreen: React.FC = () => {
     };
   });
   
-  // Get emotion description based on dominant emotion
-  const getEmotionDescription = (): string => {
-    switch (dominantEmotion) {
-      case 'joy':
-        return "Your drawing reflects happiness and positivity. The strokes show energy and enthusiasm.";
-      case 'sadness':
-        return "Your drawing suggests feelings of melancholy. The strokes appear deliberate and thoughtful.";
-      case 'anger':
-        return "Your drawing indicates frustration or tension. The strokes are powerful and direct.";
-      case 'fear':
-        return "Your drawing suggests anxiety or concern. The strokes show hesitation and caution.";
-      case 'surprise':
-        return "Your drawing reflects wonder or astonishment. The strokes show spontaneity.";
-      case 'disgust':
-        return "Your drawing indicates aversion or displeasure. The strokes show intensity and restraint.";
-      case 'contentment':
-        return "Your drawing suggests peace and satisfaction. The strokes are balanced and harmonious.";
-      case 'neutral':
-      default:
-        return "Your drawing appears balanced and measured, without strong emotional indicators.";
-    }
-  };
-  
   // Render emotion bars
   const renderEmotionBars = () => {
     const emotions = { ...emotionData };
@@ -262,7 +223,7 @@ export const MoodVisualizationScreen: React.FC = () => {
                 style={[
                   styles.bar, 
                   { 
-                    backgroundColor: getEmotionColor(emotion),
+                    backgroundColor: getEmotionColor(emotion, theme),
                     width: `${(value as number) * 100}%` 
                   },
                   useAnimatedStyle(() => ({
@@ -299,7 +260,7 @@ export const MoodVisualizationScreen: React.FC = () => {
           contentContainerStyle={styles.scrollContent}
         >
           <Animated.View style={[styles.visualizationContainer, animatedContainerStyle]}>
-            <View style={[styles.emotionCircle, { backgroundColor: getEmotionColor(dominantEmotion) }]}>
+            <View style={[styles.emotionCircle, { backgroundColor: getEmotionColor(dominantEmotion, theme) }]}>
               <Ionicons 
                 name={getEmotionIcon(dominantEmotion)} 
                 size={80} 
@@ -314,7 +275,17 @@ export const MoodVisualizationScreen: React.FC = () => {
           </Text>
           
             <Card style={styles.descriptionCard}>
-              <Text style={styles.descriptionText}>{getEmotionDescription()}</Text>
+              <Text style={styles.descriptionText}>{createEmotionDescription(analysis)}</Text>
+              <View style={styles.analysisStatsRow}>
+                <Text style={styles.analysisStat}>Confidence {Math.round(analysis.confidence * 100)}%</Text>
+                <Text style={styles.analysisStat}>Intensity {Math.round(analysis.intensity * 100)}%</Text>
+                <Text style={styles.analysisStat}>Ambiguity {Math.round((analysis.ambiguity || 0) * 100)}%</Text>
+              </View>
+              {(analysis.explanations || []).map((explanation, index) => (
+                <Text key={`${explanation.factor}-${index}`} style={styles.explanationText}>
+                  {explanation.message}
+                </Text>
+              ))}
             </Card>
           </Animated.View>
           
@@ -418,7 +389,7 @@ export const MoodVisualizationScreen: React.FC = () => {
             <View style={styles.actionsContainer}>
               <TouchableOpacity 
                 style={styles.actionButton}
-                onPress={() => navigation.navigate('MoodDiary')}
+                onPress={() => navigation.navigate('Main', { screen: 'MoodDiary' })}
               >
                 <Text style={styles.actionButtonText}>View Mood History</Text>
           </TouchableOpacity>
@@ -438,7 +409,7 @@ export const MoodVisualizationScreen: React.FC = () => {
 };
 
 // Helper function to get color for emotion
-const getEmotionColor = (emotion: string): string => {
+const getEmotionColor = (emotion: string, theme: AppTheme): string => {
   const emotionColors: Record<string, string> = {
     joy: theme.colors.joy,
     sadness: theme.colors.sadness,
@@ -469,7 +440,7 @@ const getEmotionIcon = (emotion: string): string => {
   return emotionIcons[emotion] || 'help-circle';
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   safeArea: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -529,6 +500,23 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     textAlign: 'center',
   },
+  analysisStatsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  analysisStat: {
+    fontSize: theme.typography.fontSizes.sm,
+    fontWeight: theme.typography.fontWeights.medium,
+    color: theme.colors.textLight,
+  },
+  explanationText: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+    lineHeight: 20,
+    marginTop: theme.spacing.xs,
+  },
   gaugesContainer: {
     marginTop: theme.spacing.md,
     paddingHorizontal: theme.spacing.md,
@@ -634,4 +622,6 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSizes.md,
     fontWeight: theme.typography.fontWeights.medium,
   },
-}); 
\ No newline at end of file
+});
+
+export default MoodVisualizationScreen;
@@ -0,0 +1,133 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  SafeAreaView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AppTheme } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import { Button } from '../components/ui/Button';
+import { unlockEncryption, WrongPassphraseError } from '../services/encryptionService';
+
+interface PassphraseUnlockScreenProps {
+  onUnlocked: () => void;
+}
+
+/**
+ * Shown at startup when the diary is encrypted, before storage is loaded
+ */
+const PassphraseUnlockScreen: React.FC<PassphraseUnlockScreenProps> = ({ onUnlocked }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setError(null);
+
+    try {
+      await unlockEncryption(passphrase);
+      onUnlocked();
+    } catch (unlockError) {
+      if (unlockError instanceof WrongPassphraseError) {
+        setError('Incorrect passphrase. Your diary is still locked.');
+      } else {
+        console.error('Failed to unlock diary:', unlockError);
+        setError('The diary could not be unlocked. Please try again.');
+      }
+      setPassphrase('');
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Ionicons name="lock-closed" size={48} color={theme.colors.primary} />
+        <Text style={styles.title}>Your diary is encrypted</Text>
+        <Text style={styles.subtitle}>Enter your passphrase to unlock it.</Text>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Passphrase"
+          placeholderTextColor={theme.colors.textLight}
+          value={passphrase}
+          onChangeText={setPassphrase}
+          onSubmitEditing={handleUnlock}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+          editable={!unlocking}
+        />
+
+        {error ? <Text style={styles.error}>{error}</Text> : null}
+
+        {unlocking ? (
+          <ActivityIndicator color={theme.colors.primary} />
+        ) : (
+          <Button
+            title="Unlock"
+            onPress={handleUnlock}
+            disabled={passphrase.length === 0}
+            style={styles.button}
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: AppTheme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: theme.spacing.xl,
+  },
+  title: {
+    fontSize: theme.typography.fontSizes.xl,
+    fontWeight: theme.typography.fontWeights.bold as '700',
+    color: theme.colors.text,
+    marginTop: theme.spacing.lg,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.textLight,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xl,
+  },
+  input: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.radii.md,
+    backgroundColor: theme.colors.cardBackground,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.md,
+    fontSize: theme.typography.fontSizes.md,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.md,
+  },
+  error: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.md,
+  },
+  button: {
+    alignSelf: 'stretch',
+  },
+});
+
+export default PassphraseUnlockScreen;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,18 +10,314 @@ import {
   Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import theme from '../constants/theme';
+import { AppTheme, ThemeMode } from '../constants/theme';
+import { useTheme } from '../hooks/useTheme';
+import {
+  exportDiaryAsJson,
+  exportDiaryAsCsv,
+  pickAndImportDiary,
+  DiaryExportResult,
+} from '../services/exportService';
+import { wipeData, describeWipeSummary, WipeOptions, collectOrphanedFiles } from '../services/dataWipeService';
+import {
+  enableDiaryEncryption,
+  disableDiaryEncryption,
+  changeDiaryPassphrase,
+  rotateDiaryKey,
+  EncryptionChangeResult,
+} from '../services/diaryEncryption';
+import { isEncryptionEnabled, WrongPassphraseError } from '../services/encryptionService';
+import { PassphraseModal } from '../components/ui/PassphraseModal';
+import { useAppLock } from '../hooks/useAppLock';
+import { useSettings } from '../hooks/useSettings';
+import { AUTO_LOCK_OPTIONS, MAX_PIN_LENGTH, validatePin } from '../services/appLockService';
+import { enterDemoMode, exitDemoMode } from '../services/demoMode';
+
+type PassphraseAction = 'enable' | 'disable' | 'change' | 'rotate';
+
+// Passphrase modal contents for each encryption action
+const PASSPHRASE_PROMPTS: Record<PassphraseAction, { title: string; message: string; fields: string[]; confirmLabel: string }> = {
+  enable: {
+    title: 'Encrypt Diary',
+    message: 'Choose a passphrase. It cannot be recovered: if you forget it, your diary is lost.',
+    fields: ['New passphrase', 'Confirm passphrase'],
+    confirmLabel: 'Encrypt',
+  },
+  disable: {
+    title: 'Turn Off Encryption',
+    message: 'Your diary will be stored unencrypted on this device.',
+    fields: ['Passphrase'],
+    confirmLabel: 'Decrypt',
+  },
+  change: {
+    title: 'Change Passphrase',
+    message: 'Your data is not re-encrypted, only the key protecting it.',
+    fields: ['Current passphrase', 'New passphrase', 'Confirm new passphrase'],
+    confirmLabel: 'Change',
+  },
+  rotate: {
+    title: 'Rotate Encryption Key',
+    message: 'Re-encrypts your whole diary with a new key. This may take a while.',
+    fields: ['Passphrase'],
+    confirmLabel: 'Rotate',
+  },
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type PinAction = 'set' | 'remove';
+
+const PIN_PROMPTS: Record<PinAction, { title: string; message: string; fields: string[]; confirmLabel: string }> = {
+  set: {
+    title: 'Set App PIN',
+    message: 'The PIN is asked for whenever EmotiGlass is opened.',
+    fields: ['New PIN', 'Confirm PIN'],
+    confirmLabel: 'Set PIN',
+  },
+  remove: {
+    title: 'Turn Off App Lock',
+    message: 'Enter your PIN to turn off the app lock.',
+    fields: ['PIN'],
+    confirmLabel: 'Turn Off',
+  },
+};
+
+const THEME_MODE_LABELS: Record<ThemeMode, string> = {
+  system: 'Match System',
+  light: 'Light',
+  dark: 'Dark',
+};
 
 const SettingsScreen: React.FC = () => {
-  // Settings state
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [darkModeEnabled, setDarkModeEnabled] = useState(false);
-  const [locationEnabled, setLocationEnabled] = useState(false);
-  const [biometricsEnabled, setBiometricsEnabled] = useState(false);
-  const [dataCollection, setDataCollection] = useState(true);
+  const { theme, mode: themeMode, setMode: setThemeMode } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+
+  // Persisted settings
+  const [settings, updateSettings] = useSettings();
+  const [encryptionEnabled, setEncryptionEnabled] = useState(isEncryptionEnabled());
+  const [passphraseAction, setPassphraseAction] = useState<PassphraseAction | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [passphraseBusy, setPassphraseBusy] = useState(false);
+  const [pinAction, setPinAction] = useState<PinAction | null>(null);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [demoBusy, setDemoBusy] = useState(false);
+  const appLock = useAppLock();
+  
+  const openPinPrompt = (action: PinAction) => {
+    setPinError(null);
+    setPinAction(action);
+  };
+  
+  const handlePinSubmit = async (values: string[]) => {
+    if (pinAction === 'set') {
+      const validationError = validatePin(values[0]);
+      if (validationError) {
+        setPinError(validationError);
+        return;
+      }
+      if (values[0] !== values[1]) {
+        setPinError('The PINs do not match.');
+        return;
+      }
+      
+      await appLock.setPin(values[0]);
+      setPinAction(null);
+      return;
+    }
+    
+    if (await appLock.disableLock(values[0])) {
+      setPinAction(null);
+    } else {
+      setPinError('Incorrect PIN.');
+    }
+  };
+  
+  const handleBiometricsChange = async (enabled: boolean) => {
+    if (enabled && !appLock.enabled) {
+      Alert.alert('Set a PIN First', 'Biometric unlock needs an app PIN to fall back on.');
+      return;
+    }
+    if (enabled && !appLock.biometricsAvailable) {
+      Alert.alert('Biometrics Unavailable', 'Set up fingerprint or face unlock on this device first.');
+      return;
+    }
+    
+    await appLock.setBiometricsEnabled(enabled);
+  };
+  
+  const handleAutoLockPress = () => {
+    Alert.alert(
+      'Auto-Lock',
+      'Lock EmotiGlass when it has been in the background for:',
+      [
+        ...AUTO_LOCK_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => appLock.setAutoLockTimeout(option.value),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+  
+  const autoLockLabel = AUTO_LOCK_OPTIONS.find(option => option.value === appLock.autoLockTimeout)?.label
+    ?? `After ${Math.round(appLock.autoLockTimeout / 60000)} minutes`;
+  
+  const handleAppearancePress = () => {
+    Alert.alert(
+      'Appearance',
+      'Choose a theme for EmotiGlass:',
+      [
+        ...(Object.keys(THEME_MODE_LABELS) as ThemeMode[]).map(mode => ({
+          text: THEME_MODE_LABELS[mode],
+          onPress: () => setThemeMode(mode),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+  
+  // Actions on the real diary wait until demo mode is off
+  const blockedByDemoMode = (): boolean => {
+    if (settings.demoMode) {
+      Alert.alert('Demo Mode Is On', 'Turn off demo mode to manage your own diary.');
+      return true;
+    }
+    return false;
+  };
+  
+  const openPassphrasePrompt = (action: PassphraseAction) => {
+    if (blockedByDemoMode()) {
+      return;
+    }
+    setPassphraseError(null);
+    setPassphraseAction(action);
+  };
+  
+  // Report entries or files that could not be rewritten
+  const reportEncryptionChange = (title: string, result: EncryptionChangeResult) => {
+    if (result.errors.length > 0) {
+      Alert.alert(
+        `${title} Incomplete`,
+        `${result.errors.length} items could not be rewritten. Your previous key is kept so nothing is lost; please try again.`
+      );
+      return;
+    }
+    
+    Alert.alert(title, `Rewrote ${result.records} storage records and ${result.files} files.`);
+  };
+  
+  // Run the selected encryption action once its passphrases are entered
+  const handlePassphraseSubmit = async (values: string[]) => {
+    if (!passphraseAction) {
+      return;
+    }
+    
+    const newPassphrase = passphraseAction === 'enable' ? values[0] : values[1];
+    const confirmation = passphraseAction === 'enable' ? values[1] : values[2];
+    
+    if (passphraseAction === 'enable' || passphraseAction === 'change') {
+      if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setPassphraseError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (newPassphrase !== confirmation) {
+        setPassphraseError('The passphrases do not match.');
+        return;
+      }
+    }
+    
+    setPassphraseBusy(true);
+    setPassphraseError(null);
+    
+    try {
+      switch (passphraseAction) {
+        case 'enable':
+          reportEncryptionChange('Diary Encrypted', await enableDiaryEncryption(newPassphrase));
+          break;
+        case 'disable':
+          reportEncryptionChange('Encryption Turned Off', await disableDiaryEncryption(values[0]));
+          break;
+        case 'change':
+          await changeDiaryPassphrase(values[0], newPassphrase);
+          Alert.alert('Passphrase Changed', 'Use your new passphrase next time you unlock the diary.');
+          break;
+        case 'rotate':
+          reportEncryptionChange('Key Rotated', await rotateDiaryKey(values[0]));
+          break;
+      }
+      
+      setEncryptionEnabled(isEncryptionEnabled());
+      setPassphraseAction(null);
+    } catch (error) {
+      if (error instanceof WrongPassphraseError) {
+        setPassphraseError('Incorrect passphrase.');
+      } else {
+        console.error('Failed to change encryption settings:', error);
+        setPassphraseError('Something went wrong. Your diary has not been changed.');
+      }
+    } finally {
+      setPassphraseBusy(false);
+    }
+  };
+  
+  // Wipe data and report what was removed
+  const runWipe = async (options: WipeOptions) => {
+    const summary = await wipeData(options);
+    
+    if (summary.errors.length > 0) {
+      Alert.alert(
+        'Some Data Was Not Cleared',
+        `${describeWipeSummary(summary)}\n\n${summary.errors.length} items could not be removed.`
+      );
+      return;
+    }
+    
+    Alert.alert('Data Cleared', describeWipeSummary(summary));
+  };
+  
+  // Find media no entry refers to and offer to delete it
+  const handleCleanUpFiles = async () => {
+    if (blockedByDemoMode()) {
+      return;
+    }
+    
+    const scan = await collectOrphanedFiles({ dryRun: true });
+    if (scan.errors.length > 0) {
+      Alert.alert('Cannot Clean Up', scan.errors.join('\n'));
+      return;
+    }
+    if (scan.orphaned.length === 0) {
+      Alert.alert('Nothing to Clean Up', 'Every saved drawing, recording and photo belongs to an entry.');
+      return;
+    }
+    
+    Alert.alert(
+      'Clean Up Unused Files',
+      `${scan.orphaned.length} drawings, recordings or photos are not part of any entry. Delete them?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await collectOrphanedFiles();
+            Alert.alert(
+              'Clean Up Complete',
+              result.errors.length > 0
+                ? `Removed ${result.removed} files. ${result.errors.length} could not be removed.`
+                : `Removed ${result.removed} files.`
+            );
+          },
+        },
+      ]
+    );
+  };
   
-  // Placeholder function for clearing data
   const handleClearData = () => {
+    if (blockedByDemoMode()) {
+      return;
+    }
+    
     Alert.alert(
       'Clear All Data',
       'Are you sure you want to clear all your emotion data? This action cannot be undone.',
@@ -30,21 +326,108 @@ const SettingsScreen: React.FC = () => {
           text: 'Cancel',
           style: 'cancel',
         },
+        {
+          text: 'Media Only',
+          style: 'destructive',
+          onPress: () => runWipe({ categories: ['drawings', 'recordings', 'faceImages'] }),
+        },
         {
           text: 'Clear Data',
           style: 'destructive',
-          onPress: () => {
-            // In a real app, this would clear the user's data
-            Alert.alert('Success', 'All data has been cleared');
-          },
+          onPress: () => runWipe({}),
         },
       ]
     );
   };
   
-  // Placeholder function for exports
+  const handleDemoModeChange = (enabled: boolean) => {
+    const run = async () => {
+      setDemoBusy(true);
+      const succeeded = enabled ? await enterDemoMode() : await exitDemoMode();
+      setDemoBusy(false);
+      
+      if (!succeeded) {
+        Alert.alert(
+          enabled ? 'Demo Mode Failed' : 'Sample Data Not Removed',
+          enabled
+            ? 'The sample diary could not be created.'
+            : 'Some sample entries could not be removed. They stay hidden from your diary.'
+        );
+      }
+    };
+    
+    Alert.alert(
+      enabled ? 'Start Demo Mode' : 'Exit Demo Mode',
+      enabled
+        ? 'Shows a month of sample entries so you can explore the app. Your own diary is kept aside and comes back when you exit.'
+        : 'The sample entries will be deleted and your own diary shown again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: enabled ? 'Start' : 'Exit', onPress: run },
+      ]
+    );
+  };
+  
+  // Run an export and report where it went
+  const runExport = async (exportFn: () => Promise<DiaryExportResult | null>) => {
+    const result = await exportFn();
+    
+    if (!result) {
+      Alert.alert('Export Failed', 'Your data could not be exported. Please try again.');
+      return;
+    }
+    
+    Alert.alert(
+      'Export Complete',
+      `Exported ${result.entryCount} entries` +
+        (result.fileCount > 0 ? ` and ${result.fileCount} drawings and recordings` : '') +
+        '.'
+    );
+  };
+  
+  // Let the user choose between a full backup and a spreadsheet export
   const handleExportData = () => {
-    Alert.alert('Export', 'Your data will be exported (feature not implemented)');
+    Alert.alert(
+      'Export Your Data',
+      'A full backup can be imported again on another device. CSV contains emotion values only.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => runExport(exportDiaryAsCsv) },
+        { text: 'Full Backup', onPress: () => runExport(exportDiaryAsJson) },
+      ]
+    );
+  };
+  
+  // Merge a full backup into the diary
+  const handleImportData = async () => {
+    if (blockedByDemoMode()) {
+      return;
+    }
+    
+    try {
+      const result = await pickAndImportDiary();
+      if (!result) {
+        return; // Cancelled
+      }
+      
+      if (result.errors.length > 0 && result.imported === 0) {
+        Alert.alert('Import Failed', result.errors.join('\n'));
+        return;
+      }
+      
+      const details = [
+        `${result.imported} entries imported`,
+        result.skipped > 0 ? `${result.skipped} already in your diary` : null,
+        result.invalid > 0 ? `${result.invalid} invalid items ignored` : null,
+        result.filesRestored > 0 ? `${result.filesRestored} drawings and recordings restored` : null,
+        result.errors.length > 0 ? `${result.errors.length} errors` : null,
+      ].filter(Boolean).join('\n');
+      
+      Alert.alert('Import Complete', details);
+    } catch (error) {
+      console.error('Failed to import data:', error);
+      Alert.alert('Import Failed', 'The selected file could not be read.');
+    }
   };
 
   return (
@@ -53,15 +436,27 @@ const SettingsScreen: React.FC = () => {
         <Text style={styles.sectionTitle}>App Settings</Text>
         
         {/* General settings */}
+        <View style={styles.settingsGroup}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleAppearancePress}>
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="moon" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Appearance</Text>
+            </View>
+            <Text style={styles.settingValue}>{THEME_MODE_LABELS[themeMode]}</Text>
+          </TouchableOpacity>
+        </View>
+        
+        {/* Privacy settings */}
+        <Text style={styles.sectionTitle}>Privacy & Security</Text>
         <View style={styles.settingsGroup}>
           <View style={styles.settingItem}>
             <View style={styles.settingLabelContainer}>
-              <Ionicons name="notifications" size={22} color={theme.colors.primary} />
-              <Text style={styles.settingLabel}>Notifications</Text>
+              <Ionicons name="keypad" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>App Lock (PIN)</Text>
             </View>
             <Switch
-              value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              value={appLock.enabled}
+              onValueChange={value => openPinPrompt(value ? 'set' : 'remove')}
               trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
               thumbColor="#fff"
             />
@@ -69,64 +464,98 @@ const SettingsScreen: React.FC = () => {
           
           <View style={styles.settingItem}>
             <View style={styles.settingLabelContainer}>
-              <Ionicons name="moon" size={22} color={theme.colors.primary} />
-              <Text style={styles.settingLabel}>Dark Mode</Text>
+              <Ionicons name="finger-print" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Biometric Authentication</Text>
             </View>
             <Switch
-              value={darkModeEnabled}
-              onValueChange={setDarkModeEnabled}
+              value={appLock.biometricsEnabled}
+              onValueChange={handleBiometricsChange}
+              disabled={!appLock.enabled}
               trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
               thumbColor="#fff"
             />
           </View>
           
+          {appLock.enabled && (
+            <>
+              <TouchableOpacity style={styles.actionButton} onPress={handleAutoLockPress}>
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="time" size={22} color={theme.colors.primary} />
+                  <Text style={styles.settingLabel}>Auto-Lock</Text>
+                </View>
+                <Text style={styles.settingValue}>{autoLockLabel}</Text>
+              </TouchableOpacity>
+              
+              <TouchableOpacity style={styles.actionButton} onPress={() => openPinPrompt('set')}>
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="key" size={22} color={theme.colors.primary} />
+                  <Text style={styles.settingLabel}>Change PIN</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+              </TouchableOpacity>
+              
+              <TouchableOpacity style={styles.actionButton} onPress={appLock.lock}>
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="lock-closed" size={22} color={theme.colors.primary} />
+                  <Text style={styles.settingLabel}>Lock Now</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+              </TouchableOpacity>
+            </>
+          )}
+          
+          
           <View style={styles.settingItem}>
             <View style={styles.settingLabelContainer}>
-              <Ionicons name="location" size={22} color={theme.colors.primary} />
-              <Text style={styles.settingLabel}>Location Tracking</Text>
+              <Ionicons name="lock-closed" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Encrypt Diary</Text>
             </View>
             <Switch
-              value={locationEnabled}
-              onValueChange={setLocationEnabled}
+              value={encryptionEnabled}
+              onValueChange={value => openPassphrasePrompt(value ? 'enable' : 'disable')}
               trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
               thumbColor="#fff"
             />
           </View>
+          
+          {encryptionEnabled && (
+            <>
+              <TouchableOpacity style={styles.actionButton} onPress={() => openPassphrasePrompt('change')}>
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="key" size={22} color={theme.colors.primary} />
+                  <Text style={styles.settingLabel}>Change Passphrase</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+              </TouchableOpacity>
+              
+              <TouchableOpacity style={styles.actionButton} onPress={() => openPassphrasePrompt('rotate')}>
+                <View style={styles.settingLabelContainer}>
+                  <Ionicons name="refresh" size={22} color={theme.colors.primary} />
+                  <Text style={styles.settingLabel}>Rotate Encryption Key</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+              </TouchableOpacity>
+            </>
+          )}
         </View>
         
-        {/* Privacy settings */}
-        <Text style={styles.sectionTitle}>Privacy & Security</Text>
+        {/* Data management */}
+        <Text style={styles.sectionTitle}>Data Management</Text>
         <View style={styles.settingsGroup}>
           <View style={styles.settingItem}>
             <View style={styles.settingLabelContainer}>
-              <Ionicons name="finger-print" size={22} color={theme.colors.primary} />
-              <Text style={styles.settingLabel}>Biometric Authentication</Text>
+              <Ionicons name="flask" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Demo Mode</Text>
             </View>
             <Switch
-              value={biometricsEnabled}
-              onValueChange={setBiometricsEnabled}
+              value={settings.demoMode}
+              onValueChange={handleDemoModeChange}
+              disabled={demoBusy}
               trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
               thumbColor="#fff"
             />
           </View>
           
-          <View style={styles.settingItem}>
-            <View style={styles.settingLabelContainer}>
-              <Ionicons name="analytics" size={22} color={theme.colors.primary} />
-              <Text style={styles.settingLabel}>Anonymous Data Collection</Text>
-            </View>
-            <Switch
-              value={dataCollection}
-              onValueChange={setDataCollection}
-              trackColor={{ false: theme.colors.lightGray, true: theme.colors.primary }}
-              thumbColor="#fff"
-            />
-          </View>
-        </View>
-        
-        {/* Data management */}
-        <Text style={styles.sectionTitle}>Data Management</Text>
-        <View style={styles.settingsGroup}>
           <TouchableOpacity style={styles.actionButton} onPress={handleExportData}>
             <View style={styles.settingLabelContainer}>
               <Ionicons name="download" size={22} color={theme.colors.primary} />
@@ -135,6 +564,22 @@ const SettingsScreen: React.FC = () => {
             <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
           </TouchableOpacity>
           
+          <TouchableOpacity style={styles.actionButton} onPress={handleImportData}>
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="cloud-upload" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Import Data</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+          </TouchableOpacity>
+          
+          <TouchableOpacity style={styles.actionButton} onPress={handleCleanUpFiles}>
+            <View style={styles.settingLabelContainer}>
+              <Ionicons name="file-tray" size={22} color={theme.colors.primary} />
+              <Text style={styles.settingLabel}>Clean Up Unused Files</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.textLight} />
+          </TouchableOpacity>
+          
           <TouchableOpacity 
             style={[styles.actionButton, styles.dangerButton]} 
             onPress={handleClearData}
@@ -174,11 +619,34 @@ const SettingsScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
       </ScrollView>
+      
+      {passphraseAction && (
+        <PassphraseModal
+          visible
+          {...PASSPHRASE_PROMPTS[passphraseAction]}
+          error={passphraseError}
+          busy={passphraseBusy}
+          onSubmit={handlePassphraseSubmit}
+          onCancel={() => setPassphraseAction(null)}
+        />
+      )}
+      
+      {pinAction && (
+        <PassphraseModal
+          visible
+          {...PIN_PROMPTS[pinAction]}
+          keyboardType="number-pad"
+          maxLength={MAX_PIN_LENGTH}
+          error={pinError}
+          onSubmit={handlePinSubmit}
+          onCancel={() => setPinAction(null)}
+        />
+      )}
     </SafeAreaView>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (theme: AppTheme) => StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.background,
@@ -217,6 +685,10 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     marginLeft: theme.spacing.sm,
   },
+  settingValue: {
+    fontSize: theme.typography.fontSizes.sm,
+    color: theme.colors.textLight,
+  },
   actionButton: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { EmotionData } from '../../types';
+import { createMemoryRepository } from '../repositories';
+import {
+  createStubTranscriptionEngine,
+  registerTranscriptionEngine,
+  transcribeRecording,
+} from '../audioService';
+import { buildMoodEntry, saveCapture } from '../captureService';
+import { initStorage, searchMoodEntries } from '../storage';
+
+// In-memory stand-in for the document directory
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+  getInfoAsync: jest.fn(async (path: string) => ({ exists: mockFiles.has(path) })),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  readAsStringAsync: jest.fn(async (path: string) => {
+    const contents = mockFiles.get(path);
+    if (contents === undefined) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return contents;
+  }),
+  writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+    mockFiles.set(path, contents);
+  }),
+  deleteAsync: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+}));
+
+// Not installed for tests; only the legacy index cleanup touches it
+jest.mock('expo-secure-store', () => ({
+  deleteItemAsync: jest.fn(async () => undefined),
+}), { virtual: true });
+
+// Not installed for tests; only saving to the photo library uses it
+jest.mock('expo-media-library', () => ({}), { virtual: true });
+
+const RECORDING_URI = 'file:///documents/recordings/recording_1.wav';
+
+const NEUTRAL: EmotionData = {
+  joy: 0,
+  sadness: 0,
+  anger: 0,
+  fear: 0,
+  surprise: 0,
+  disgust: 0,
+  contentment: 0,
+  neutral: 1,
+  energy: 50,
+  calmness: 50,
+  tension: 50,
+};
+
+beforeEach(async () => {
+  mockFiles.clear();
+  mockFiles.set(
+    RECORDING_URI,
+    readFileSync(join(__dirname, '../../utils/__tests__/fixtures/audio/speech_200hz.wav')).toString('base64')
+  );
+  await initStorage(createMemoryRepository());
+});
+
+afterEach(() => {
+  registerTranscriptionEngine(null);
+});
+
+describe('voice transcripts', () => {
+  it('are classified as the text input of the entry and found by search', async () => {
+    registerTranscriptionEngine(createStubTranscriptionEngine({
+      'recording_1.wav': 'I am so happy and excited about the trip',
+    }));
+
+    const transcript = await transcribeRecording(RECORDING_URI);
+    expect(transcript).toBe('I am so happy and excited about the trip');
+
+    const entry = buildMoodEntry({ modalities: [], fallbackEmotions: NEUTRAL, transcript: transcript! });
+    expect(entry.transcript).toBe(transcript);
+    expect(entry.source).toBe('text');
+    expect(entry.dominantEmotion).toBe('joy');
+    expect(entry.modalities).toEqual([expect.objectContaining({ modality: 'text' })]);
+
+    const saved = await saveCapture({ modalities: [], fallbackEmotions: NEUTRAL, transcript: transcript! });
+    const found = await searchMoodEntries('excited');
+    expect(found.map(result => result.id)).toEqual([saved!.id]);
+  });
+
+  it('are left out without a transcription engine', async () => {
+    expect(await transcribeRecording(RECORDING_URI)).toBeNull();
+  });
+
+  it('add no text input when they carry no emotional cues', () => {
+    const entry = buildMoodEntry({
+      modalities: [],
+      fallbackEmotions: NEUTRAL,
+      transcript: 'Meeting at 3pm',
+    });
+
+    expect(entry.transcript).toBe('Meeting at 3pm');
+    expect(entry.source).toBe('sliders');
+  });
+});
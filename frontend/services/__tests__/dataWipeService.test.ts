@@ -0,0 +1,109 @@
+import { EmotionData, MoodEntryAttachment } from '../../types';
+import { DRAWINGS_DIR } from '../../utils/fileSystemUtils';
+import { RECORDINGS_DIR } from '../audioService';
+import { buildMoodEntry } from '../captureService';
+import { wipeData } from '../dataWipeService';
+import { createMemoryRepository } from '../repositories';
+import { getMoodEntry, initStorage, saveMoodEntry } from '../storage';
+
+// In-memory stand-in for the document directory
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { Base64: 'base64', UTF8: 'utf8' },
+  getInfoAsync: jest.fn(async (path: string) => ({
+    exists: mockFiles.has(path) || Array.from(mockFiles.keys()).some(file => file.startsWith(path)),
+  })),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  readDirectoryAsync: jest.fn(async (dir: string) =>
+    Array.from(mockFiles.keys())
+      .filter(file => file.startsWith(dir) && !file.slice(dir.length).includes('/'))
+      .map(file => file.slice(dir.length))
+  ),
+  readAsStringAsync: jest.fn(async (path: string) => {
+    const contents = mockFiles.get(path);
+    if (contents === undefined) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return contents;
+  }),
+  writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+    mockFiles.set(path, contents);
+  }),
+  deleteAsync: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+}));
+
+// Not installed for tests; only the legacy index cleanup touches it
+jest.mock('expo-secure-store', () => ({
+  deleteItemAsync: jest.fn(async () => undefined),
+}), { virtual: true });
+
+// Not installed for tests; only saving to the photo library uses it
+jest.mock('expo-media-library', () => ({}), { virtual: true });
+
+const NEUTRAL: EmotionData = {
+  joy: 0,
+  sadness: 0,
+  anger: 0,
+  fear: 0,
+  surprise: 0,
+  disgust: 0,
+  contentment: 0,
+  neutral: 1,
+  energy: 50,
+  calmness: 50,
+  tension: 50,
+};
+
+const DRAWING: MoodEntryAttachment = {
+  kind: 'drawing',
+  uri: `${DRAWINGS_DIR}drawing_1717171717171.json`,
+  createdAt: 1717171717171,
+};
+
+const RECORDING: MoodEntryAttachment = {
+  kind: 'voice',
+  uri: `${RECORDINGS_DIR}recording_1717171717171.wav`,
+  createdAt: 1717171717171,
+};
+
+beforeEach(async () => {
+  mockFiles.clear();
+  mockFiles.set(DRAWING.uri, '[]');
+  mockFiles.set(RECORDING.uri, '');
+  await initStorage(createMemoryRepository());
+
+  const entry = buildMoodEntry({
+    modalities: [],
+    fallbackEmotions: NEUTRAL,
+    drawingData: '[]',
+    attachments: [DRAWING, RECORDING],
+  }, 1717171717171);
+  await saveMoodEntry({ ...entry, id: 'entry_1' });
+});
+
+describe('wiping media', () => {
+  it('takes the deleted files off the entries that listed them', async () => {
+    const summary = await wipeData({ categories: ['drawings'] });
+
+    expect(summary.drawings).toBe(1);
+    expect(summary.errors).toEqual([]);
+    expect(mockFiles.has(DRAWING.uri)).toBe(false);
+
+    const entry = await getMoodEntry('entry_1');
+    expect(entry?.attachments).toEqual([RECORDING]);
+    expect(entry?.drawingData).toBeUndefined();
+  });
+
+  it('leaves entries alone when none of their files were deleted', async () => {
+    const summary = await wipeData({ categories: ['faceImages'] });
+
+    expect(summary.faceImages).toBe(0);
+    const entry = await getMoodEntry('entry_1');
+    expect(entry?.attachments).toEqual([DRAWING, RECORDING]);
+    expect(entry?.drawingData).toBe('[]');
+  });
+});
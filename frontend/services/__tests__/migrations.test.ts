@@ -0,0 +1,139 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+  migrateMoodEntry,
+} from '../migrations';
+import v0Entries from './fixtures/moodEntries/v0.json';
+import v1Entries from './fixtures/moodEntries/v1.json';
+import v2Entries from './fixtures/moodEntries/v2.json';
+import v3Entries from './fixtures/moodEntries/v3.json';
+
+// Stored entries as written at each schema version. Each file is what the
+// previous one migrates to, one step at a time.
+const FIXTURES: Record<string, any>[][] = [v0Entries, v1Entries, v2Entries, v3Entries];
+
+// Drop the version stamp, which migrateMoodEntry sets and the steps themselves carry through
+const withoutVersion = ({ schemaVersion, ...entry }: Record<string, any>) => entry;
+
+describe('MIGRATIONS', () => {
+  it('has one step per version, in order, up to the current schema', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, index) => index + 1)
+    );
+    expect(FIXTURES).toHaveLength(CURRENT_SCHEMA_VERSION + 1);
+  });
+
+  describe.each(MIGRATIONS.map(migration => [migration.version, migration] as const))(
+    'v%i step',
+    (version, migration) => {
+      const before = FIXTURES[version - 1];
+      const after = FIXTURES[version];
+
+      it.each(before.map((entry, index) => [entry.id, index] as const))('migrates %s', (_, index) => {
+        expect(withoutVersion(migration.migrate(before[index]))).toEqual(withoutVersion(after[index]));
+      });
+
+      it('is stamped with its version by migrateMoodEntry', () => {
+        before.forEach((entry, index) => {
+          expect(migrateMoodEntry(entry, MIGRATIONS.slice(0, version))).toEqual(after[index]);
+        });
+      });
+
+      it('leaves the input entry unchanged', () => {
+        const copy = JSON.parse(JSON.stringify(before));
+        before.forEach(entry => migration.migrate(entry));
+        expect(before).toEqual(copy);
+      });
+    }
+  );
+
+  describe('v1 step', () => {
+    const [migrateToV1] = MIGRATIONS;
+
+    it('falls back to the current time when the entry has no timestamp', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+      try {
+        const migrated = migrateToV1.migrate({ id: 'undated' });
+        expect(migrated.timestamp).toBe(1700000000000);
+        expect(migrated.createdAt).toBe(1700000000000);
+        expect(migrated.date).toBe('2023-11-14');
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('leaves tags and isFavorite out when the entry had none', () => {
+      const migrated = migrateToV1.migrate({ id: 'bare', timestamp: 1700000000000 });
+      expect(migrated).not.toHaveProperty('tags');
+      expect(migrated).not.toHaveProperty('isFavorite');
+    });
+  });
+
+  describe('v3 step', () => {
+    const migrateToV3 = MIGRATIONS[2];
+
+    it('moves drawingUri and voiceRecordingUri into attachments', () => {
+      const [legacy] = v2Entries as Record<string, any>[];
+      const migrated = migrateToV3.migrate(legacy);
+
+      expect(migrated).not.toHaveProperty('drawingUri');
+      expect(migrated).not.toHaveProperty('voiceRecordingUri');
+      expect(migrated.attachments).toEqual([
+        { kind: 'drawing', uri: legacy.drawingUri, createdAt: legacy.createdAt },
+        { kind: 'voice', uri: legacy.voiceRecordingUri, createdAt: legacy.createdAt },
+      ]);
+    });
+
+    it('keeps existing attachments ahead of the moved files', () => {
+      const face = { kind: 'face', uri: 'file:///documents/face_images/face.jpg', createdAt: 1 };
+      const migrated = migrateToV3.migrate({
+        id: 'mixed',
+        createdAt: 2,
+        drawingUri: 'file:///documents/drawings/drawing.json',
+        attachments: [face],
+      });
+
+      expect(migrated.attachments).toEqual([
+        face,
+        { kind: 'drawing', uri: 'file:///documents/drawings/drawing.json', createdAt: 2 },
+      ]);
+    });
+  });
+});
+
+describe('migrateMoodEntry', () => {
+  it('upgrades unversioned entries to the current schema', () => {
+    v0Entries.forEach((entry, index) => {
+      expect(migrateMoodEntry(entry)).toEqual(v3Entries[index]);
+    });
+  });
+
+  it.each([1, 2])('upgrades v%i entries to the current schema', version => {
+    FIXTURES[version].forEach((entry, index) => {
+      expect(migrateMoodEntry(entry)).toEqual(v3Entries[index]);
+    });
+  });
+
+  it('leaves current entries as they are', () => {
+    v3Entries.forEach(entry => {
+      expect(migrateMoodEntry(entry)).toEqual(entry);
+    });
+  });
+
+  it('leaves entries from a newer schema untouched', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const future = { ...v3Entries[0], schemaVersion: CURRENT_SCHEMA_VERSION + 1, mood: 'new field' };
+
+    expect(migrateMoodEntry(future)).toBe(future);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('reads unversioned entries as version 0', () => {
+    expect(getSchemaVersion(v0Entries[0])).toBe(0);
+    FIXTURES.slice(1).forEach((entries, index) => {
+      entries.forEach(entry => expect(getSchemaVersion(entry)).toBe(index + 1));
+    });
+  });
+});
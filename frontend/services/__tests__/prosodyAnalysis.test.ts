@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PcmAudio, decodeWav } from '../../utils/wavDecoder';
+import {
+  extractProsodyFeatures,
+  extractProsodyTimeline,
+  findSpeechBounds,
+  prosodyToEmotions,
+} from '../prosodyAnalysis';
+
+// Bundled recordings, shared with the WAV decoder tests:
+// - speech_200hz: 0.5s room tone, 1.5s of a steady 200 Hz voice with a
+//   4 Hz syllable rhythm, 0.5s room tone
+// - room_tone: 1s of background noise only
+const loadFixture = (name: string): PcmAudio =>
+  decodeWav(new Uint8Array(readFileSync(join(__dirname, '../../utils/__tests__/fixtures/audio', name))))!;
+
+describe('findSpeechBounds', () => {
+  const speech = loadFixture('speech_200hz.wav');
+
+  it('finds the speech between the room tone', () => {
+    const bounds = findSpeechBounds(speech)!;
+    expect(bounds.start).toBeCloseTo(0.5, 1);
+    expect(bounds.end).toBeCloseTo(2.0, 1);
+  });
+
+  it('pads the bounds without going past either end of the recording', () => {
+    const bounds = findSpeechBounds(speech)!;
+    const padded = findSpeechBounds(speech, 0.2)!;
+    expect(padded.start).toBeCloseTo(bounds.start - 0.2, 5);
+    expect(padded.end).toBeCloseTo(bounds.end + 0.2, 5);
+
+    expect(findSpeechBounds(speech, 5)).toEqual({ start: 0, end: 2.5 });
+  });
+
+  it('returns null when there is no speech', () => {
+    expect(findSpeechBounds(loadFixture('room_tone.wav'))).toBeNull();
+  });
+});
+
+describe('extractProsodyFeatures', () => {
+  const features = extractProsodyFeatures(loadFixture('speech_200hz.wav'))!;
+
+  it('measures the speech and leaves out the room tone', () => {
+    expect(features.duration).toBeCloseTo(2.5, 1);
+    expect(features.speechDuration).toBeCloseTo(1.5, 1);
+    expect(features.pauseRatio).toBeLessThan(0.1);
+  });
+
+  it('tracks the pitch of the voice', () => {
+    expect(features.meanPitch).toBeGreaterThan(190);
+    expect(features.meanPitch).toBeLessThan(210);
+    expect(features.pitchVariability).toBeLessThan(0.5);
+    expect(features.jitter).toBeLessThan(0.02);
+  });
+
+  it('counts the syllable rhythm', () => {
+    expect(features.speakingRate).toBeGreaterThan(2);
+    expect(features.speakingRate).toBeLessThan(6);
+  });
+
+  it('keeps one contour value per frame', () => {
+    expect(features.pitchContour).toHaveLength(features.rmsContour.length);
+  });
+
+  it('returns null when there is too little speech', () => {
+    expect(extractProsodyFeatures(loadFixture('room_tone.wav'))).toBeNull();
+  });
+});
+
+describe('extractProsodyTimeline', () => {
+  it('leaves out windows without speech', () => {
+    const windows = extractProsodyTimeline(loadFixture('speech_200hz.wav'));
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start).toBe(0);
+    expect(windows[0].features.meanPitch).toBeCloseTo(200, -1);
+  });
+});
+
+describe('prosodyToEmotions', () => {
+  it('gives a distribution over the discrete emotions', () => {
+    const { energy, calmness, tension, ...emotions } = prosodyToEmotions(
+      extractProsodyFeatures(loadFixture('speech_200hz.wav'))!
+    );
+    const total = Object.values(emotions).reduce((sum, value) => sum + value, 0);
+    expect(total).toBeCloseTo(1, 5);
+    [energy, calmness, tension].forEach(dimension => {
+      expect(dimension).toBeGreaterThanOrEqual(0);
+      expect(dimension).toBeLessThanOrEqual(100);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { DiscreteEmotion } from '../../types';
+import { DISCRETE_EMOTIONS } from '../../constants/emotions';
+import { classifyText, tokenize } from '../textEmotionClassifier';
+import corpus from './fixtures/textEmotionCorpus.json';
+
+interface LabelledText {
+  text: string;
+  label: DiscreteEmotion; // What a reader would call the text
+  leaning?: DiscreteEmotion; // Emotion a mostly neutral text should still lean towards
+  covers: string; // What the example exercises
+}
+
+// Emotions from strongest to weakest
+const ranked = (text: string): DiscreteEmotion[] => {
+  const { emotions } = classifyText(text);
+  return [...DISCRETE_EMOTIONS].sort((a, b) => emotions[b] - emotions[a]);
+};
+
+describe('classifyText on the labelled corpus', () => {
+  const examples = corpus as LabelledText[];
+
+  it.each(examples.map(example => [example.covers, example.text, example] as const))(
+    '%s: "%s"',
+    (_, text, { label, leaning }) => {
+      const [top, runnerUp] = ranked(text);
+      expect(top).toBe(label);
+      if (leaning) {
+        expect(runnerUp).toBe(leaning);
+        expect(classifyText(text).emotions[leaning]).toBeGreaterThan(0);
+      }
+    }
+  );
+
+  it('gives every example a distribution over the discrete emotions', () => {
+    examples.forEach(({ text }) => {
+      const { emotions } = classifyText(text);
+      const total = DISCRETE_EMOTIONS.reduce((sum, emotion) => sum + emotions[emotion], 0);
+      expect(total).toBeCloseTo(1, 5);
+    });
+  });
+});
+
+describe('classifyText', () => {
+  describe('negation', () => {
+    it('turns a negated emotion word into a milder, different emotion', () => {
+      const { emotions, cues } = classifyText('not happy');
+      expect(emotions.joy).toBe(0);
+      expect(emotions.sadness).toBeGreaterThan(0);
+      expect(emotions.sadness).toBeLessThan(classifyText('sad').emotions.sadness);
+      expect(cues).toEqual([expect.objectContaining({ text: 'happy', negated: true })]);
+    });
+
+    it('only reaches the next few words', () => {
+      const { cues } = classifyText('no time to go out and be happy');
+      expect(cues).toEqual([expect.objectContaining({ text: 'happy', negated: false })]);
+    });
+  });
+
+  describe('intensifiers', () => {
+    it('scale the emotion word that follows', () => {
+      const joy = (text: string) => classifyText(text).emotions.joy;
+      expect(joy('extremely happy')).toBeGreaterThan(joy('very happy'));
+      expect(joy('very happy')).toBeGreaterThan(joy('happy'));
+      expect(joy('happy')).toBeGreaterThan(joy('slightly happy'));
+    });
+
+    it('count shouting and stretched words as emphasis', () => {
+      const anger = (text: string) => classifyText(text).emotions.anger;
+      expect(anger('ANGRY')).toBeGreaterThan(anger('angry'));
+      expect(anger('so angryyyy')).toBeGreaterThan(anger('so angry'));
+    });
+
+    it('strengthen a clause ending in exclamation marks', () => {
+      expect(classifyText('happy!!').emotions.joy).toBeGreaterThan(classifyText('happy').emotions.joy);
+      expect(classifyText('happy!!').emotions.energy).toBeGreaterThan(classifyText('happy').emotions.energy);
+    });
+  });
+
+  describe('contractions', () => {
+    it('expand so the negation is kept', () => {
+      expect(tokenize("can't won't don't").map(token => token.word)).toEqual([
+        'can', 'not', 'will', 'not', 'do', 'nt',
+      ]);
+      expect(classifyText("I don't feel happy").emotions).toEqual(classifyText('I do not feel happy').emotions);
+    });
+
+    it('read curly apostrophes like straight ones', () => {
+      expect(classifyText('I don’t feel happy').emotions).toEqual(classifyText("I don't feel happy").emotions);
+    });
+  });
+
+  describe('emoji and emoticons', () => {
+    it('are read alongside the words', () => {
+      const { cues } = classifyText('sad day 😢');
+      expect(cues.map(cue => cue.text).sort()).toEqual(['sad', '😢'].sort());
+    });
+
+    it('match the longest emoticon', () => {
+      expect(classifyText('oh :-(').cues.map(cue => cue.text)).toEqual([':-(']);
+    });
+
+    it('ignore the emoji presentation selector', () => {
+      expect(classifyText('❤️').emotions).toEqual(classifyText('❤').emotions);
+    });
+  });
+
+  describe('clause breaks', () => {
+    it('end a negation', () => {
+      const { cues } = classifyText('not sad but happy');
+      expect(cues).toEqual([
+        expect.objectContaining({ text: 'sad', negated: true }),
+        expect.objectContaining({ text: 'happy', negated: false }),
+      ]);
+    });
+
+    it('end an intensifier', () => {
+      expect(classifyText('very. happy').emotions).toEqual(classifyText('happy').emotions);
+    });
+  });
+
+  describe('neutral prior', () => {
+    it('leaves text without cues fully neutral', () => {
+      const result = classifyText('Meeting at 3pm');
+      expect(result.evidence).toBe(0);
+      expect(result.cues).toEqual([]);
+      expect(result.emotions).toMatchObject({ neutral: 1, joy: 0, energy: 50, calmness: 50, tension: 50 });
+    });
+
+    it('gives one plain emotion word about 0.7', () => {
+      expect(classifyText('happy').emotions.joy).toBeCloseTo(0.7, 1);
+    });
+
+    it('gives way as evidence builds up', () => {
+      const neutral = (text: string) => classifyText(text).emotions.neutral;
+      expect(neutral('sad')).toBeGreaterThan(neutral('sad and lonely'));
+      expect(neutral('sad and lonely')).toBeGreaterThan(neutral('sad and lonely and hopeless'));
+    });
+  });
+});
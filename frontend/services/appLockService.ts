@@ -0,0 +1,277 @@
+import { Platform } from 'react-native';
+import { getRandomBytes } from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { base64ToBytes, bytesToBase64, utf8ToBytes } from '../utils/encoding';
+import { deleteSecureItem, getSecureItem, setSecureItem } from '../utils/secureStorage';
+
+// Import expo modules conditionally to avoid web build issues
+let LocalAuthentication: any = null;
+
+if (Platform.OS !== 'web') {
+  try {
+    LocalAuthentication = require('expo-local-authentication');
+  } catch (error) {
+    console.warn('Failed to import expo-local-authentication:', error);
+  }
+}
+
+const CONFIG_KEY = 'emotiglass_app_lock';
+
+const PIN_HASH_ITERATIONS = 50000;
+const SALT_BYTES = 16;
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+// Failed attempts allowed before each lockout
+export const MAX_PIN_ATTEMPTS = 5;
+
+// Lockout after each further round of failed attempts; the last one repeats
+const LOCKOUT_DURATIONS = [30 * 1000, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+
+/**
+ * How long the app may stay in the background before it locks
+ */
+export const AUTO_LOCK_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Immediately', value: 0 },
+  { label: 'After 1 minute', value: 60 * 1000 },
+  { label: 'After 5 minutes', value: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', value: 15 * 60 * 1000 },
+];
+
+const DEFAULT_AUTO_LOCK_TIMEOUT = 60 * 1000;
+
+/**
+ * Stored app lock settings. Attempt counters are persisted so restarting the
+ * app doesn't reset a lockout.
+ */
+export interface AppLockConfig {
+  pinHash: string;
+  salt: string;
+  iterations: number;
+  biometricsEnabled: boolean;
+  autoLockTimeout: number; // Milliseconds in the background before locking
+  failedAttempts: number;
+  lockedUntil: number | null; // Timestamp when the current lockout ends
+}
+
+export interface PinVerifyResult {
+  success: boolean;
+  remainingAttempts: number; // Before the next lockout
+  lockedUntil: number | null;
+}
+
+let config: AppLockConfig | null = null;
+
+const saveConfig = async (next: AppLockConfig | null): Promise<void> => {
+  if (next) {
+    await setSecureItem(CONFIG_KEY, JSON.stringify(next));
+  } else {
+    await deleteSecureItem(CONFIG_KEY);
+  }
+  config = next;
+};
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const hash = await pbkdf2Async(sha256, utf8ToBytes(pin), salt, { c: iterations, dkLen: 32 });
+  return bytesToBase64(hash);
+};
+
+// Compare without stopping at the first difference
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+/**
+ * Check that a PIN is the right length and only digits
+ * @param pin PIN to check
+ * @returns Error message, or null if the PIN is acceptable
+ */
+export const validatePin = (pin: string): string | null => {
+  if (!/^\d+$/.test(pin)) {
+    return 'The PIN can only contain digits.';
+  }
+  if (pin.length < MIN_PIN_LENGTH || pin.length > MAX_PIN_LENGTH) {
+    return `The PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits long.`;
+  }
+  return null;
+};
+
+/**
+ * Load the app lock settings. Call once at startup.
+ * @returns Stored settings, or null if no PIN is set
+ */
+export const initAppLock = async (): Promise<AppLockConfig | null> => {
+  try {
+    const configJson = await getSecureItem(CONFIG_KEY);
+    config = configJson ? JSON.parse(configJson) as AppLockConfig : null;
+  } catch (error) {
+    console.error('[appLockService] Failed to load app lock settings:', error);
+    config = null;
+  }
+  return config;
+};
+
+/**
+ * Current app lock settings, or null if no PIN is set
+ */
+export const getAppLockConfig = (): AppLockConfig | null => config;
+
+/**
+ * Set or replace the PIN. Resets any lockout.
+ * @param pin New PIN
+ */
+export const setPin = async (pin: string): Promise<void> => {
+  const validationError = validatePin(pin);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const salt = getRandomBytes(SALT_BYTES);
+
+  await saveConfig({
+    biometricsEnabled: false,
+    autoLockTimeout: DEFAULT_AUTO_LOCK_TIMEOUT,
+    ...config,
+    pinHash: await hashPin(pin, salt, PIN_HASH_ITERATIONS),
+    salt: bytesToBase64(salt),
+    iterations: PIN_HASH_ITERATIONS,
+    failedAttempts: 0,
+    lockedUntil: null,
+  });
+};
+
+/**
+ * Milliseconds until PIN entry is allowed again, 0 if not locked out
+ */
+export const getLockoutRemaining = (): number => {
+  if (!config || !config.lockedUntil) {
+    return 0;
+  }
+  return Math.max(0, config.lockedUntil - Date.now());
+};
+
+/**
+ * Check a PIN, counting failures towards a lockout
+ * @param pin Entered PIN
+ * @returns Whether it matched and how many attempts remain
+ */
+export const verifyPin = async (pin: string): Promise<PinVerifyResult> => {
+  if (!config) {
+    return { success: true, remainingAttempts: MAX_PIN_ATTEMPTS, lockedUntil: null };
+  }
+
+  // Attempts during a lockout are rejected without checking the PIN
+  if (getLockoutRemaining() > 0) {
+    return { success: false, remainingAttempts: 0, lockedUntil: config.lockedUntil };
+  }
+
+  const pinHash = await hashPin(pin, base64ToBytes(config.salt), config.iterations);
+
+  if (constantTimeEquals(pinHash, config.pinHash)) {
+    await saveConfig({ ...config, failedAttempts: 0, lockedUntil: null });
+    return { success: true, remainingAttempts: MAX_PIN_ATTEMPTS, lockedUntil: null };
+  }
+
+  const failedAttempts = config.failedAttempts + 1;
+  const remainder = failedAttempts % MAX_PIN_ATTEMPTS;
+  let lockedUntil: number | null = null;
+
+  if (remainder === 0) {
+    const round = Math.min(failedAttempts / MAX_PIN_ATTEMPTS, LOCKOUT_DURATIONS.length) - 1;
+    lockedUntil = Date.now() + LOCKOUT_DURATIONS[round];
+  }
+
+  await saveConfig({ ...config, failedAttempts, lockedUntil });
+
+  return {
+    success: false,
+    remainingAttempts: remainder === 0 ? 0 : MAX_PIN_ATTEMPTS - remainder,
+    lockedUntil,
+  };
+};
+
+/**
+ * Turn the app lock off
+ * @param pin Current PIN
+ * @returns Whether the PIN matched and the lock was removed
+ */
+export const removePin = async (pin: string): Promise<boolean> => {
+  const result = await verifyPin(pin);
+  if (!result.success) {
+    return false;
+  }
+
+  await saveConfig(null);
+  return true;
+};
+
+/**
+ * Whether the device has biometrics set up that can unlock the app
+ */
+export const isBiometricsAvailable = async (): Promise<boolean> => {
+  if (!LocalAuthentication) {
+    return false;
+  }
+
+  try {
+    const hasHardware = await LocalAuthentication.hasHardwareAsync();
+    return hasHardware && await LocalAuthentication.isEnrolledAsync();
+  } catch (error) {
+    console.error('[appLockService] Failed to check biometrics:', error);
+    return false;
+  }
+};
+
+/**
+ * Ask for fingerprint or face unlock
+ * @returns Whether the user authenticated
+ */
+export const authenticateWithBiometrics = async (): Promise<boolean> => {
+  if (!config?.biometricsEnabled || !LocalAuthentication) {
+    return false;
+  }
+
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: 'Unlock EmotiGlass',
+      cancelLabel: 'Use PIN',
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.error('[appLockService] Biometric authentication failed:', error);
+    return false;
+  }
+};
+
+/**
+ * Allow or stop biometric unlock. Requires a PIN to be set.
+ * @param enabled Whether biometrics may unlock the app
+ */
+export const setBiometricsEnabled = async (enabled: boolean): Promise<void> => {
+  if (!config) {
+    throw new Error('Set a PIN before enabling biometric unlock');
+  }
+  await saveConfig({ ...config, biometricsEnabled: enabled });
+};
+
+/**
+ * Change how long the app may stay in the background before locking
+ * @param timeout Milliseconds, 0 to lock as soon as the app is backgrounded
+ */
+export const setAutoLockTimeout = async (timeout: number): Promise<void> => {
+  if (!config) {
+    throw new Error('Set a PIN before changing the auto-lock timeout');
+  }
+  await saveConfig({ ...config, autoLockTimeout: timeout });
+};
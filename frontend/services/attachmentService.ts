@@ -0,0 +1,173 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AttachmentKind, MoodEntryAttachment, VoiceEmotionSegment } from '../types';
+import { RECORDINGS_DIR } from './audioService';
+import { FACE_IMAGES_DIR } from './faceAnalysis';
+import { SEALED_FILE_SUFFIX } from './encryptionService';
+import { DRAWINGS_DIR, VOICE_RECORDINGS_DIR } from '../utils/fileSystemUtils';
+
+/**
+ * Directories each kind of attachment is saved in. Older builds saved voice
+ * notes in voice_recordings/, so both recording directories are listed.
+ */
+export const ATTACHMENT_DIRECTORIES: Record<AttachmentKind, string[]> = {
+  drawing: [DRAWINGS_DIR],
+  voice: [RECORDINGS_DIR, VOICE_RECORDINGS_DIR],
+  face: [FACE_IMAGES_DIR],
+};
+
+const getFileName = (uri: string): string => uri.substring(uri.lastIndexOf('/') + 1);
+
+/**
+ * Name that identifies an attachment's file whether or not it is sealed.
+ * Turning encryption on or off renames files (photo.jpg <-> photo.jpg.enc),
+ * so uris on entries can't be compared directly.
+ * @param uri File uri, sealed or not
+ * @returns File name without the sealed suffix
+ */
+export const getAttachmentFileKey = (uri: string): string => {
+  const name = getFileName(uri);
+  return name.endsWith(SEALED_FILE_SUFFIX) ? name.slice(0, -SEALED_FILE_SUFFIX.length) : name;
+};
+
+// Every place the file may be now: as saved, with the sealed suffix added or
+// dropped, and under the kind's directories (backups restored on another
+// install have a different document directory)
+const getCandidateUris = (attachment: MoodEntryAttachment): string[] => {
+  const key = getAttachmentFileKey(attachment.uri);
+  const directories = [
+    attachment.uri.substring(0, attachment.uri.lastIndexOf('/') + 1),
+    ...ATTACHMENT_DIRECTORIES[attachment.kind],
+  ];
+
+  const candidates = [attachment.uri];
+  directories.forEach(dir => {
+    candidates.push(dir + key, dir + key + SEALED_FILE_SUFFIX);
+  });
+  return Array.from(new Set(candidates));
+};
+
+/**
+ * Describe a saved file as an attachment, recording its size and checksum
+ * @param kind What the file is
+ * @param uri Where it was saved
+ * @param details Extra details, e.g. a recording's duration in seconds and
+ * its emotion timeline
+ * @returns The attachment, or null if the file does not exist
+ */
+export const createAttachment = async (
+  kind: AttachmentKind,
+  uri: string,
+  details: { duration?: number; timeline?: VoiceEmotionSegment[] } = {}
+): Promise<MoodEntryAttachment | null> => {
+  const attachment: MoodEntryAttachment = { kind, uri, createdAt: Date.now() };
+  if (details.duration !== undefined) {
+    attachment.duration = details.duration;
+  }
+  if (details.timeline && details.timeline.length > 0) {
+    attachment.timeline = details.timeline;
+  }
+
+  if (Platform.OS === 'web') {
+    return attachment;
+  }
+
+  try {
+    const info = await FileSystem.getInfoAsync(uri, { size: true, md5: true });
+    if (!info.exists) {
+      console.error(`[attachmentService] Cannot attach missing file ${uri}`);
+      return null;
+    }
+
+    if ('size' in info && typeof info.size === 'number') {
+      attachment.size = info.size;
+    }
+    if ('md5' in info && info.md5) {
+      attachment.checksum = info.md5;
+    }
+    return attachment;
+  } catch (error) {
+    console.error(`[attachmentService] Failed to read ${uri}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find an attachment's file, following renames made by encryption changes
+ * @param attachment Attachment from a mood entry
+ * @returns Current uri of the file, or null if it is gone
+ */
+export const resolveAttachmentUri = async (attachment: MoodEntryAttachment): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return attachment.uri;
+  }
+
+  for (const uri of getCandidateUris(attachment)) {
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (info.exists) {
+        return uri;
+      }
+    } catch (error) {
+      // Not readable there; try the next place
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check an attachment's file is still the one that was attached. Checksums
+ * are of the stored bytes, so a file re-encrypted since can only be checked
+ * for presence.
+ * @param attachment Attachment from a mood entry
+ * @returns 'ok', 'missing', or 'changed' when the checksum no longer matches
+ */
+export const verifyAttachment = async (
+  attachment: MoodEntryAttachment
+): Promise<'ok' | 'missing' | 'changed'> => {
+  const uri = await resolveAttachmentUri(attachment);
+  if (!uri) {
+    return 'missing';
+  }
+  if (Platform.OS === 'web' || !attachment.checksum || uri !== attachment.uri) {
+    return 'ok';
+  }
+
+  try {
+    const info = await FileSystem.getInfoAsync(uri, { md5: true });
+    return info.exists && 'md5' in info && info.md5 !== attachment.checksum ? 'changed' : 'ok';
+  } catch (error) {
+    console.error(`[attachmentService] Failed to verify ${uri}:`, error);
+    return 'ok';
+  }
+};
+
+/**
+ * Delete the files of removed entries
+ * @param attachments Attachments of the removed entries
+ * @returns Number of files deleted
+ */
+export const deleteAttachments = async (attachments: MoodEntryAttachment[]): Promise<number> => {
+  if (Platform.OS === 'web') {
+    return 0;
+  }
+
+  let deleted = 0;
+
+  for (const attachment of attachments) {
+    const uri = await resolveAttachmentUri(attachment);
+    if (!uri) {
+      continue;
+    }
+
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      deleted++;
+    } catch (error) {
+      console.error(`[attachmentService] Failed to delete ${uri}:`, error);
+    }
+  }
+
+  return deleted;
+};
@@ -1,10 +1,141 @@
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
-import { EmotionData, EmotionAnalysisResult } from '../types';
-import { analyzeEmotions } from './emotionAnalysis';
+import { Platform } from 'react-native';
+import { EmotionAnalysisResult, VoiceEmotionSegment } from '../types';
+import { computeEmotionAnalysis } from './emotionAnalysis';
+import { SEALED_FILE_SUFFIX, closeOpenedFile, openSealedFile, readFileAsBase64, sealFile } from './encryptionService';
+import {
+  extractProsodyFeatures,
+  extractProsodyTimeline,
+  findSpeechBounds,
+  prosodyToEmotions,
+} from './prosodyAnalysis';
+import { base64ToBytes, bytesToBase64 } from '../utils/encoding';
+import { PcmAudio, decodeWav, encodeWav } from '../utils/wavDecoder';
 
 // Constants
-const RECORDINGS_DIR = FileSystem.documentDirectory + 'recordings/';
+export const RECORDINGS_DIR = FileSystem.documentDirectory + 'recordings/';
+
+// File types recordings can be stored as
+const RECORDING_EXTENSIONS = ['.wav', '.m4a'];
+
+// Silence left either side of the speech when a recording is trimmed
+const TRIM_PADDING_SECONDS = 0.25;
+
+// Trimming less than this isn't worth rewriting the file for
+const MIN_TRIM_SECONDS = 0.1;
+
+/**
+ * An offline speech-to-text engine that can be bundled with the app, e.g. a
+ * Whisper or Vosk model. Recordings are not transcribed until one is
+ * registered; nothing is ever sent off the device.
+ */
+export interface TranscriptionEngine {
+  name: string;
+  // Text spoken in the recording, or null when the engine can't transcribe it.
+  // audio is the decoded recording when it could be decoded, for engines that take PCM.
+  transcribe: (input: { uri: string; audio: PcmAudio | null }) => Promise<string | null>;
+}
+
+let transcriptionEngine: TranscriptionEngine | null = null;
+
+/**
+ * Use an offline engine to transcribe voice recordings
+ * @param engine The engine, or null to stop transcribing
+ */
+export const registerTranscriptionEngine = (engine: TranscriptionEngine | null): void => {
+  transcriptionEngine = engine;
+};
+
+/**
+ * Whether recordings can be transcribed
+ */
+export const hasTranscriptionEngine = (): boolean => transcriptionEngine !== null;
+
+/**
+ * Decodes recordings that aren't WAV, e.g. the AAC that Android records, to
+ * PCM for analysis. Like transcription engines, decoders are bundled with the
+ * app (a native codec module or a wasm build) and registered at startup.
+ */
+export interface AudioDecoder {
+  name: string;
+  // Mono samples of the recording, or null when the decoder can't read it
+  decode: (input: { uri: string }) => Promise<PcmAudio | null>;
+}
+
+let audioDecoder: AudioDecoder | null = null;
+
+/**
+ * Use a decoder for recordings that aren't WAV
+ * @param decoder The decoder, or null to analyse WAV recordings only
+ */
+export const registerAudioDecoder = (decoder: AudioDecoder | null): void => {
+  audioDecoder = decoder;
+};
+
+/**
+ * Whether recordings made on this device can be scored. Android records AAC,
+ * which needs a registered decoder; other platforms record WAV.
+ */
+export const canAnalyzeRecordings = (): boolean => Platform.OS !== 'android' || audioDecoder !== null;
+
+/**
+ * Engine that returns fixed transcripts without listening to anything, for
+ * tests and demos. Recordings are looked up by uri, then by file name
+ * (without the sealed suffix, since sealed recordings are opened first).
+ * @param transcripts Transcript per recording uri or file name
+ * @param fallback Transcript for recordings not listed; null to report none
+ * @returns Deterministic engine
+ */
+export const createStubTranscriptionEngine = (
+  transcripts: Record<string, string> = {},
+  fallback: string | null = null
+): TranscriptionEngine => ({
+  name: 'stub',
+  transcribe: async ({ uri }) => {
+    const fileName = uri.substring(uri.lastIndexOf('/') + 1);
+    return transcripts[uri] ?? transcripts[fileName] ?? fallback;
+  },
+});
+
+/**
+ * Analysis of a whole recording plus how it changed along the way
+ */
+export interface VoiceAnalysisResult extends EmotionAnalysisResult {
+  speechDuration: number; // Seconds of the recording that were speech
+  timeline: VoiceEmotionSegment[]; // Windows with speech, in time order
+}
+
+/**
+ * Recording settings for voice notes. iOS records 16 kHz mono WAV so the
+ * recording can be decoded for prosody analysis without native code. Android
+ * cannot record PCM through expo-av, so it records 16 kHz mono AAC, which is
+ * analysed through the registered AudioDecoder.
+ */
+export const VOICE_RECORDING_OPTIONS: Audio.RecordingOptions = {
+  ...Audio.RecordingOptionsPresets.HIGH_QUALITY,
+  // Live input levels drive the recorder's level meter and auto-stop
+  isMeteringEnabled: true,
+  android: {
+    extension: '.m4a',
+    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    bitRate: 64000,
+  },
+  ios: {
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+    audioQuality: Audio.IOSAudioQuality.HIGH,
+    sampleRate: 16000,
+    numberOfChannels: 1,
+    bitRate: 256000,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+};
 
 // Initialize recording directory
 export const initAudioStorage = async (): Promise<boolean> => {
@@ -45,7 +176,7 @@ export const startRecording = async (): Promise<Audio.Recording | null> => {
     
     // Start recording
     const recording = new Audio.Recording();
-    await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+    await recording.prepareToRecordAsync(VOICE_RECORDING_OPTIONS);
     await recording.startAsync();
     return recording;
   } catch (error) {
@@ -54,6 +185,65 @@ export const startRecording = async (): Promise<Audio.Recording | null> => {
   }
 };
 
+/**
+ * Move a finished recording into the recordings directory
+ * @param uri Temporary file written by the recorder
+ * @returns URI of the stored recording, sealed when encryption is enabled
+ */
+export const storeRecording = async (uri: string): Promise<string> => {
+  await initAudioStorage();
+  const extension = uri.substring(uri.lastIndexOf('.'));
+  const destinationUri = RECORDINGS_DIR + `recording_${Date.now()}${extension}`;
+  
+  await FileSystem.moveAsync({
+    from: uri,
+    to: destinationUri
+  });
+  
+  // Encrypt the stored copy when encryption is enabled
+  return sealFile(destinationUri);
+};
+
+/**
+ * Cut the silence before and after the speech in a new recording, in place.
+ * Only WAV recordings (iOS) can be edited; AAC recordings are left as they
+ * are. Call before storeRecording, while the file is still unsealed.
+ * @param uri Temporary file written by the recorder
+ * @returns Duration of the trimmed recording in seconds, or null if it was not trimmed
+ */
+export const trimRecordingSilence = async (uri: string): Promise<number | null> => {
+  try {
+    const audio = decodeWav(
+      base64ToBytes(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }))
+    );
+    if (!audio) {
+      return null;
+    }
+
+    const bounds = findSpeechBounds(audio, TRIM_PADDING_SECONDS);
+    const totalSeconds = audio.samples.length / audio.sampleRate;
+    // Keep recordings with no speech whole rather than leave nothing
+    if (!bounds || totalSeconds - (bounds.end - bounds.start) < MIN_TRIM_SECONDS) {
+      return null;
+    }
+
+    const samples = audio.samples.subarray(
+      Math.round(bounds.start * audio.sampleRate),
+      Math.round(bounds.end * audio.sampleRate)
+    );
+    await FileSystem.writeAsStringAsync(
+      uri,
+      bytesToBase64(encodeWav({ sampleRate: audio.sampleRate, samples })),
+      { encoding: FileSystem.EncodingType.Base64 }
+    );
+
+    return samples.length / audio.sampleRate;
+  } catch (error) {
+    console.error('[audioService] Failed to trim recording:', error);
+    return null;
+  }
+};
+
 /**
  * Stop an audio recording
  * @param recording Recording object to stop
@@ -69,18 +259,7 @@ export const stopRecording = async (recording: Audio.Recording): Promise<string
       return null;
     }
     
-    // Save recording to storage directory
-    await initAudioStorage();
-    const fileName = `recording_${Date.now()}.m4a`;
-    const destinationUri = RECORDINGS_DIR + fileName;
-    
-    // Copy to storage directory
-    await FileSystem.copyAsync({
-      from: uri,
-      to: destinationUri
-    });
-    
-    return destinationUri;
+    return await storeRecording(uri);
   } catch (error) {
     console.error('Error stopping recording:', error);
     return null;
@@ -102,23 +281,6 @@ export const deleteRecording = async (uri: string): Promise<boolean> => {
   }
 };
 
-/**
- * Play an audio recording
- * @param uri URI of the recording to play
- * @returns Sound object or null if playback failed
- */
-export const playRecording = async (uri: string): Promise<Audio.Sound | null> => {
-  try {
-    const sound = new Audio.Sound();
-    await sound.loadAsync({ uri });
-    await sound.playAsync();
-    return sound;
-  } catch (error) {
-    console.error('Error playing recording:', error);
-    return null;
-  }
-};
-
 /**
  * Get all saved recordings
  * @returns Array of recording URIs
@@ -128,7 +290,9 @@ export const getAllRecordings = async (): Promise<string[]> => {
     await initAudioStorage();
     
     const files = await FileSystem.readDirectoryAsync(RECORDINGS_DIR);
-    const recordingFiles = files.filter(file => file.endsWith('.m4a'));
+    const recordingFiles = files.filter(file =>
+      RECORDING_EXTENSIONS.some(extension => file.endsWith(extension) || file.endsWith(extension + SEALED_FILE_SUFFIX))
+    );
     const recordingUris = recordingFiles.map(file => RECORDINGS_DIR + file);
     
     return recordingUris;
@@ -138,65 +302,138 @@ export const getAllRecordings = async (): Promise<string[]> => {
   }
 };
 
+// Decode a recording that isn't WAV with the registered decoder, which gets a
+// decrypted copy when the recording is sealed
+const decodeWithDecoder = async (decoder: AudioDecoder, uri: string): Promise<PcmAudio | null> => {
+  let openedUri: string | null = null;
+
+  try {
+    openedUri = await openSealedFile(uri);
+    return await decoder.decode({ uri: openedUri });
+  } catch (error) {
+    console.error(`[audioService] Decoding with ${decoder.name} failed:`, error);
+    return null;
+  } finally {
+    if (openedUri) {
+      await closeOpenedFile(openedUri).catch(() => {});
+    }
+  }
+};
+
+// Decode a recording to mono PCM; null for unreadable files, and for AAC
+// recordings when no decoder is registered
+const decodeRecording = async (uri: string): Promise<PcmAudio | null> => {
+  try {
+    const audio = decodeWav(base64ToBytes(await readFileAsBase64(uri)));
+    if (audio) {
+      return audio;
+    }
+  } catch (error) {
+    console.error('[audioService] Failed to read recording for analysis:', error);
+    return null;
+  }
+
+  if (!audioDecoder) {
+    console.warn('[audioService] Recording is not WAV and no decoder is registered, skipping analysis:', uri);
+    return null;
+  }
+  return decodeWithDecoder(audioDecoder, uri);
+};
+
 /**
- * Analyze audio recording for emotional content
- * This is a placeholder that would normally use speech-to-text and then analyze the text
+ * Peak level of a recording over evenly spaced stretches, for drawing a
+ * waveform
+ * @param uri URI of the recording
+ * @param barCount Number of stretches
+ * @returns Peaks from 0 to 1, relative to the loudest, or null if the
+ * recording can't be decoded
+ */
+export const computeWaveform = async (uri: string, barCount: number = 60): Promise<number[] | null> => {
+  const audio = await decodeRecording(uri);
+  if (!audio || audio.samples.length === 0) {
+    return null;
+  }
+
+  const { samples } = audio;
+  const peaks: number[] = [];
+  for (let bar = 0; bar < barCount; bar++) {
+    const start = Math.floor((bar * samples.length) / barCount);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * samples.length) / barCount));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+};
+
+// Score each 2-3 second window of a decoded recording
+const buildTimeline = (audio: PcmAudio): VoiceEmotionSegment[] =>
+  extractProsodyTimeline(audio).map(({ start, end, features }) => {
+    const analysis = computeEmotionAnalysis(prosodyToEmotions(features));
+    return {
+      start,
+      end,
+      emotions: analysis.emotions,
+      dominantEmotion: analysis.dominantEmotion,
+      // Windows that are mostly pause say less
+      confidence: Math.min(1, features.speechDuration / (end - start)),
+    };
+  });
+
+/**
+ * Analyze audio recording for emotional content from how it was said
+ * (pitch, loudness, speaking rate, jitter and pauses), fully offline. The
+ * whole clip gives the overall result; the timeline scores it in 2-3 second
+ * windows cut at pauses (see extractProsodyTimeline). WAV recordings are
+ * decoded here, others with the registered AudioDecoder; sealed recordings
+ * are decrypted first, once for the whole analysis.
  * @param uri URI of the recording to analyze
- * @returns Analysis result
+ * @returns Analysis result with its timeline, or null if the recording can't
+ * be decoded or has too little speech
  */
-export const analyzeAudioRecording = async (uri: string): Promise<EmotionAnalysisResult> => {
+export const analyzeAudioRecording = async (uri: string): Promise<VoiceAnalysisResult | null> => {
+  const audio = await decodeRecording(uri);
+  const features = audio ? extractProsodyFeatures(audio) : null;
+  if (!audio || !features) {
+    return null;
+  }
+
+  return {
+    ...computeEmotionAnalysis(prosodyToEmotions(features)),
+    speechDuration: features.speechDuration,
+    timeline: buildTimeline(audio),
+  };
+};
+
+/**
+ * Write down what was said in a recording with the registered engine
+ * @param uri URI of the recording, sealed or not
+ * @returns The transcript, or null without an engine, on failure, or when
+ * nothing was said
+ */
+export const transcribeRecording = async (uri: string): Promise<string | null> => {
+  if (!transcriptionEngine) {
+    return null;
+  }
+
+  let openedUri: string | null = null;
+
   try {
-    // Get audio file info for analysis
-    const fileInfo = await FileSystem.getInfoAsync(uri);
-    
-    // In a real app, this would use a speech-to-text service
-    // For now, we'll use filesize and creation timestamp to generate random but consistent emotion data
-    const fileSize = fileInfo.exists ? (fileInfo.size || 0) : 0;
-    const modificationTime = fileInfo.exists && 'modificationTime' in fileInfo ? fileInfo.modificationTime : Date.now();
-    
-    // Generate pseudo-random emotion values based on file characteristics
-    const randomSeed = (fileSize + modificationTime) % 1000 / 1000;
-    
-    const emotions: EmotionData = {
-      joy: Math.min(0.2 + randomSeed * 0.5, 1),
-      sadness: Math.min(0.1 + (1 - randomSeed) * 0.3, 1),
-      anger: Math.min(0.05 + randomSeed * 0.2, 1),
-      fear: Math.min(0.05 + (1 - randomSeed) * 0.15, 1),
-      surprise: Math.min(0.1 + randomSeed * 0.3, 1),
-      disgust: Math.min(0.05 + randomSeed * 0.1, 1),
-      contentment: Math.min(0.2 + (1 - randomSeed) * 0.5, 1),
-      neutral: Math.min(0.1 + randomSeed * 0.2, 1),
-      energy: Math.min(40 + randomSeed * 50, 100),
-      calmness: Math.min(30 + (1 - randomSeed) * 60, 100),
-      tension: Math.min(20 + randomSeed * 70, 100)
-    };
-    
-    // Normalize to ensure values sum to 1
-    const emotionKeys = ['joy', 'sadness', 'anger', 'fear', 'surprise', 'disgust', 'contentment', 'neutral'];
-    const total = emotionKeys.reduce((sum, key) => sum + emotions[key as keyof EmotionData], 0);
-    
-    emotionKeys.forEach(key => {
-      const emotionKey = key as keyof EmotionData;
-      emotions[emotionKey] = emotions[emotionKey] / total;
-    });
-    
-    return analyzeEmotions(emotions);
+    // Engines that read the file themselves get a decrypted copy
+    const audio = await decodeRecording(uri);
+    openedUri = await openSealedFile(uri);
+    const text = await transcriptionEngine.transcribe({ uri: openedUri, audio });
+    return text?.trim() || null;
   } catch (error) {
-    console.error('Error analyzing audio recording:', error);
-    // Return neutral emotion if analysis fails
-    const neutralEmotions: EmotionData = {
-      joy: 0,
-      sadness: 0,
-      anger: 0,
-      fear: 0,
-      surprise: 0,
-      disgust: 0,
-      contentment: 0,
-      neutral: 1,
-      energy: 50,
-      calmness: 50,
-      tension: 50
-    };
-    return analyzeEmotions(neutralEmotions);
+    console.error(`[audioService] Transcription with ${transcriptionEngine.name} failed:`, error);
+    return null;
+  } finally {
+    if (openedUri) {
+      await closeOpenedFile(openedUri).catch(() => {});
+    }
   }
-}; 
\ No newline at end of file
+};
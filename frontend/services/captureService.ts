@@ -0,0 +1,98 @@
+import { EmotionData, ModalityResult, MoodEntry, MoodEntryAttachment } from '../types';
+import { fuseModalities } from './emotionFusion';
+import { analyzeText, computeEmotionAnalysis } from './emotionAnalysis';
+import { saveMoodEntry } from './storage';
+
+/**
+ * Everything gathered on the input screen for one entry
+ */
+export interface CaptureDraft {
+  modalities: ModalityResult[]; // Results of the inputs that were used
+  fallbackEmotions: EmotionData; // Used as a slider result when no input was used
+  notes?: string;
+  transcript?: string; // What was said in the voice recording
+  tags?: string[];
+  drawingData?: string; // JSON paths, kept on the entry for thumbnails
+  attachments?: MoodEntryAttachment[]; // Saved drawing, recording and snapshot files
+}
+
+// Unique enough for one device; entries are never merged across devices by id
+const createEntryId = (now: number): string =>
+  `${now}_${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Turn a draft into a complete mood entry. Notes and the transcript of the
+ * voice recording are classified together as the text input and fused with
+ * the other inputs like any other modality.
+ * @param draft What was captured
+ * @param now Capture time, in milliseconds
+ * @returns Entry ready to save
+ */
+export const buildMoodEntry = (draft: CaptureDraft, now: number = Date.now()): MoodEntry => {
+  const notes = draft.notes?.trim() || undefined;
+  const transcript = draft.transcript?.trim() || undefined;
+  const modalities = [...draft.modalities];
+
+  const writtenAndSpoken = [notes, transcript].filter(Boolean).join('\n');
+  const text = writtenAndSpoken ? analyzeText(writtenAndSpoken, now) : null;
+  if (text) {
+    modalities.push(text);
+  }
+
+  const fused = fuseModalities(modalities);
+  const analysis = fused ?? computeEmotionAnalysis(draft.fallbackEmotions);
+
+  const entry: MoodEntry = {
+    id: createEntryId(now),
+    timestamp: now,
+    createdAt: now,
+    date: new Date(now).toISOString().split('T')[0],
+    emotions: analysis.emotions,
+    dominantEmotion: analysis.dominantEmotion,
+    confidence: analysis.confidence,
+    source: fused ? fused.source : 'sliders',
+    modalities: fused
+      ? fused.modalities
+      : [{ modality: 'sliders', emotions: draft.fallbackEmotions, confidence: 1, timestamp: now }],
+  };
+
+  if (notes) {
+    entry.notes = notes;
+  }
+  if (transcript) {
+    entry.transcript = transcript;
+  }
+  if (draft.tags && draft.tags.length > 0) {
+    entry.tags = Array.from(new Set(draft.tags));
+  }
+  if (draft.drawingData) {
+    entry.drawingData = draft.drawingData;
+  }
+  if (draft.attachments && draft.attachments.length > 0) {
+    entry.attachments = draft.attachments;
+  }
+
+  return entry;
+};
+
+/**
+ * Build a mood entry from a draft and store it
+ * @param draft What was captured
+ * @returns The saved entry, or null if it could not be stored
+ */
+export const saveCapture = async (draft: CaptureDraft): Promise<MoodEntry | null> => {
+  try {
+    const entry = buildMoodEntry(draft);
+    const saved = await saveMoodEntry(entry);
+
+    if (!saved) {
+      console.error('[captureService] Failed to save captured entry');
+      return null;
+    }
+
+    return entry;
+  } catch (error) {
+    console.error('[captureService] Failed to build captured entry:', error);
+    return null;
+  }
+};
@@ -0,0 +1,306 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import {
+  deleteMoodEntries,
+  getAllAttachments,
+  getAllMoodEntries,
+  getEntryIndex,
+  getStorageNamespace,
+  queryMoodEntries,
+  updateMoodEntry,
+} from './storage';
+import { ATTACHMENT_DIRECTORIES, getAttachmentFileKey } from './attachmentService';
+
+export type WipeCategory = 'entries' | 'drawings' | 'recordings' | 'faceImages';
+
+export const ALL_WIPE_CATEGORIES: WipeCategory[] = ['entries', 'drawings', 'recordings', 'faceImages'];
+
+/**
+ * What to remove. Omitted categories default to all of them; omitted dates
+ * leave that end of the range open.
+ */
+export interface WipeOptions {
+  categories?: WipeCategory[];
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * How many items were removed per category
+ */
+export interface WipeSummary {
+  entries: number;
+  drawings: number;
+  recordings: number;
+  faceImages: number;
+  errors: string[];
+}
+
+// Directories holding each media category
+const MEDIA_DIRECTORIES: Record<Exclude<WipeCategory, 'entries'>, string[]> = {
+  drawings: ATTACHMENT_DIRECTORIES.drawing,
+  recordings: ATTACHMENT_DIRECTORIES.voice,
+  faceImages: ATTACHMENT_DIRECTORIES.face,
+};
+
+// Files newer than this are never collected: they may belong to an entry
+// that is still being captured
+export const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Outcome of an orphaned file collection
+ */
+export interface OrphanCollectionResult {
+  orphaned: string[]; // Uris of files no entry refers to
+  removed: number; // 0 on a dry run
+  errors: string[];
+}
+
+/**
+ * Work out when a media file was created. File names written by the app end
+ * in a millisecond timestamp (drawing_1717171717171.json); anything else falls
+ * back to the file's modification time.
+ */
+const getFileTimestamp = async (uri: string): Promise<number | null> => {
+  // Sealed files carry a second extension (recording_1717171717171.m4a.enc)
+  const match = uri.match(/_(\d{12,})(\.\w+)+$/);
+  if (match) {
+    return Number(match[1]);
+  }
+
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (fileInfo.exists && 'modificationTime' in fileInfo && fileInfo.modificationTime) {
+    // expo-file-system reports modification time in seconds
+    return fileInfo.modificationTime * 1000;
+  }
+
+  return null;
+};
+
+const isInRange = (timestamp: number | null, start: number, end: number): boolean => {
+  // Undated files are only removed when the range is fully open
+  if (timestamp === null) {
+    return start === -Infinity && end === Infinity;
+  }
+  return timestamp >= start && timestamp <= end;
+};
+
+/**
+ * Delete the files of one media category that fall in the range
+ * @returns Uris of the deleted files
+ */
+const wipeMediaDirectories = async (
+  directories: string[],
+  start: number,
+  end: number,
+  errors: string[]
+): Promise<string[]> => {
+  const removed: string[] = [];
+
+  for (const dir of directories) {
+    const dirInfo = await FileSystem.getInfoAsync(dir);
+    if (!dirInfo.exists) {
+      continue;
+    }
+
+    const names = await FileSystem.readDirectoryAsync(dir);
+    for (const name of names) {
+      const uri = dir + name;
+
+      try {
+        if (!isInRange(await getFileTimestamp(uri), start, end)) {
+          continue;
+        }
+
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        removed.push(uri);
+      } catch (error) {
+        console.error(`[dataWipeService] Failed to delete ${uri}:`, error);
+        errors.push(`Failed to delete ${name}`);
+      }
+    }
+  }
+
+  return removed;
+};
+
+/**
+ * Take deleted files off the entries that listed them, so entries don't
+ * point at missing files. An entry that loses its drawing also loses the
+ * copy of the strokes kept for its thumbnail.
+ */
+const dropWipedAttachments = async (uris: string[], errors: string[]): Promise<void> => {
+  const removed = new Set(uris.map(getAttachmentFileKey));
+
+  for (const entry of await getAllMoodEntries()) {
+    const attachments = entry.attachments ?? [];
+    const kept = attachments.filter(attachment => !removed.has(getAttachmentFileKey(attachment.uri)));
+    if (kept.length === attachments.length) {
+      continue;
+    }
+
+    const lostDrawing = attachments.some(attachment => attachment.kind === 'drawing')
+      && !kept.some(attachment => attachment.kind === 'drawing');
+    const updated = { ...entry, attachments: kept };
+    if (lostDrawing) {
+      delete updated.drawingData;
+    }
+
+    if (!await updateMoodEntry(updated)) {
+      errors.push(`Failed to remove deleted files from the entry of ${entry.date}`);
+    }
+  }
+};
+
+/**
+ * Remove stored data by category and date range
+ * @param options Categories and date range to wipe; wipes everything by default
+ * @returns Summary of what was removed
+ */
+export const wipeData = async (options: WipeOptions = {}): Promise<WipeSummary> => {
+  const categories = options.categories ?? ALL_WIPE_CATEGORIES;
+  const start = options.startDate ? options.startDate.getTime() : -Infinity;
+  const end = options.endDate ? options.endDate.getTime() : Infinity;
+
+  const summary: WipeSummary = {
+    entries: 0,
+    drawings: 0,
+    recordings: 0,
+    faceImages: 0,
+    errors: [],
+  };
+
+  if (categories.includes('entries')) {
+    try {
+      const ids = options.startDate || options.endDate
+        ? (await queryMoodEntries({ startTimestamp: start, endTimestamp: end })).map(entry => entry.id)
+        : await getEntryIndex();
+
+      summary.entries = await deleteMoodEntries(ids);
+      if (summary.entries < ids.length) {
+        summary.errors.push(`${ids.length - summary.entries} entries could not be deleted`);
+      }
+    } catch (error) {
+      console.error('[dataWipeService] Failed to delete mood entries:', error);
+      summary.errors.push('Failed to delete mood entries');
+    }
+  }
+
+  // Media only exists on native file systems
+  if (Platform.OS !== 'web') {
+    const removedUris: string[] = [];
+    for (const category of categories) {
+      if (category === 'entries') {
+        continue;
+      }
+
+      try {
+        const removed = await wipeMediaDirectories(MEDIA_DIRECTORIES[category], start, end, summary.errors);
+        summary[category] = removed.length;
+        removedUris.push(...removed);
+      } catch (error) {
+        console.error(`[dataWipeService] Failed to wipe ${category}:`, error);
+        summary.errors.push(`Failed to delete ${category}`);
+      }
+    }
+
+    if (removedUris.length > 0) {
+      try {
+        await dropWipedAttachments(removedUris, summary.errors);
+      } catch (error) {
+        console.error('[dataWipeService] Failed to update entries after deleting files:', error);
+        summary.errors.push('Failed to remove deleted files from entries');
+      }
+    }
+  }
+
+  console.log('[dataWipeService] Wipe complete:', summary);
+  return summary;
+};
+
+/**
+ * Find, and unless it's a dry run delete, media files that no mood entry
+ * lists in its attachments: captures that were never saved, and files left
+ * behind by entries deleted before attachments were tracked. Only runs on
+ * the user's own diary, since sample entries don't refer to their files.
+ * @param options dryRun to only list the files; gracePeriodMs to spare recent files
+ * @returns The orphaned files and how many were removed
+ */
+export const collectOrphanedFiles = async (
+  options: { dryRun?: boolean; gracePeriodMs?: number } = {}
+): Promise<OrphanCollectionResult> => {
+  const result: OrphanCollectionResult = { orphaned: [], removed: 0, errors: [] };
+
+  if (Platform.OS === 'web') {
+    return result;
+  }
+  if (getStorageNamespace() !== 'main') {
+    result.errors.push('Unused files can only be cleaned up outside demo mode');
+    return result;
+  }
+
+  // Without every entry there is no telling which files are still in use
+  const attachments = await getAllAttachments();
+  if (!attachments) {
+    result.errors.push('Mood entries could not be read');
+    return result;
+  }
+
+  const referenced = new Set(attachments.map(attachment => getAttachmentFileKey(attachment.uri)));
+  const cutoff = Date.now() - (options.gracePeriodMs ?? ORPHAN_GRACE_PERIOD_MS);
+  const directories = Array.from(new Set(Object.values(MEDIA_DIRECTORIES).flat()));
+
+  for (const dir of directories) {
+    try {
+      const dirInfo = await FileSystem.getInfoAsync(dir);
+      if (!dirInfo.exists) {
+        continue;
+      }
+
+      for (const name of await FileSystem.readDirectoryAsync(dir)) {
+        const uri = dir + name;
+        const timestamp = await getFileTimestamp(uri);
+        if (referenced.has(getAttachmentFileKey(uri)) || timestamp === null || timestamp > cutoff) {
+          continue;
+        }
+        result.orphaned.push(uri);
+      }
+    } catch (error) {
+      console.error(`[dataWipeService] Failed to scan ${dir}:`, error);
+      result.errors.push(`Failed to scan ${dir}`);
+    }
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  for (const uri of result.orphaned) {
+    try {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      result.removed++;
+    } catch (error) {
+      console.error(`[dataWipeService] Failed to delete ${uri}:`, error);
+      result.errors.push(`Failed to delete ${uri.substring(uri.lastIndexOf('/') + 1)}`);
+    }
+  }
+
+  console.log(`[dataWipeService] Removed ${result.removed} of ${result.orphaned.length} orphaned files`);
+  return result;
+};
+
+/**
+ * Describe a wipe summary for display
+ * @param summary Result of wipeData
+ * @returns One line per non-empty category
+ */
+export const describeWipeSummary = (summary: WipeSummary): string => {
+  const lines = [
+    summary.entries > 0 ? `${summary.entries} mood entries` : null,
+    summary.drawings > 0 ? `${summary.drawings} drawings` : null,
+    summary.recordings > 0 ? `${summary.recordings} voice recordings` : null,
+    summary.faceImages > 0 ? `${summary.faceImages} face images` : null,
+  ].filter(Boolean);
+
+  return lines.length > 0 ? `Removed:\n${lines.join('\n')}` : 'There was nothing to remove.';
+};
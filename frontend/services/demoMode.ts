@@ -0,0 +1,86 @@
+import { generateMoodEntries } from './dummyData';
+import {
+  deleteMoodEntries,
+  getEntryIndex,
+  getStorageNamespace,
+  initStorage,
+  saveMoodEntry,
+  switchStorageNamespace,
+} from './storage';
+import { getSettings, updateSettings } from './settingsService';
+
+// Days of sample history loaded when demo mode starts
+const DEMO_DAYS = 30;
+
+/**
+ * Whether the app is showing sample data instead of the user's diary
+ */
+export const isDemoMode = (): boolean => getStorageNamespace() === 'demo';
+
+// Remove every entry in the active namespace
+const clearActiveEntries = async (): Promise<boolean> => {
+  const ids = await getEntryIndex();
+  const removed = await deleteMoodEntries(ids);
+  return removed === ids.length;
+};
+
+/**
+ * Open the right diary at startup: the sample one if the app was closed in
+ * demo mode, the user's own otherwise. Call after initSettings.
+ * @returns Whether storage is ready
+ */
+export const initDemoMode = async (): Promise<boolean> => {
+  if (getSettings().demoMode) {
+    return switchStorageNamespace('demo');
+  }
+  return initStorage();
+};
+
+/**
+ * Switch to a fresh set of sample entries. The user's diary is left
+ * untouched in its own namespace until demo mode ends.
+ * @returns Whether demo mode started
+ */
+export const enterDemoMode = async (): Promise<boolean> => {
+  try {
+    if (!(await switchStorageNamespace('demo'))) {
+      await switchStorageNamespace('main');
+      return false;
+    }
+
+    // Start from a clean slate in case an earlier demo was not cleaned up
+    await clearActiveEntries();
+    for (const entry of generateMoodEntries(DEMO_DAYS)) {
+      await saveMoodEntry(entry);
+    }
+
+    await updateSettings({ demoMode: true });
+    return true;
+  } catch (error) {
+    console.error('[demoMode] Failed to start demo mode:', error);
+    await switchStorageNamespace('main');
+    return false;
+  }
+};
+
+/**
+ * Delete the sample entries and go back to the user's diary
+ * @returns Whether the sample entries were all removed; the user's diary is
+ * reopened either way
+ */
+export const exitDemoMode = async (): Promise<boolean> => {
+  let cleared = true;
+
+  try {
+    if (isDemoMode()) {
+      cleared = await clearActiveEntries();
+    }
+  } catch (error) {
+    console.error('[demoMode] Failed to remove sample entries:', error);
+    cleared = false;
+  }
+
+  await switchStorageNamespace('main');
+  await updateSettings({ demoMode: false });
+  return cleared;
+};
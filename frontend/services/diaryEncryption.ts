@@ -0,0 +1,145 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { reencryptMoodEntries } from './storage';
+import { RECORDINGS_DIR } from './audioService';
+import { FACE_IMAGES_DIR } from './faceAnalysis';
+import {
+  beginDecryption,
+  beginKeyRotation,
+  cancelDecryption,
+  changePassphrase,
+  clearOpenedFiles,
+  finishDecryption,
+  finishKeyRotation,
+  resealFile,
+  rewriteTextFile,
+  setupEncryption,
+} from './encryptionService';
+import { DRAWINGS_DIR, VOICE_RECORDINGS_DIR } from '../utils/fileSystemUtils';
+
+/**
+ * How much data was rewritten by an encryption change
+ */
+export interface EncryptionChangeResult {
+  records: number;
+  files: number;
+  errors: string[];
+}
+
+// Drawings are JSON text and encrypted in place; other media is sealed binary
+const MEDIA_DIRECTORIES: { dir: string; kind: 'text' | 'binary' }[] = [
+  { dir: DRAWINGS_DIR, kind: 'text' },
+  { dir: RECORDINGS_DIR, kind: 'binary' },
+  { dir: VOICE_RECORDINGS_DIR, kind: 'binary' },
+  { dir: FACE_IMAGES_DIR, kind: 'binary' },
+];
+
+/**
+ * Rewrite every media file with the current encryption settings
+ */
+const rewriteMediaFiles = async (errors: string[]): Promise<number> => {
+  if (Platform.OS === 'web') {
+    return 0;
+  }
+
+  let rewritten = 0;
+
+  for (const { dir, kind } of MEDIA_DIRECTORIES) {
+    const dirInfo = await FileSystem.getInfoAsync(dir);
+    if (!dirInfo.exists) {
+      continue;
+    }
+
+    const names = await FileSystem.readDirectoryAsync(dir);
+    for (const name of names) {
+      try {
+        if (kind === 'text') {
+          await rewriteTextFile(dir + name);
+        } else {
+          await resealFile(dir + name);
+        }
+        rewritten++;
+      } catch (error) {
+        console.error(`[diaryEncryption] Failed to rewrite ${dir}${name}:`, error);
+        errors.push(`Failed to rewrite ${name}`);
+      }
+    }
+  }
+
+  // Decrypted copies made with the old settings are stale now
+  await clearOpenedFiles();
+  return rewritten;
+};
+
+/**
+ * Rewrite entries and media, collecting failures instead of stopping
+ */
+const rewriteEverything = async (): Promise<EncryptionChangeResult> => {
+  const result: EncryptionChangeResult = { records: 0, files: 0, errors: [] };
+
+  try {
+    result.records = await reencryptMoodEntries();
+  } catch (error) {
+    console.error('[diaryEncryption] Failed to rewrite mood entries:', error);
+    result.errors.push('Failed to rewrite mood entries');
+  }
+
+  result.files = await rewriteMediaFiles(result.errors);
+  return result;
+};
+
+/**
+ * Turn on encryption and encrypt everything already stored
+ * @param passphrase New passphrase
+ * @returns What was encrypted
+ */
+export const enableDiaryEncryption = async (passphrase: string): Promise<EncryptionChangeResult> => {
+  await setupEncryption(passphrase);
+  return rewriteEverything();
+};
+
+/**
+ * Switch to a new passphrase. Stored data is not rewritten.
+ * @param currentPassphrase Passphrase in use now
+ * @param newPassphrase Passphrase to switch to
+ * @throws WrongPassphraseError if currentPassphrase doesn't match
+ */
+export const changeDiaryPassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  await changePassphrase(currentPassphrase, newPassphrase);
+};
+
+/**
+ * Replace the data key and re-encrypt everything with the new one. The old
+ * key is only dropped if every record and file was rewritten.
+ * @param passphrase The user's passphrase
+ * @returns What was re-encrypted
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export const rotateDiaryKey = async (passphrase: string): Promise<EncryptionChangeResult> => {
+  await beginKeyRotation(passphrase);
+  const result = await rewriteEverything();
+
+  if (result.errors.length === 0) {
+    await finishKeyRotation(passphrase);
+  }
+  return result;
+};
+
+/**
+ * Decrypt everything and turn encryption off. Encryption stays configured
+ * if anything could not be decrypted, so nothing becomes unreadable.
+ * @param passphrase The user's passphrase
+ * @returns What was decrypted
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export const disableDiaryEncryption = async (passphrase: string): Promise<EncryptionChangeResult> => {
+  await beginDecryption(passphrase);
+  const result = await rewriteEverything();
+
+  if (result.errors.length === 0) {
+    await finishDecryption();
+  } else {
+    cancelDecryption();
+  }
+  return result;
+};
@@ -9,6 +9,8 @@ import {
   exportToMediaLibrary,
   requestFileSystemPermissions
 } from '../utils/fileSystemUtils';
+import { decryptText, encryptText } from './encryptionService';
+import { parseColor } from '../utils/color';
 
 /**
  * Initialize drawing storage
@@ -57,8 +59,8 @@ export const saveDrawing = async (drawingData: string): Promise<string | null> =
     
     console.log(`[drawingService] Writing drawing to: ${fileUri}`);
     
-    // Write drawing data to file using safe write utility
-    const writeSuccess = await safeWriteToFile(fileUri, drawingData);
+    // Write drawing data to file using safe write utility, encrypted if enabled
+    const writeSuccess = await safeWriteToFile(fileUri, encryptText(drawingData));
     
     if (!writeSuccess) {
       console.error(`[drawingService] Failed to write drawing to: ${fileUri}`);
@@ -94,9 +96,11 @@ export const loadDrawing = async (uri: string): Promise<Path[] | null> => {
       return null;
     }
     
+    // Decryption errors are thrown before parsing so a wrong key never
+    // gets the file deleted as corrupt
+    const content = decryptText(await FileSystem.readAsStringAsync(uri));
+    
     try {
-      // Read file content
-      const content = await FileSystem.readAsStringAsync(uri);
       return JSON.parse(content);
     } catch (readError) {
       console.error(`[drawingService] Error reading drawing file ${uri}:`, readError);
@@ -260,19 +264,224 @@ export const analyzeDrawing = async (drawingData: string): Promise<Record<string
  */
 interface DrawingMetrics {
   strokeCount: number;         // Number of strokes
-  uniqueColors: number;        // Number of unique colors used
+  uniqueColors: number;        // Distinct hue families used, plus one for muted colors (0-6)
   avgStrokeWidth: number;      // Average stroke width
   avgStrokeLength: number;     // Average length of strokes
   totalLength: number;         // Total length of all strokes
-  avgSpeed: number;            // Average drawing speed (estimated)
+  avgSpeed: number;            // Pixels per 100 ms (estimated from stroke length for old drawings)
   strokeDensity: number;       // Density of strokes in the drawing area
   usedArea: number;            // Percentage of canvas area used
   complexity: number;          // Complexity score based on turns and direction changes
   curvature: number;           // Amount of curvature in the strokes
-  pressure: number;            // Estimated pressure (based on width variation)
-  dominantColors: string[];    // Most used colors
+  pressure: number;            // Mean touch force, or estimated from width variation
+  dominantColors: string[];    // Colors covering the most stroke length
+  colorWarmth: number;         // -1 (all blues and greens) to 1 (all reds, oranges and yellows)
+  colorSaturation: number;     // Mean saturation, 0-1
+  colorLightness: number;      // Mean lightness, 0-1
+  vividShare: number;          // Share of strokes in strong, mid-lightness colors
+  mutedShare: number;          // Share of strokes in greys, black, white or washed-out colors
+  darkShare: number;           // Share of strokes in very dark colors
+  hueShares: Record<HueFamily, number>; // Share of strokes in each hue family
+  hasTiming: boolean;          // Points carry timestamps; the timing metrics below are 0 otherwise
+  hasPressure: boolean;        // Points carry touch force
+  speedVariation: number;      // Coefficient of variation of speed within strokes
+  acceleration: number;        // Mean change in speed, 0-1 (1 = very jerky)
+  pauseCount: number;          // Hesitations in the middle of strokes
+  pauseRatio: number;          // Share of the drawing time spent not moving, 0-1
+  pressureVariation: number;   // Standard deviation of touch force
 }
 
+type HueFamily = 'red' | 'yellow' | 'green' | 'blue' | 'purple';
+
+// Upper hue bound (degrees) of each family; reds wrap around 0
+const HUE_FAMILIES: [HueFamily, number][] = [
+  ['red', 20],
+  ['yellow', 70],
+  ['green', 170],
+  ['blue', 260],
+  ['purple', 330],
+];
+
+// Colors greyer, darker or lighter than this have no meaningful hue
+const MIN_CHROMATIC_SATURATION = 0.15;
+const MIN_CHROMATIC_LIGHTNESS = 0.08;
+const MAX_CHROMATIC_LIGHTNESS = 0.95;
+
+const hueFamilyOf = (hue: number): HueFamily =>
+  HUE_FAMILIES.find(([, upper]) => hue < upper)?.[0] ?? 'red';
+
+/**
+ * Hue, saturation and lightness of the colors used, each stroke weighted by
+ * its length so a long sweep of blue outweighs a red dot
+ * @param paths Strokes
+ * @param strokeLengths Length of each stroke, in the same order
+ */
+const calculateColorMetrics = (paths: Path[], strokeLengths: number[]) => {
+  const hueShares: Record<HueFamily, number> = { red: 0, yellow: 0, green: 0, blue: 0, purple: 0 };
+  const colorWeights: Record<string, number> = {};
+  let totalWeight = 0;
+  let saturation = 0;
+  let lightness = 0;
+  let vivid = 0;
+  let muted = 0;
+  let dark = 0;
+
+  paths.forEach((path, index) => {
+    // Dots have no length but still put color on the page
+    const weight = Math.max(strokeLengths[index], path.width);
+    colorWeights[path.color] = (colorWeights[path.color] || 0) + weight;
+
+    const hsl = parseColor(path.color);
+    if (!hsl) {
+      return;
+    }
+
+    totalWeight += weight;
+    saturation += hsl.s * weight;
+    lightness += hsl.l * weight;
+
+    const chromatic = hsl.s >= MIN_CHROMATIC_SATURATION
+      && hsl.l > MIN_CHROMATIC_LIGHTNESS
+      && hsl.l < MAX_CHROMATIC_LIGHTNESS;
+    if (chromatic) {
+      hueShares[hueFamilyOf(hsl.h)] += weight;
+    }
+    if (hsl.s >= 0.6 && hsl.l >= 0.25 && hsl.l <= 0.75) {
+      vivid += weight;
+    }
+    if (!chromatic || hsl.s < 0.25) {
+      muted += weight;
+    }
+    if (hsl.l < 0.25) {
+      dark += weight;
+    }
+  });
+
+  const share = (value: number) => (totalWeight > 0 ? value / totalWeight : 0);
+  (Object.keys(hueShares) as HueFamily[]).forEach(family => {
+    hueShares[family] = share(hueShares[family]);
+  });
+
+  return {
+    dominantColors: Object.entries(colorWeights)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([color]) => color),
+    colorWarmth: hueShares.red + hueShares.yellow - hueShares.green - hueShares.blue,
+    colorSaturation: share(saturation),
+    colorLightness: share(lightness),
+    vividShare: share(vivid),
+    mutedShare: share(muted),
+    darkShare: share(dark),
+    hueShares,
+  };
+};
+
+// A stroke standing still for this long counts as a pause
+const PAUSE_MS = 250;
+
+// Changes in speed above this many px/s per second are as jerky as it gets
+const MAX_ACCELERATION = 20000;
+
+// Gaps between timed points beyond this are clock jumps, not drawing
+const MAX_SEGMENT_MS = 5000;
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const isTimed = (path: Path): boolean =>
+  path.points.length > 0 && path.points.every(point => typeof point.t === 'number');
+
+/**
+ * Timing and pressure metrics for drawings captured with timestamps and
+ * touch force. Older drawings have neither and get zeros, so the inference
+ * falls back to the shape-only estimates.
+ */
+const calculateMotionMetrics = (paths: Path[]) => {
+  const timedPaths = paths.filter(isTimed);
+  const hasTiming = timedPaths.length === paths.length;
+
+  const speeds: number[] = []; // px/s per segment
+  const accelerations: number[] = []; // |change in px/s| per second
+  const strokeVariations: number[] = [];
+  let movingMs = 0;
+  let movingLength = 0;
+  let pausedMs = 0;
+  let pauseCount = 0;
+
+  if (hasTiming) {
+    timedPaths.forEach((path, index) => {
+      const strokeSpeeds: number[] = [];
+      let previousSpeed: number | null = null;
+
+      for (let i = 1; i < path.points.length; i++) {
+        const p1 = path.points[i - 1];
+        const p2 = path.points[i];
+        const dt = (p2.t as number) - (p1.t as number);
+        if (dt <= 0 || dt > MAX_SEGMENT_MS) {
+          continue;
+        }
+
+        if (dt >= PAUSE_MS) {
+          pauseCount++;
+          pausedMs += dt;
+          previousSpeed = null;
+          continue;
+        }
+
+        const length = Math.sqrt((p2.x - p1.x) ** 2 + (p2.y - p1.y) ** 2);
+        const speed = (length / dt) * 1000;
+        if (previousSpeed !== null) {
+          accelerations.push((Math.abs(speed - previousSpeed) / dt) * 1000);
+        }
+        previousSpeed = speed;
+        strokeSpeeds.push(speed);
+        movingMs += dt;
+        movingLength += length;
+      }
+
+      speeds.push(...strokeSpeeds);
+      const strokeMean = mean(strokeSpeeds);
+      if (strokeSpeeds.length > 1 && strokeMean > 0) {
+        strokeVariations.push(standardDeviation(strokeSpeeds) / strokeMean);
+      }
+
+      // Time spent between strokes, finger lifted
+      const next = timedPaths[index + 1];
+      if (next) {
+        const gap = (next.points[0].t as number) - (path.points[path.points.length - 1].t as number);
+        if (gap >= PAUSE_MS && gap <= MAX_SEGMENT_MS) {
+          pausedMs += gap;
+        }
+      }
+    });
+  }
+
+  const pressures = paths.flatMap(path =>
+    path.points.filter(point => typeof point.pressure === 'number' && point.pressure > 0)
+      .map(point => point.pressure as number)
+  );
+  const hasPressure = pressures.length > 0;
+
+  return {
+    hasTiming,
+    hasPressure,
+    // Pixels per 100 ms keeps real speeds on the scale of the old estimate
+    avgSpeed: movingMs > 0 ? (movingLength / movingMs) * 100 : 0,
+    speedVariation: mean(strokeVariations),
+    acceleration: Math.min(1, mean(accelerations) / MAX_ACCELERATION),
+    pauseCount,
+    pauseRatio: movingMs + pausedMs > 0 ? pausedMs / (movingMs + pausedMs) : 0,
+    pressure: mean(pressures),
+    pressureVariation: standardDeviation(pressures),
+  };
+};
+
 /**
  * Calculate drawing metrics from paths
  */
@@ -290,27 +499,28 @@ const calculateDrawingMetrics = (paths: Path[]): DrawingMetrics => {
       complexity: 0,
       curvature: 0,
       pressure: 0,
-      dominantColors: []
+      dominantColors: [],
+      colorWarmth: 0,
+      colorSaturation: 0,
+      colorLightness: 0,
+      vividShare: 0,
+      mutedShare: 0,
+      darkShare: 0,
+      hueShares: { red: 0, yellow: 0, green: 0, blue: 0, purple: 0 },
+      hasTiming: false,
+      hasPressure: false,
+      speedVariation: 0,
+      acceleration: 0,
+      pauseCount: 0,
+      pauseRatio: 0,
+      pressureVariation: 0
     };
   }
   
   // Basic metrics
   const strokeCount = paths.length;
-  const colors = paths.map(p => p.color);
-  const uniqueColors = new Set(colors).size;
   const avgStrokeWidth = paths.reduce((sum, p) => sum + p.width, 0) / strokeCount;
   
-  // Color frequency
-  const colorFrequency: Record<string, number> = {};
-  colors.forEach(color => {
-    colorFrequency[color] = (colorFrequency[color] || 0) + 1;
-  });
-  
-  const dominantColors = Object.entries(colorFrequency)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 3)
-    .map(([color]) => color);
-  
   // Calculate stroke lengths and bounding box
   let totalLength = 0;
   let minX = Number.MAX_VALUE;
@@ -319,6 +529,7 @@ const calculateDrawingMetrics = (paths: Path[]): DrawingMetrics => {
   let maxY = Number.MIN_VALUE;
   let totalDirectionChanges = 0;
   let totalCurvature = 0;
+  const strokeLengths: number[] = [];
   
   paths.forEach(path => {
     // Stroke length
@@ -358,6 +569,7 @@ const calculateDrawingMetrics = (paths: Path[]): DrawingMetrics => {
     }
     
     totalLength += pathLength;
+    strokeLengths.push(pathLength);
     totalDirectionChanges += directionChanges;
   });
   
@@ -366,14 +578,24 @@ const calculateDrawingMetrics = (paths: Path[]): DrawingMetrics => {
   const usedArea = canvasArea > 0 ? (canvasArea / (1000 * 1000)) * 100 : 0; // Normalized to percentage of 1000x1000 canvas
   
   // More advanced metrics
-  const avgSpeed = avgStrokeLength / 5; // Simulated speed (lower = slower drawing)
+  const motion = calculateMotionMetrics(paths);
+  const color = calculateColorMetrics(paths, strokeLengths);
+  // The picker gives every slider position its own hex string, so count
+  // color families rather than exact colors
+  const uniqueColors = Object.values(color.hueShares).filter(share => share > 0).length
+    + (color.mutedShare > 0 ? 1 : 0);
+  // Without timestamps speed can only be guessed from length (lower = slower drawing)
+  const avgSpeed = motion.hasTiming ? motion.avgSpeed : avgStrokeLength / 5;
   const strokeDensity = totalLength / (canvasArea > 0 ? canvasArea : 1);
   const complexity = totalDirectionChanges / strokeCount;
   const curvature = totalCurvature / strokeCount;
   
-  // Estimate pressure from width variation and stroke density
+  // Measured touch force where the device reports it; otherwise estimate
+  // pressure from width variation and stroke density
   const widthVariation = Math.max(...paths.map(p => p.width)) - Math.min(...paths.map(p => p.width));
-  const pressure = Math.min(1, (avgStrokeWidth * widthVariation) / 10);
+  const pressure = motion.hasPressure
+    ? Math.min(1, motion.pressure)
+    : Math.min(1, (avgStrokeWidth * widthVariation) / 10);
   
   return {
     strokeCount,
@@ -387,7 +609,14 @@ const calculateDrawingMetrics = (paths: Path[]): DrawingMetrics => {
     complexity,
     curvature,
     pressure,
-    dominantColors
+    ...color,
+    hasTiming: motion.hasTiming,
+    hasPressure: motion.hasPressure,
+    speedVariation: motion.speedVariation,
+    acceleration: motion.acceleration,
+    pauseCount: motion.pauseCount,
+    pauseRatio: motion.pauseRatio,
+    pressureVariation: motion.pressureVariation
   };
 };
 
@@ -413,85 +642,127 @@ const inferEmotionsFromMetrics = (metrics: DrawingMetrics): Record<string, numbe
   // No metrics = neutral emotions
   if (metrics.strokeCount === 0) return emotions;
   
+  // Mid-stroke hesitations per stroke; timing terms below are 0 for old drawings
+  const hesitation = Math.min(1, metrics.pauseCount / metrics.strokeCount);
+  
+  // Color psychology: warm, vivid colors read as energetic, cool ones as calm,
+  // dark and muted ones as low. Black is the default pen, so muted and dark
+  // colors only nudge the result.
+  const { hueShares } = metrics;
+  const coolShare = hueShares.green + hueShares.blue;
+  
   // ----- Energy level inference -----
-  // High energy: fast strokes, many strokes, high pressure, high complexity
+  // High energy: fast strokes, many strokes, high pressure, high complexity,
+  // abrupt changes of speed, warm vivid colors; long pauses drain it
   emotions.energy = Math.min(100, 
     40 + 
     (metrics.avgSpeed * 2) + 
     Math.min(30, metrics.strokeCount * 2) + 
     (metrics.pressure * 20) + 
-    (metrics.complexity * 10)
+    (metrics.complexity * 10) + 
+    (metrics.acceleration * 15) - 
+    (metrics.pauseRatio * 20) + 
+    (metrics.colorWarmth * 10) + 
+    (metrics.vividShare * 10) - 
+    (metrics.mutedShare * 5)
   );
   
   // ----- Calmness level inference -----
-  // Calmness: inversely related to complexity, pressure, speed
+  // Calmness: inversely related to complexity, pressure, speed and uneven
+  // pace; raised by blues and greens, lowered by reds
   emotions.calmness = Math.min(100, 
     80 - 
     (metrics.complexity * 15) - 
     (metrics.pressure * 20) - 
     (metrics.avgSpeed * 1.5) + 
-    (metrics.avgStrokeLength / 100 * 10)
+    (metrics.avgStrokeLength / 100 * 10) - 
+    (metrics.speedVariation * 10) - 
+    (metrics.acceleration * 10) + 
+    (coolShare * 15) - 
+    (hueShares.red * 10)
   );
   
   // ----- Tension level inference -----
-  // Tension: short strokes, high pressure, high complexity, high stroke density
+  // Tension: short strokes, high or uneven pressure, high complexity, high
+  // stroke density, jerky movement, reds and very dark colors
   emotions.tension = Math.min(100, 
     30 + 
     (metrics.strokeDensity * 10) + 
     (100 - Math.min(100, metrics.avgStrokeLength)) * 0.3 + 
     (metrics.pressure * 30) + 
-    (metrics.complexity * 10)
+    (metrics.complexity * 10) + 
+    (metrics.pressureVariation * 20) + 
+    (metrics.acceleration * 15) + 
+    (hueShares.red * 10) + 
+    (metrics.darkShare * 5)
   );
   
   // ----- Specific emotions inference -----
   
-  // Joy: colorful, fluid strokes, medium-high energy
+  // Joy: colorful, bright yellows and oranges, fluid strokes, medium-high energy
   emotions.joy = Math.min(1.0, 
     0.1 + 
-    (metrics.uniqueColors / 5 * 0.4) + 
+    (Math.min(5, metrics.uniqueColors) / 5 * 0.4) + 
+    (hueShares.yellow * 0.3) + 
+    (metrics.vividShare * 0.1) + 
+    (Math.max(0, metrics.colorLightness - 0.5) * 0.2) + 
     (metrics.curvature * 0.2) + 
     (emotions.energy / 100 * 0.3) - 
     (emotions.tension / 100 * 0.2)
   );
   
-  // Anger: high pressure, sharp turns, high tension, less colorful
+  // Anger: high pressure, reds, sharp turns, jerky movement, high tension, less colorful
   emotions.anger = Math.min(1.0, 
     0.1 + 
     (metrics.pressure * 0.4) + 
+    (hueShares.red * metrics.colorSaturation * 0.3) + 
     (metrics.complexity * 0.3) + 
+    (metrics.acceleration * 0.2) + 
     (emotions.tension / 100 * 0.3) - 
     (emotions.calmness / 100 * 0.2)
   );
   
-  // Sadness: slow, long strokes, low energy, low complexity
+  // Sadness: slow, long strokes, long pauses, low energy, low complexity,
+  // blues and dark or muted colors
   emotions.sadness = Math.min(1.0, 
     0.1 + 
     ((10 - Math.min(10, metrics.avgSpeed)) * 0.05) + 
     ((100 - emotions.energy) / 100 * 0.3) + 
-    ((100 - Math.min(100, metrics.complexity * 50)) / 100 * 0.3)
+    ((100 - Math.min(100, metrics.complexity * 50)) / 100 * 0.3) + 
+    (metrics.pauseRatio * 0.2) + 
+    (hueShares.blue * 0.15) + 
+    (metrics.darkShare * 0.1) + 
+    (metrics.mutedShare * 0.05)
   );
   
-  // Fear: erratic strokes, high pressure, high complexity
+  // Fear: erratic strokes, hesitation, high pressure, high complexity, dark colors
   emotions.fear = Math.min(1.0, 
     0.1 + 
     (metrics.pressure * 0.3) + 
     (metrics.complexity * 0.4) + 
+    (hesitation * 0.2) + 
+    (metrics.speedVariation * 0.1) + 
+    (metrics.darkShare * 0.1) + 
+    (hueShares.purple * 0.1) + 
     (emotions.tension / 100 * 0.3) - 
     (emotions.calmness / 100 * 0.2)
   );
   
-  // Contentment: balanced, medium stroke length, medium-low energy
+  // Contentment: balanced, medium stroke length, medium-low energy, greens and soft blues
   emotions.contentment = Math.min(1.0, 
     0.1 + 
     (emotions.calmness / 100 * 0.5) + 
     ((100 - emotions.tension) / 100 * 0.3) + 
+    (hueShares.green * 0.25) + 
+    (hueShares.blue * (1 - metrics.colorSaturation) * 0.1) + 
     ((metrics.avgStrokeLength > 50 && metrics.avgStrokeLength < 200) ? 0.3 : 0)
   );
   
-  // Surprise: unique colors, varied strokes, high energy
+  // Surprise: unique and vivid colors, varied strokes, high energy
   emotions.surprise = Math.min(1.0, 
     0.1 + 
-    (metrics.uniqueColors / 5 * 0.3) + 
+    (Math.min(5, metrics.uniqueColors) / 5 * 0.3) + 
+    (metrics.vividShare * 0.1) + 
     (emotions.energy / 100 * 0.4) + 
     (metrics.complexity * 0.2)
   );
@@ -1,5 +1,4 @@
-import { EmotionData, MoodEntry, EmotionAnalysisResult } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { EmotionData, EmotionModality, MoodEntry } from '../types';
 
 // Generate random emotion data
 export const generateRandomEmotionData = (): EmotionData => {
@@ -37,10 +36,14 @@ export const findDominantEmotion = (emotions: EmotionData): keyof EmotionData =>
   return maxEmotion;
 };
 
-// Generate a random mood entry
-export const generateMoodEntry = (daysAgo = 0): MoodEntry => {
+const SAMPLE_SOURCES: EmotionModality[] = ['sliders', 'drawing', 'voice', 'face'];
+
+// Generate a random mood entry, tagged as synthetic
+export const generateMoodEntry = (daysAgo = 0, index = 0): MoodEntry => {
   const emotions = generateRandomEmotionData();
   const dominantEmotion = findDominantEmotion(emotions);
+  const confidence = 0.7 + Math.random() * 0.3;
+  const source = SAMPLE_SOURCES[Math.floor(Math.random() * SAMPLE_SOURCES.length)];
   
   const date = new Date();
   if (daysAgo > 0) {
@@ -48,15 +51,17 @@ export const generateMoodEntry = (daysAgo = 0): MoodEntry => {
   }
   
   return {
-    id: Date.now().toString() + Math.floor(Math.random() * 1000),
+    id: `sample_${Date.now()}_${daysAgo}_${index}`,
     timestamp: date.getTime(),
     createdAt: date.getTime(),
     date: date.toISOString().split('T')[0],
     emotions,
     dominantEmotion,
-    confidence: 0.7 + Math.random() * 0.3,
+    confidence,
     notes: '',
-    source: ['sliders', 'drawing', 'voice', 'face'][Math.floor(Math.random() * 4)] as 'sliders' | 'drawing' | 'voice' | 'face'
+    source,
+    modalities: [{ modality: source, emotions, confidence, timestamp: date.getTime() }],
+    synthetic: true,
   };
 };
 
@@ -69,26 +74,13 @@ export const generateMoodEntries = (days: number): MoodEntry[] => {
     const entriesPerDay = Math.random() > 0.7 ? 2 : 1;
     
     for (let j = 0; j < entriesPerDay; j++) {
-      entries.push(generateMoodEntry(i));
+      entries.push(generateMoodEntry(i, j));
     }
   }
   
   return entries;
 };
 
-// Generate emotion analysis result
-export const generateEmotionAnalysis = (emotionData: EmotionData): EmotionAnalysisResult => {
-  const dominantEmotion = findDominantEmotion(emotionData);
-  
-  return {
-    emotions: emotionData,
-    dominantEmotion,
-    confidence: 0.7 + Math.random() * 0.3,
-    timestamp: Date.now(),
-    intensity: 0.5 + Math.random() * 0.5
-  };
-};
-
 // Get dummy trend data
 export const getDummyTrendData = () => {
   const entries = generateMoodEntries(30);
@@ -1,91 +1,197 @@
-import { EmotionData, EmotionAnalysisResult } from '../types';
-import { generateEmotionAnalysis } from './dummyData';
+import {
+  DiscreteEmotion,
+  EmotionAnalysisResult,
+  EmotionData,
+  EmotionExplanation,
+  ModalityResult,
+} from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { classifyText } from './textEmotionClassifier';
+
+// Emotional cue weight at which a text counts as fully confident
+const FULL_TEXT_EVIDENCE = 2;
+
+const EMOTION_NAMES: Record<DiscreteEmotion, string> = {
+  joy: 'Joy',
+  sadness: 'Sadness',
+  anger: 'Anger',
+  fear: 'Fear',
+  surprise: 'Surprise',
+  disgust: 'Disgust',
+  contentment: 'Contentment',
+  neutral: 'Neutral',
+};
+
+// A leader this close to the runner-up is called a tie
+const TIE_MARGIN = 0.05;
+
+// Other emotions count as secondary with at least this share...
+const SECONDARY_MIN_SCORE = 0.15;
+// ...and at least this fraction of the dominant emotion's share
+const SECONDARY_MIN_RATIO = 0.5;
+
+// Entropy above which the scores are too spread out to read much into
+const HIGH_AMBIGUITY = 0.75;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Analyze emotion data: pick the dominant emotion and say how sure and how
+ * strong it is, and why.
+ *
+ * - confidence is the dominant emotion's lead over the runner-up, relative to
+ *   its own score (0 for a tie, 1 when nothing else scored)
+ * - ambiguity is the entropy of the scores divided by its maximum (0 when one
+ *   emotion has everything, 1 when all are equal)
+ * - intensity combines how much of the mix is not neutral with how far
+ *   energy, calmness and tension are from their midpoint
+ * @param emotions The emotion data to analyze
+ * @returns An analysis result with explanations
+ */
+export const computeEmotionAnalysis = (emotions: EmotionData): EmotionAnalysisResult => {
+  // Work on a proper distribution whatever scale the input used
+  const total = DISCRETE_EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, emotions[emotion] || 0), 0);
+  const scores = {} as Record<DiscreteEmotion, number>;
+  DISCRETE_EMOTIONS.forEach(emotion => {
+    scores[emotion] = total > 0 ? Math.max(0, emotions[emotion] || 0) / total : (emotion === 'neutral' ? 1 : 0);
+  });
+
+  const ranked = [...DISCRETE_EMOTIONS].sort((a, b) => scores[b] - scores[a]);
+  const dominantEmotion = ranked[0];
+  const runnerUp = ranked[1];
+  const margin = scores[dominantEmotion] - scores[runnerUp];
+  const confidence = scores[dominantEmotion] > 0 ? clamp01(margin / scores[dominantEmotion]) : 0;
+
+  const entropy = DISCRETE_EMOTIONS.reduce(
+    (sum, emotion) => (scores[emotion] > 0 ? sum - scores[emotion] * Math.log(scores[emotion]) : sum),
+    0
+  );
+  const ambiguity = clamp01(entropy / Math.log(DISCRETE_EMOTIONS.length));
+
+  const dimensionDeviation = (
+    Math.abs(emotions.energy - 50) + Math.abs(emotions.calmness - 50) + Math.abs(emotions.tension - 50)
+  ) / 150;
+  const intensity = clamp01(0.7 * (1 - scores.neutral) + 0.3 * dimensionDeviation);
+
+  const secondaryEmotions = ranked
+    .slice(1)
+    .filter(emotion =>
+      emotion !== 'neutral'
+      && scores[emotion] >= SECONDARY_MIN_SCORE
+      && scores[emotion] >= scores[dominantEmotion] * SECONDARY_MIN_RATIO
+    )
+    .slice(0, 2)
+    .map(emotion => ({ emotion, score: scores[emotion] }));
+
+  const explanations: EmotionExplanation[] = [];
+
+  if (dominantEmotion === 'neutral') {
+    explanations.push({
+      factor: 'neutral',
+      message: `No emotion stands out: neutral makes up ${percent(scores.neutral)} of the reading.`,
+      emotion: 'neutral',
+      value: scores.neutral,
+    });
+  } else {
+    explanations.push({
+      factor: 'score',
+      message: `${EMOTION_NAMES[dominantEmotion]} has the largest share at ${percent(scores[dominantEmotion])}.`,
+      emotion: dominantEmotion,
+      value: scores[dominantEmotion],
+    });
+  }
+
+  explanations.push(margin < TIE_MARGIN
+    ? {
+      factor: 'margin',
+      message: `It is almost tied with ${EMOTION_NAMES[runnerUp].toLowerCase()} (${percent(scores[runnerUp])}).`,
+      emotion: runnerUp,
+      value: margin,
+    }
+    : {
+      factor: 'margin',
+      message: `It leads ${EMOTION_NAMES[runnerUp].toLowerCase()} by ${Math.round(margin * 100)} points.`,
+      emotion: runnerUp,
+      value: margin,
+    });
+
+  secondaryEmotions.forEach(({ emotion, score }) => {
+    if (emotion === runnerUp && margin < TIE_MARGIN) {
+      return;
+    }
+    explanations.push({
+      factor: 'secondary',
+      message: `${EMOTION_NAMES[emotion]} is also present at ${percent(score)}.`,
+      emotion,
+      value: score,
+    });
+  });
+
+  if (ambiguity > HIGH_AMBIGUITY) {
+    explanations.push({
+      factor: 'ambiguity',
+      message: 'The scores are spread across many emotions, so this reading is uncertain.',
+      value: ambiguity,
+    });
+  }
+
+  ([
+    ['energy', 'Energy'],
+    ['calmness', 'Calmness'],
+    ['tension', 'Tension'],
+  ] as const).forEach(([dimension, label]) => {
+    const value = emotions[dimension];
+    if (value >= 65 || value <= 35) {
+      explanations.push({
+        factor: 'dimension',
+        message: `${label} is ${value >= 65 ? 'high' : 'low'} (${Math.round(value)}%).`,
+        value,
+      });
+    }
+  });
+
+  return {
+    emotions,
+    dominantEmotion,
+    confidence,
+    timestamp: Date.now(),
+    intensity,
+    ambiguity,
+    secondaryEmotions,
+    explanations,
+  };
+};
 
 /**
  * Analyzes emotion data and returns an analysis result
  * @param emotions The emotion data to analyze
- * @returns An analysis result with the dominant emotion and confidence
+ * @returns An analysis result with the dominant emotion, confidence and explanations
  */
 export const analyzeEmotions = async (emotions: EmotionData): Promise<EmotionAnalysisResult> => {
-  // In a prototype version, we'll use dummy data for demonstration
-  return new Promise((resolve) => {
-    // Add a small delay to simulate processing
-    setTimeout(() => {
-      resolve(generateEmotionAnalysis(emotions));
-    }, 1000);
-  });
+  return computeEmotionAnalysis(emotions);
 };
 
 /**
- * Analyzes text for emotional content
+ * Analyzes text for emotional content, e.g. notes or a voice transcript
  * @param text The text to analyze
- * @returns Emotion data based on the text
+ * @param now When the text was written, in milliseconds
+ * @returns The text as an input for fusion, see services/textEmotionClassifier.ts;
+ * null when the text has no emotional cues
  */
-export const analyzeText = (text: string): EmotionData => {
-  // This is a placeholder implementation
-  // In a real app, this would use NLP or an emotion analysis API
-  
-  const emotions: EmotionData = {
-    joy: 0,
-    sadness: 0,
-    anger: 0,
-    fear: 0,
-    surprise: 0,
-    disgust: 0,
-    contentment: 0,
-    neutral: 1, // Default to neutral
-    energy: 50, // Default energy level
-    calmness: 50, // Default calmness level
-    tension: 50 // Default tension level
-  };
-  
-  // Simple keyword matching
-  const keywords = {
-    joy: ['happy', 'joy', 'excited', 'great', 'wonderful', 'love', 'pleased'],
-    sadness: ['sad', 'unhappy', 'depressed', 'down', 'miserable', 'upset'],
-    anger: ['angry', 'mad', 'furious', 'annoyed', 'irritated', 'frustrated'],
-    fear: ['afraid', 'scared', 'fearful', 'terrified', 'anxious', 'worried'],
-    surprise: ['surprised', 'shocked', 'amazed', 'astonished', 'unexpected'],
-    disgust: ['disgusted', 'gross', 'revolting', 'awful', 'horrible'],
-    contentment: ['content', 'satisfied', 'peaceful', 'calm', 'relaxed']
-  };
-  
-  const lowercaseText = text.toLowerCase();
-  
-  // Count keyword matches for each emotion
-  let totalMatches = 0;
-  Object.entries(keywords).forEach(([emotion, words]) => {
-    const emotionKey = emotion as keyof typeof keywords;
-    const matches = words.filter(word => lowercaseText.includes(word)).length;
-    
-    if (matches > 0) {
-      emotions[emotionKey] = matches;
-      totalMatches += matches;
-      emotions.neutral = 0; // If we found any emotion, reduce neutral
-    }
-  });
-  
-  // Normalize scores
-  if (totalMatches > 0) {
-    Object.keys(emotions).forEach(key => {
-      const emotionKey = key as keyof EmotionData;
-      if (emotionKey !== 'energy' && emotionKey !== 'calmness' && emotionKey !== 'tension') {
-        emotions[emotionKey] = emotions[emotionKey] / totalMatches;
-      }
-    });
-    
-    // Adjust energy, calmness, and tension based on emotions
-    emotions.energy = 50 + (emotions.joy + emotions.anger + emotions.surprise - emotions.sadness) * 25;
-    emotions.calmness = 50 + (emotions.contentment - emotions.anger - emotions.fear) * 25;
-    emotions.tension = 50 + (emotions.fear + emotions.anger - emotions.contentment) * 25;
-    
-    // Ensure values are within range
-    emotions.energy = Math.min(100, Math.max(0, emotions.energy));
-    emotions.calmness = Math.min(100, Math.max(0, emotions.calmness));
-    emotions.tension = Math.min(100, Math.max(0, emotions.tension));
+export const analyzeText = (text: string, now: number = Date.now()): ModalityResult | null => {
+  const { emotions, evidence } = classifyText(text);
+  if (evidence <= 0) {
+    return null;
   }
-  
-  return emotions;
+
+  return {
+    modality: 'text',
+    emotions,
+    confidence: Math.min(1, evidence / FULL_TEXT_EVIDENCE),
+    timestamp: now,
+  };
 };
 
 /**
@@ -94,15 +200,15 @@ export const analyzeText = (text: string): EmotionData => {
  * @returns A text description of the emotional state
  */
 export const createEmotionDescription = (result: EmotionAnalysisResult): string => {
-  const { dominantEmotion, confidence } = result;
+  const { dominantEmotion, intensity } = result;
   
-  // Confidence level descriptions
+  // Intensity level descriptions
   let intensityDesc = 'slightly';
-  if (confidence > 0.7) {
+  if (intensity > 0.7) {
     intensityDesc = 'extremely';
-  } else if (confidence > 0.5) {
+  } else if (intensity > 0.5) {
     intensityDesc = 'very';
-  } else if (confidence > 0.3) {
+  } else if (intensity > 0.3) {
     intensityDesc = 'moderately';
   }
   
@@ -0,0 +1,207 @@
+import {
+  DiscreteEmotion,
+  EmotionAnalysisResult,
+  EmotionData,
+  EmotionModality,
+  ModalityResult,
+} from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { computeEmotionAnalysis } from './emotionAnalysis';
+
+const DIMENSIONS: ('energy' | 'calmness' | 'tension')[] = ['energy', 'calmness', 'tension'];
+
+/**
+ * How much each input is trusted for the categorical emotions and for the
+ * energy/calmness/tension dimensions. Sliders are the user's own report, but
+ * usually only set the dimensions (see hasEmotionScores); voice says more
+ * about arousal than about which emotion it is; text and face are the better
+ * emotion classifiers.
+ */
+export const MODALITY_RELIABILITY: Record<EmotionModality, { emotions: number; dimensions: number }> = {
+  sliders: { emotions: 1, dimensions: 1 },
+  text: { emotions: 0.9, dimensions: 0.6 },
+  face: { emotions: 0.8, dimensions: 0.5 },
+  voice: { emotions: 0.5, dimensions: 0.9 },
+  drawing: { emotions: 0.5, dimensions: 0.6 },
+};
+
+// Pairwise divergence (0-1) above which two inputs are said to disagree
+const CONFLICT_THRESHOLD = 0.35;
+
+export interface ModalityConflict {
+  modalities: [EmotionModality, EmotionModality];
+  divergence: number; // Jensen-Shannon divergence of their emotion scores, 0-1
+}
+
+export interface FusedEmotionResult extends EmotionAnalysisResult {
+  source: EmotionModality; // Modality with the most weight
+  modalities: ModalityResult[]; // The inputs, as given
+  weights: Partial<Record<EmotionModality, number>>; // Share of the emotion scores each input got
+  disagreement: number; // Weighted mean divergence between inputs, 0-1
+  conflicts: ModalityConflict[];
+}
+
+const emptyEmotionData = (): EmotionData => ({
+  joy: 0,
+  sadness: 0,
+  anger: 0,
+  fear: 0,
+  surprise: 0,
+  disgust: 0,
+  contentment: 0,
+  neutral: 0,
+  energy: 50,
+  calmness: 50,
+  tension: 50,
+});
+
+// Scale emotion scores to a probability distribution
+const toDistribution = (emotions: EmotionData): Record<DiscreteEmotion, number> => {
+  const total = DISCRETE_EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, emotions[emotion] || 0), 0);
+  const distribution = {} as Record<DiscreteEmotion, number>;
+  DISCRETE_EMOTIONS.forEach(emotion => {
+    distribution[emotion] = total > 0
+      ? Math.max(0, emotions[emotion] || 0) / total
+      : (emotion === 'neutral' ? 1 : 0);
+  });
+  return distribution;
+};
+
+// Jensen-Shannon divergence in bits, so 0 = identical and 1 = nothing in common
+const jensenShannon = (p: Record<DiscreteEmotion, number>, q: Record<DiscreteEmotion, number>): number => {
+  const kl = (a: Record<DiscreteEmotion, number>, b: Record<DiscreteEmotion, number>) =>
+    DISCRETE_EMOTIONS.reduce((sum, emotion) => {
+      return a[emotion] > 0 ? sum + a[emotion] * Math.log2(a[emotion] / b[emotion]) : sum;
+    }, 0);
+
+  const m = {} as Record<DiscreteEmotion, number>;
+  DISCRETE_EMOTIONS.forEach(emotion => {
+    m[emotion] = (p[emotion] + q[emotion]) / 2;
+  });
+  return Math.min(1, Math.max(0, (kl(p, m) + kl(q, m)) / 2));
+};
+
+// Inputs with every emotion at zero only have something to say about the dimensions
+const hasEmotionScores = (emotions: EmotionData): boolean =>
+  DISCRETE_EMOTIONS.some(emotion => (emotions[emotion] || 0) > 0);
+
+const dominantOf = (distribution: Record<DiscreteEmotion, number>): DiscreteEmotion =>
+  DISCRETE_EMOTIONS.reduce((best, emotion) => (distribution[emotion] > distribution[best] ? emotion : best));
+
+/**
+ * Combine the results of any set of inputs into one analysis.
+ *
+ * Each input is weighted by how reliable its modality is (MODALITY_RELIABILITY)
+ * times its own confidence, separately for the emotions and the dimensions.
+ * Later results for the same modality replace earlier ones. The fused scores
+ * are analysed like any other (see computeEmotionAnalysis); inputs whose
+ * emotion scores diverge strongly are reported as conflicts, and the
+ * confidence drops with the overall disagreement.
+ * @param results Per-modality results, in any order
+ * @returns Fused result, or null when there is nothing to fuse
+ */
+export const fuseModalities = (results: ModalityResult[]): FusedEmotionResult | null => {
+  // Keep the newest result per modality
+  const latest = new Map<EmotionModality, ModalityResult>();
+  results.forEach(result => {
+    const existing = latest.get(result.modality);
+    if (!existing || result.timestamp >= existing.timestamp) {
+      latest.set(result.modality, result);
+    }
+  });
+  const inputs = Array.from(latest.values());
+  if (inputs.length === 0) {
+    return null;
+  }
+
+  const emotionWeights = inputs.map(input =>
+    hasEmotionScores(input.emotions)
+      ? MODALITY_RELIABILITY[input.modality].emotions * Math.max(0, Math.min(1, input.confidence))
+      : 0
+  );
+  const dimensionWeights = inputs.map(input =>
+    MODALITY_RELIABILITY[input.modality].dimensions * Math.max(0, Math.min(1, input.confidence))
+  );
+  const emotionTotal = emotionWeights.reduce((sum, weight) => sum + weight, 0);
+  const dimensionTotal = dimensionWeights.reduce((sum, weight) => sum + weight, 0);
+  const distributions = inputs.map(input => toDistribution(input.emotions));
+
+  const emotions = emptyEmotionData();
+
+  if (emotionTotal > 0) {
+    DISCRETE_EMOTIONS.forEach(emotion => {
+      emotions[emotion] = distributions.reduce(
+        (sum, distribution, i) => sum + distribution[emotion] * emotionWeights[i],
+        0
+      ) / emotionTotal;
+    });
+  } else {
+    // Only dimension inputs (e.g. sliders alone): no categorical evidence
+    emotions.neutral = 1;
+  }
+
+  if (dimensionTotal > 0) {
+    DIMENSIONS.forEach(dimension => {
+      emotions[dimension] = inputs.reduce(
+        (sum, input, i) => sum + input.emotions[dimension] * dimensionWeights[i],
+        0
+      ) / dimensionTotal;
+    });
+  }
+
+  // Compare every pair of inputs that says something about emotions
+  const conflicts: ModalityConflict[] = [];
+  let divergenceSum = 0;
+  let pairWeightSum = 0;
+  for (let i = 0; i < inputs.length; i++) {
+    for (let j = i + 1; j < inputs.length; j++) {
+      const pairWeight = emotionWeights[i] * emotionWeights[j];
+      if (pairWeight === 0) {
+        continue;
+      }
+
+      const divergence = jensenShannon(distributions[i], distributions[j]);
+      divergenceSum += divergence * pairWeight;
+      pairWeightSum += pairWeight;
+
+      if (divergence > CONFLICT_THRESHOLD && dominantOf(distributions[i]) !== dominantOf(distributions[j])) {
+        conflicts.push({ modalities: [inputs[i].modality, inputs[j].modality], divergence });
+      }
+    }
+  }
+  const disagreement = pairWeightSum > 0 ? divergenceSum / pairWeightSum : 0;
+
+  const weights: Partial<Record<EmotionModality, number>> = {};
+  inputs.forEach((input, i) => {
+    weights[input.modality] = emotionTotal > 0 ? emotionWeights[i] / emotionTotal : 0;
+  });
+
+  // The primary source is whichever input carried the most overall weight
+  const sourceIndex = inputs.reduce((best, _, i) =>
+    emotionWeights[i] + dimensionWeights[i] > emotionWeights[best] + dimensionWeights[best] ? i : best, 0
+  );
+
+  const analysis = computeEmotionAnalysis(emotions);
+  const meanConfidence = inputs.reduce((sum, input) => sum + input.confidence, 0) / inputs.length;
+
+  const explanations = [...(analysis.explanations || [])];
+  conflicts.forEach(conflict => {
+    explanations.push({
+      factor: 'conflict',
+      message: `Your ${conflict.modalities[0]} and ${conflict.modalities[1]} input point to different emotions.`,
+      value: conflict.divergence,
+    });
+  });
+
+  return {
+    ...analysis,
+    // Less sure when the inputs are unsure of themselves or disagree
+    confidence: Math.max(0, Math.min(1, analysis.confidence * meanConfidence * (1 - disagreement))),
+    explanations,
+    source: inputs[sourceIndex].modality,
+    modalities: inputs,
+    weights,
+    disagreement,
+    conflicts,
+  };
+};
@@ -0,0 +1,483 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { getRandomBytes } from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { base64ToBytes, bytesToBase64, bytesToUtf8, utf8ToBytes } from '../utils/encoding';
+import { deleteSecureItem, getSecureItem, setSecureItem } from '../utils/secureStorage';
+
+/**
+ * Encryption at rest for the diary.
+ *
+ * Data is encrypted with a random data key using XChaCha20-Poly1305. The data
+ * key is stored wrapped by a key derived from the user's passphrase
+ * (PBKDF2-SHA256), so changing the passphrase only rewraps the data key while
+ * rotating the data key re-encrypts everything. During a rotation the config
+ * holds both keys, so data written with either stays readable if the app is
+ * killed half way through.
+ */
+
+const CONFIG_KEY = 'emotiglass_encryption';
+const CONFIG_VERSION = 1;
+
+// Marks a value as encrypted: eg:enc:1:<keyId>:<base64 nonce + ciphertext>
+const ENVELOPE_PREFIX = 'eg:enc:1:';
+
+// Suffix appended to binary files once they are sealed
+export const SEALED_FILE_SUFFIX = '.enc';
+
+// Decrypted copies of sealed files, for players and analysers that need a real file
+const OPENED_FILES_DIR = `${FileSystem.cacheDirectory}decrypted/`;
+
+const KDF_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+
+interface WrappedKey {
+  id: string;
+  wrappedKey: string; // Data key encrypted with the passphrase key
+}
+
+interface EncryptionConfig {
+  version: number;
+  kdf: {
+    algorithm: 'pbkdf2-sha256';
+    salt: string;
+    iterations: number;
+  };
+  keys: WrappedKey[]; // Active key first, then keys still being rotated out
+}
+
+interface DataKey {
+  id: string;
+  key: Uint8Array;
+}
+
+/**
+ * The passphrase didn't unwrap the data key
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+/**
+ * Encrypted data was touched while the diary is locked
+ */
+export class EncryptionLockedError extends Error {
+  constructor() {
+    super('The diary is locked. Enter your passphrase to unlock it.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+/**
+ * Encrypted data failed authentication or uses a key we don't have
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+let config: EncryptionConfig | null = null;
+let dataKeys: DataKey[] = []; // Unwrapped keys, same order as config.keys
+let decrypting = false; // Set while encryption is being turned off
+
+// New writes are encrypted unless encryption is off or being turned off
+const shouldEncrypt = (): boolean => config !== null && !decrypting;
+
+const randomBytes = (length: number): Uint8Array => {
+  return getRandomBytes(length);
+};
+
+const randomKeyId = (): string => {
+  return Array.from(randomBytes(4), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const deriveKey = (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  return pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, { c: iterations, dkLen: KEY_BYTES });
+};
+
+// Encrypt bytes and pack nonce + ciphertext, binding the key id as associated data
+const seal = (key: Uint8Array, keyId: string, plaintext: Uint8Array): string => {
+  const nonce = randomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key, nonce, utf8ToBytes(keyId)).encrypt(plaintext);
+
+  const packed = new Uint8Array(nonce.length + ciphertext.length);
+  packed.set(nonce);
+  packed.set(ciphertext, nonce.length);
+  return bytesToBase64(packed);
+};
+
+// Reverse of seal; throws if the ciphertext was tampered with or the key is wrong
+const open = (key: Uint8Array, keyId: string, packedBase64: string): Uint8Array => {
+  const packed = base64ToBytes(packedBase64);
+  const nonce = packed.subarray(0, NONCE_BYTES);
+  const ciphertext = packed.subarray(NONCE_BYTES);
+  return xchacha20poly1305(key, nonce, utf8ToBytes(keyId)).decrypt(ciphertext);
+};
+
+const saveConfig = async (next: EncryptionConfig | null): Promise<void> => {
+  if (next) {
+    await setSecureItem(CONFIG_KEY, JSON.stringify(next));
+  } else {
+    await deleteSecureItem(CONFIG_KEY);
+  }
+  config = next;
+};
+
+// Unwrap every data key in the config with the passphrase
+const unwrapKeys = async (passphrase: string, current: EncryptionConfig): Promise<DataKey[]> => {
+  const passphraseKey = await deriveKey(
+    passphrase,
+    base64ToBytes(current.kdf.salt),
+    current.kdf.iterations
+  );
+
+  try {
+    return current.keys.map(({ id, wrappedKey }) => ({
+      id,
+      key: open(passphraseKey, id, wrappedKey),
+    }));
+  } catch (error) {
+    throw new WrongPassphraseError();
+  }
+};
+
+// Build a config wrapping the given data keys with a fresh passphrase key
+const wrapKeys = async (passphrase: string, keys: DataKey[]): Promise<EncryptionConfig> => {
+  const salt = randomBytes(SALT_BYTES);
+  const passphraseKey = await deriveKey(passphrase, salt, KDF_ITERATIONS);
+
+  return {
+    version: CONFIG_VERSION,
+    kdf: {
+      algorithm: 'pbkdf2-sha256',
+      salt: bytesToBase64(salt),
+      iterations: KDF_ITERATIONS,
+    },
+    keys: keys.map(({ id, key }) => ({ id, wrappedKey: seal(passphraseKey, id, key) })),
+  };
+};
+
+/**
+ * Load the encryption config. Call once at startup before touching storage.
+ * @returns Whether the diary is encrypted (and so needs unlocking)
+ */
+export const initEncryption = async (): Promise<boolean> => {
+  try {
+    const configJson = await getSecureItem(CONFIG_KEY);
+    config = configJson ? JSON.parse(configJson) as EncryptionConfig : null;
+  } catch (error) {
+    console.error('[encryptionService] Failed to load encryption config:', error);
+    config = null;
+  }
+  return config !== null;
+};
+
+/**
+ * Whether the diary is encrypted at rest
+ */
+export const isEncryptionEnabled = (): boolean => config !== null;
+
+/**
+ * Whether the data key is available (always true when encryption is off)
+ */
+export const isEncryptionUnlocked = (): boolean => config === null || dataKeys.length > 0;
+
+/**
+ * Unlock the diary for this session
+ * @param passphrase The user's passphrase
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export const unlockEncryption = async (passphrase: string): Promise<void> => {
+  if (!config) {
+    return;
+  }
+  dataKeys = await unwrapKeys(passphrase, config);
+};
+
+/**
+ * Forget the data key until the next unlock
+ */
+export const lockEncryption = (): void => {
+  dataKeys = [];
+};
+
+/**
+ * Turn encryption on with a new random data key. Existing data stays
+ * readable and is encrypted the next time it is written.
+ * @param passphrase Passphrase protecting the data key
+ */
+export const setupEncryption = async (passphrase: string): Promise<void> => {
+  if (config) {
+    throw new Error('Encryption is already enabled');
+  }
+
+  const dataKey: DataKey = { id: randomKeyId(), key: randomBytes(KEY_BYTES) };
+  await saveConfig(await wrapKeys(passphrase, [dataKey]));
+  dataKeys = [dataKey];
+};
+
+/**
+ * Protect the data key with a new passphrase. Nothing is re-encrypted.
+ * @param currentPassphrase Passphrase in use now
+ * @param newPassphrase Passphrase to switch to
+ * @throws WrongPassphraseError if currentPassphrase doesn't match
+ */
+export const changePassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  if (!config) {
+    throw new Error('Encryption is not enabled');
+  }
+
+  const keys = await unwrapKeys(currentPassphrase, config);
+  await saveConfig(await wrapKeys(newPassphrase, keys));
+  dataKeys = keys;
+};
+
+/**
+ * Start rotating the data key. New writes use the new key; data written with
+ * the old key stays readable until finishKeyRotation.
+ * @param passphrase The user's passphrase
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export const beginKeyRotation = async (passphrase: string): Promise<void> => {
+  if (!config) {
+    throw new Error('Encryption is not enabled');
+  }
+
+  const keys = await unwrapKeys(passphrase, config);
+  const nextKey: DataKey = { id: randomKeyId(), key: randomBytes(KEY_BYTES) };
+
+  await saveConfig(await wrapKeys(passphrase, [nextKey, ...keys]));
+  dataKeys = [nextKey, ...keys];
+};
+
+/**
+ * Drop the old data keys once everything has been re-encrypted
+ * @param passphrase The user's passphrase
+ */
+export const finishKeyRotation = async (passphrase: string): Promise<void> => {
+  if (!config || dataKeys.length <= 1) {
+    return;
+  }
+
+  const activeKey = dataKeys[0];
+  await saveConfig(await wrapKeys(passphrase, [activeKey]));
+  dataKeys = [activeKey];
+};
+
+/**
+ * Start turning encryption off. New writes are plaintext while existing
+ * encrypted data stays readable until finishDecryption.
+ * @param passphrase The user's passphrase
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+export const beginDecryption = async (passphrase: string): Promise<void> => {
+  if (!config) {
+    return;
+  }
+
+  dataKeys = await unwrapKeys(passphrase, config);
+  decrypting = true;
+};
+
+/**
+ * Forget the encryption config once everything has been decrypted
+ */
+export const finishDecryption = async (): Promise<void> => {
+  if (!decrypting) {
+    return;
+  }
+
+  await saveConfig(null);
+  dataKeys = [];
+  decrypting = false;
+};
+
+/**
+ * Go back to encrypting new writes after a failed attempt to turn encryption off
+ */
+export const cancelDecryption = (): void => {
+  decrypting = false;
+};
+
+/**
+ * Whether a stored value was written by encryptText
+ */
+export const isEncryptedText = (value: string): boolean => value.startsWith(ENVELOPE_PREFIX);
+
+const getActiveKey = (): DataKey => {
+  if (dataKeys.length === 0) {
+    throw new EncryptionLockedError();
+  }
+  return dataKeys[0];
+};
+
+/**
+ * Encrypt a string for storage. Returns it unchanged when encryption is off.
+ * @throws EncryptionLockedError if encryption is on but the diary is locked
+ */
+export const encryptText = (plaintext: string): string => {
+  if (!shouldEncrypt()) {
+    return plaintext;
+  }
+
+  const { id, key } = getActiveKey();
+  return `${ENVELOPE_PREFIX}${id}:${seal(key, id, utf8ToBytes(plaintext))}`;
+};
+
+/**
+ * Decrypt a stored string. Plaintext written before encryption was turned on
+ * is returned unchanged.
+ * @throws EncryptionLockedError if the diary is locked
+ * @throws DecryptionError if the data was tampered with or its key is gone
+ */
+export const decryptText = (stored: string): string => {
+  if (!isEncryptedText(stored)) {
+    return stored;
+  }
+
+  if (dataKeys.length === 0) {
+    throw new EncryptionLockedError();
+  }
+
+  const body = stored.substring(ENVELOPE_PREFIX.length);
+  const separator = body.indexOf(':');
+  const keyId = body.substring(0, separator);
+  const dataKey = dataKeys.find(candidate => candidate.id === keyId);
+
+  if (separator < 0 || !dataKey) {
+    throw new DecryptionError('This data was encrypted with a key that is no longer available');
+  }
+
+  try {
+    return bytesToUtf8(open(dataKey.key, keyId, body.substring(separator + 1)));
+  } catch (error) {
+    throw new DecryptionError('This data could not be decrypted. It may be damaged.');
+  }
+};
+
+/**
+ * Whether a file was sealed by sealFile
+ */
+export const isSealedFile = (uri: string): boolean => uri.endsWith(SEALED_FILE_SUFFIX);
+
+/**
+ * Encrypt a binary file in place when encryption is on. The sealed file gets
+ * a .enc suffix and the original is removed.
+ * @param uri File to seal
+ * @returns URI of the stored file (unchanged when encryption is off)
+ */
+export const sealFile = async (uri: string): Promise<string> => {
+  if (!shouldEncrypt() || Platform.OS === 'web' || isSealedFile(uri)) {
+    return uri;
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  const sealedUri = uri + SEALED_FILE_SUFFIX;
+
+  await FileSystem.writeAsStringAsync(sealedUri, encryptText(base64));
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  return sealedUri;
+};
+
+/**
+ * Read a possibly sealed binary file as base64
+ * @param uri File to read
+ * @returns Plaintext file contents as base64
+ */
+export const readFileAsBase64 = async (uri: string): Promise<string> => {
+  if (!isSealedFile(uri)) {
+    return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  }
+  return decryptText(await FileSystem.readAsStringAsync(uri));
+};
+
+/**
+ * Get a plaintext copy of a sealed file that players and analysers can load.
+ * Unsealed files are returned as they are. Every call makes its own copy,
+ * under the original file name, so closing one never pulls the file out
+ * from under another reader of the same recording.
+ * @param uri Stored file
+ * @returns URI of a readable file
+ */
+export const openSealedFile = async (uri: string): Promise<string> => {
+  if (!isSealedFile(uri)) {
+    return uri;
+  }
+
+  const openedDir = `${OPENED_FILES_DIR}${randomKeyId()}${randomKeyId()}/`;
+  await FileSystem.makeDirectoryAsync(openedDir, { intermediates: true });
+
+  const name = uri.substring(uri.lastIndexOf('/') + 1, uri.length - SEALED_FILE_SUFFIX.length);
+  const openedUri = openedDir + name;
+
+  await FileSystem.writeAsStringAsync(openedUri, await readFileAsBase64(uri), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return openedUri;
+};
+
+/**
+ * Delete a decrypted copy once it is no longer needed. URIs that
+ * openSealedFile returned unchanged are left alone.
+ * @param openedUri URI returned by openSealedFile
+ */
+export const closeOpenedFile = async (openedUri: string): Promise<void> => {
+  if (!openedUri.startsWith(OPENED_FILES_DIR)) {
+    return;
+  }
+  // Each copy has a folder of its own
+  await FileSystem.deleteAsync(openedUri.substring(0, openedUri.lastIndexOf('/') + 1), { idempotent: true });
+};
+
+/**
+ * Delete decrypted copies made by openSealedFile
+ */
+export const clearOpenedFiles = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+  await FileSystem.deleteAsync(OPENED_FILES_DIR, { idempotent: true });
+};
+
+/**
+ * Re-encrypt a binary file with the active key, seal it if encryption was
+ * just turned on, or unseal it if encryption is being turned off
+ * @param uri Stored file
+ * @returns URI of the file after rewriting
+ */
+export const resealFile = async (uri: string): Promise<string> => {
+  if (!isSealedFile(uri)) {
+    return sealFile(uri);
+  }
+
+  const base64 = await readFileAsBase64(uri);
+
+  if (shouldEncrypt()) {
+    await FileSystem.writeAsStringAsync(uri, encryptText(base64));
+    return uri;
+  }
+
+  const plainUri = uri.substring(0, uri.length - SEALED_FILE_SUFFIX.length);
+  await FileSystem.writeAsStringAsync(plainUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  return plainUri;
+};
+
+/**
+ * Re-encrypt a text file (such as a drawing) with the active key, or write
+ * it back as plaintext if encryption is being turned off
+ * @param uri Stored file
+ */
+export const rewriteTextFile = async (uri: string): Promise<void> => {
+  const stored = await FileSystem.readAsStringAsync(uri);
+  await FileSystem.writeAsStringAsync(uri, encryptText(decryptText(stored)));
+};
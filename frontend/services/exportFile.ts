@@ -0,0 +1,31 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { APP_DIRECTORY } from '../utils/fileSystemUtils';
+
+// Web builds pick up exportFile.web.ts instead
+
+const EXPORTS_DIR = `${APP_DIRECTORY}exports/`;
+
+/**
+ * Write an export to the exports directory and offer it to other apps
+ * (Files, Drive, mail) when sharing is available
+ * @param fileName Name of the export file
+ * @param content File contents
+ * @param mimeType Type shown to the app the file is shared with
+ * @returns Uri of the written file
+ */
+export const saveExportFile = async (fileName: string, content: string, mimeType: string): Promise<string> => {
+  const dirInfo = await FileSystem.getInfoAsync(EXPORTS_DIR);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(EXPORTS_DIR, { intermediates: true });
+  }
+
+  const uri = EXPORTS_DIR + fileName;
+  await FileSystem.writeAsStringAsync(uri, content);
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: 'Export EmotiGlass diary' });
+  }
+
+  return uri;
+};
@@ -0,0 +1,30 @@
+// The app compiles against React Native's globals, not the DOM lib; this is
+// the part of the browser document used to start a download
+interface DownloadLink {
+  href: string;
+  download: string;
+  click: () => void;
+}
+
+declare const document: {
+  createElement: (tagName: 'a') => DownloadLink;
+};
+
+/**
+ * Hand an export to the browser as a download
+ * @param fileName Name the browser saves the file as
+ * @param content File contents
+ * @param mimeType Type of the download
+ * @returns The file name, as there is no uri to return on web
+ */
+export const saveExportFile = async (fileName: string, content: string, mimeType: string): Promise<string> => {
+  const options = { type: mimeType, lastModified: Date.now() };
+  const blob = new Blob([content], options);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return fileName;
+};
@@ -0,0 +1,339 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { EmotionData, MoodEntry } from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { getAllMoodEntries, getEntryIndex, saveMoodEntry } from './storage';
+import { CURRENT_SCHEMA_VERSION, migrateMoodEntry } from './migrations';
+import { RECORDINGS_DIR } from './audioService';
+import { FACE_IMAGES_DIR } from './faceAnalysis';
+import { saveExportFile } from './exportFile';
+import {
+  SEALED_FILE_SUFFIX,
+  decryptText,
+  encryptText,
+  isSealedFile,
+  readFileAsBase64,
+  sealFile,
+} from './encryptionService';
+import { DRAWINGS_DIR, VOICE_RECORDINGS_DIR } from '../utils/fileSystemUtils';
+
+// Identifies EmotiGlass backup files
+const BUNDLE_FORMAT = 'emotiglass-diary';
+const BUNDLE_VERSION = 1;
+
+// Emotion columns written to CSV, in order
+const EMOTION_COLUMNS: (keyof EmotionData)[] = [...DISCRETE_EMOTIONS, 'energy', 'calmness', 'tension'];
+
+/**
+ * Media directories included in a backup. Files are restored into the
+ * directory with the same name on import.
+ */
+const MEDIA_DIRECTORIES: Record<string, { dir: string; encoding: 'utf8' | 'base64' }> = {
+  drawings: { dir: DRAWINGS_DIR, encoding: 'utf8' },
+  recordings: { dir: RECORDINGS_DIR, encoding: 'base64' },
+  voice_recordings: { dir: VOICE_RECORDINGS_DIR, encoding: 'base64' },
+  face_images: { dir: FACE_IMAGES_DIR, encoding: 'base64' },
+};
+
+/**
+ * A file carried inside a backup bundle
+ */
+export interface DiaryBundleFile {
+  directory: string;
+  name: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+}
+
+/**
+ * Versioned JSON backup of the whole diary
+ */
+export interface DiaryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  entries: MoodEntry[];
+  files: DiaryBundleFile[];
+}
+
+export interface DiaryExportResult {
+  uri: string;
+  entryCount: number;
+  fileCount: number;
+}
+
+export interface DiaryImportResult {
+  imported: number;
+  skipped: number; // Already present, matched by id
+  invalid: number;
+  filesRestored: number;
+  errors: string[];
+}
+
+/**
+ * Read every file in the media directories into bundle form. Encrypted files
+ * are decrypted so the bundle can be restored on another device.
+ */
+const collectMediaFiles = async (): Promise<DiaryBundleFile[]> => {
+  if (Platform.OS === 'web') {
+    return [];
+  }
+
+  const files: DiaryBundleFile[] = [];
+
+  for (const [directory, { dir, encoding }] of Object.entries(MEDIA_DIRECTORIES)) {
+    const dirInfo = await FileSystem.getInfoAsync(dir);
+    if (!dirInfo.exists) {
+      continue;
+    }
+
+    const names = await FileSystem.readDirectoryAsync(dir);
+    for (const name of names) {
+      try {
+        const uri = dir + name;
+        const data = encoding === 'base64'
+          ? await readFileAsBase64(uri)
+          : decryptText(await FileSystem.readAsStringAsync(uri));
+        const plainName = isSealedFile(name) ? name.slice(0, -SEALED_FILE_SUFFIX.length) : name;
+
+        files.push({ directory, name: plainName, encoding, data });
+      } catch (error) {
+        console.warn(`[exportService] Skipping unreadable file ${dir}${name}:`, error);
+      }
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Build a backup bundle of every entry and media file
+ * @returns Bundle ready to serialise
+ */
+export const createDiaryBundle = async (): Promise<DiaryBundle> => {
+  const entries = await getAllMoodEntries();
+  const files = await collectMediaFiles();
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    entries,
+    files,
+  };
+};
+
+// Quote a CSV field when it contains separators, quotes or line breaks
+const escapeCsvField = (value: string | number | boolean | undefined | null): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flatten entries into CSV, one row per entry with one column per emotion
+ * @param entries Entries to convert
+ * @returns CSV text with a header row
+ */
+export const entriesToCsv = (entries: MoodEntry[]): string => {
+  const header = [
+    'id', 'timestamp', 'date', 'source', 'modalities', 'dominantEmotion', 'confidence',
+    ...EMOTION_COLUMNS,
+    'title', 'notes', 'tags', 'emojiSummary', 'isFavorite'
+  ];
+
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.timestamp,
+    entry.date,
+    entry.source,
+    (entry.modalities || []).map(result => result.modality).join(';'),
+    entry.dominantEmotion,
+    entry.confidence,
+    ...EMOTION_COLUMNS.map(column => entry.emotions[column]),
+    entry.title,
+    entry.notes,
+    (entry.tags || []).join(';'),
+    entry.emojiSummary,
+    entry.isFavorite,
+  ].map(escapeCsvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n');
+};
+
+const exportFileName = (extension: string): string => {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `emotiglass-diary-${stamp}.${extension}`;
+};
+
+/**
+ * Export the full diary, including drawings and recordings, as a JSON bundle
+ * @returns Where the export was written, or null if the export failed
+ */
+export const exportDiaryAsJson = async (): Promise<DiaryExportResult | null> => {
+  try {
+    const bundle = await createDiaryBundle();
+    const uri = await saveExportFile(exportFileName('json'), JSON.stringify(bundle), 'application/json');
+
+    return { uri, entryCount: bundle.entries.length, fileCount: bundle.files.length };
+  } catch (error) {
+    console.error('[exportService] Failed to export diary as JSON:', error);
+    return null;
+  }
+};
+
+/**
+ * Export every entry's emotion values as a flat CSV
+ * @returns Where the export was written, or null if the export failed
+ */
+export const exportDiaryAsCsv = async (): Promise<DiaryExportResult | null> => {
+  try {
+    const entries = await getAllMoodEntries();
+    const uri = await saveExportFile(exportFileName('csv'), entriesToCsv(entries), 'text/csv');
+
+    return { uri, entryCount: entries.length, fileCount: 0 };
+  } catch (error) {
+    console.error('[exportService] Failed to export diary as CSV:', error);
+    return null;
+  }
+};
+
+/**
+ * Check that a parsed entry has the fields storage relies on
+ */
+const isValidEntry = (entry: any): boolean => {
+  return (
+    entry !== null &&
+    typeof entry === 'object' &&
+    typeof entry.id === 'string' &&
+    entry.id.length > 0 &&
+    typeof entry.timestamp === 'number' &&
+    !Number.isNaN(entry.timestamp) &&
+    typeof entry.emotions === 'object' &&
+    entry.emotions !== null
+  );
+};
+
+/**
+ * Validate a bundle and merge it into storage. Entries whose id already
+ * exists are kept as they are; media files are only restored if missing.
+ * @param bundleJson Contents of a JSON export
+ * @returns Summary of what was merged
+ */
+export const importDiary = async (bundleJson: string): Promise<DiaryImportResult> => {
+  const result: DiaryImportResult = {
+    imported: 0,
+    skipped: 0,
+    invalid: 0,
+    filesRestored: 0,
+    errors: [],
+  };
+
+  let bundle: DiaryBundle;
+  try {
+    bundle = JSON.parse(bundleJson);
+  } catch (error) {
+    result.errors.push('The file is not valid JSON');
+    return result;
+  }
+
+  if (!bundle || bundle.format !== BUNDLE_FORMAT || !Array.isArray(bundle.entries)) {
+    result.errors.push('The file is not an EmotiGlass diary export');
+    return result;
+  }
+
+  if (bundle.version > BUNDLE_VERSION) {
+    result.errors.push('This export was made by a newer version of EmotiGlass');
+    return result;
+  }
+
+  const existingIds = new Set(await getEntryIndex());
+
+  for (const rawEntry of bundle.entries) {
+    if (!isValidEntry(rawEntry)) {
+      result.invalid++;
+      continue;
+    }
+
+    if (existingIds.has(rawEntry.id)) {
+      result.skipped++;
+      continue;
+    }
+
+    // Bundles from older builds carry older entry schemas
+    const entry = migrateMoodEntry(rawEntry);
+    if (await saveMoodEntry(entry)) {
+      existingIds.add(entry.id);
+      result.imported++;
+    } else {
+      result.errors.push(`Failed to save entry ${entry.id}`);
+    }
+  }
+
+  if (Platform.OS !== 'web' && Array.isArray(bundle.files)) {
+    for (const file of bundle.files) {
+      const target = MEDIA_DIRECTORIES[file.directory];
+
+      // Reject unknown directories and names that could escape them
+      if (!target || !file.name || /[\\/]/.test(file.name) || file.name.startsWith('.')) {
+        result.invalid++;
+        continue;
+      }
+
+      try {
+        const uri = target.dir + file.name;
+        const fileInfo = await FileSystem.getInfoAsync(uri);
+        const sealedInfo = await FileSystem.getInfoAsync(uri + SEALED_FILE_SUFFIX);
+        if (fileInfo.exists || sealedInfo.exists) {
+          continue;
+        }
+
+        const dirInfo = await FileSystem.getInfoAsync(target.dir);
+        if (!dirInfo.exists) {
+          await FileSystem.makeDirectoryAsync(target.dir, { intermediates: true });
+        }
+
+        // Restored files are encrypted like any other when encryption is enabled
+        if (file.encoding === 'base64') {
+          await FileSystem.writeAsStringAsync(uri, file.data, { encoding: FileSystem.EncodingType.Base64 });
+          await sealFile(uri);
+        } else {
+          await FileSystem.writeAsStringAsync(uri, encryptText(file.data));
+        }
+        result.filesRestored++;
+      } catch (error) {
+        console.error(`[exportService] Failed to restore ${file.directory}/${file.name}:`, error);
+        result.errors.push(`Failed to restore ${file.name}`);
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Let the user pick a JSON export and merge it into storage
+ * @returns Import summary, or null if the user cancelled
+ */
+export const pickAndImportDiary = async (): Promise<DiaryImportResult | null> => {
+  const picked = await DocumentPicker.getDocumentAsync({
+    type: 'application/json',
+    copyToCacheDirectory: true,
+  });
+
+  if (picked.type !== 'success') {
+    return null;
+  }
+
+  const bundleJson = Platform.OS === 'web'
+    ? await (await fetch(picked.uri)).text()
+    : await FileSystem.readAsStringAsync(picked.uri);
+
+  return importDiary(bundleJson);
+};
@@ -1,20 +1,51 @@
 import * as FileSystem from 'expo-file-system';
-import { EmotionData } from '../types';
+import { DiscreteEmotion, EmotionData, FaceDetectionData } from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+import { SEALED_FILE_SUFFIX, sealFile } from './encryptionService';
 
-// Emotion mapping constants
-const EMOTION_CLASSES = ['neutral', 'happy', 'sad', 'surprise', 'fear', 'disgust', 'anger'];
+// Readings older than this are ignored when scoring, so the result follows
+// the current expression rather than everything since the camera opened
+export const FACE_WINDOW_MS = 3000;
 
-// Model paths
-const FACE_MODEL_PATH = FileSystem.documentDirectory + 'models/face_expression_model/';
+// Readings needed before a result is fully trusted
+const FULL_CONFIDENCE_SAMPLES = 10;
 
 export interface FaceAnalysisResult {
-  dominantEmotion: string;
-  emotionScores: Record<string, number>;
+  dominantEmotion: DiscreteEmotion;
+  emotionScores: Record<DiscreteEmotion, number>; // Sums to 1
   faceDetected: boolean;
+  confidence: number; // 0-1, grows with the number of readings
+  source: 'landmarks' | 'model';
+  timestamp: number;
+  imageUri?: string; // Saved snapshot the result was scored from, if any
 }
 
+/**
+ * An offline expression model that can be bundled with the app, e.g. a
+ * TFLite classifier. When one is registered it is tried before the
+ * landmark heuristics.
+ */
+export interface FaceExpressionModel {
+  name: string;
+  // Scores per emotion (any scale), or null when the model can't judge this input
+  predict: (input: {
+    samples: FaceDetectionData[];
+    imageUri?: string;
+  }) => Promise<Partial<Record<DiscreteEmotion, number>> | null>;
+}
+
+let expressionModel: FaceExpressionModel | null = null;
+
+/**
+ * Use a bundled expression model for face analysis
+ * @param model The model, or null to go back to landmark scoring
+ */
+export const registerFaceExpressionModel = (model: FaceExpressionModel | null): void => {
+  expressionModel = model;
+};
+
 // Constants for face image storage
-const FACE_IMAGES_DIR = FileSystem.documentDirectory + 'face_images/';
+export const FACE_IMAGES_DIR = FileSystem.documentDirectory + 'face_images/';
 
 // Initialize face detection and storage
 export const initFaceDetection = async (): Promise<boolean> => {
@@ -25,8 +56,7 @@ export const initFaceDetection = async (): Promise<boolean> => {
     if (!dirInfo.exists) {
       await FileSystem.makeDirectoryAsync(FACE_IMAGES_DIR, { intermediates: true });
     }
-    
-    // In a real implementation, this would initialize TensorFlow.js and load models
+
     return true;
   } catch (error) {
     console.error('Failed to initialize face detection:', error);
@@ -55,7 +85,8 @@ export const saveFaceImage = async (imageUri: string): Promise<string | null> =>
       to: fileUri
     });
     
-    return fileUri;
+    // Encrypt the stored copy when encryption is enabled
+    return await sealFile(fileUri);
   } catch (error) {
     console.error('Failed to save face image:', error);
     return null;
@@ -90,7 +121,7 @@ export const getAllFaceImages = async (): Promise<string[]> => {
     const files = await FileSystem.readDirectoryAsync(FACE_IMAGES_DIR);
     
     // Filter for image files
-    const imageFiles = files.filter(file => file.endsWith('.jpg'));
+    const imageFiles = files.filter(file => file.endsWith('.jpg') || file.endsWith('.jpg' + SEALED_FILE_SUFFIX));
     
     // Convert to full URIs
     const imageUris = imageFiles.map(file => FACE_IMAGES_DIR + file);
@@ -102,59 +133,190 @@ export const getAllFaceImages = async (): Promise<string[]> => {
   }
 };
 
-// Process image from camera and detect emotions
-export const analyzeImage = async (imageData: { uri: string; base64?: string }): Promise<FaceAnalysisResult | null> => {
-  try {
-    // Save the image first
-    let savedUri = imageData.uri;
-    if (imageData.uri.startsWith('file://')) {
-      const savedImage = await saveFaceImage(imageData.uri);
-      if (savedImage) {
-        savedUri = savedImage;
-      }
+// Summary of the readings in a window
+interface FaceFeatures {
+  smile: number; // Mean smiling probability
+  eyeOpenness: number; // Mean of both eyes' open probability
+  headMovement: number; // Spread of yaw and roll in degrees
+  blinkRate: number; // Blinks per second
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Map value onto 0-1 between low and high
+const normalize = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+/**
+ * Keep the readings inside the scoring window, ending at the newest one.
+ * Readings without a timestamp are always kept.
+ * @param samples Readings in the order they arrived
+ * @param windowMs Window length
+ * @returns Readings inside the window
+ */
+export const selectRecentSamples = (
+  samples: FaceDetectionData[],
+  windowMs: number = FACE_WINDOW_MS
+): FaceDetectionData[] => {
+  const newest = samples.reduce((latest, sample) => Math.max(latest, sample.timestamp ?? 0), 0);
+  return samples.filter(sample => sample.timestamp === undefined || newest - sample.timestamp <= windowMs);
+};
+
+const aggregateFaceSamples = (samples: FaceDetectionData[]): FaceFeatures => {
+  const eyes = samples.map(sample => (sample.leftEyeOpenProbability + sample.rightEyeOpenProbability) / 2);
+
+  // A blink is the eyes closing after having been open
+  let blinks = 0;
+  for (let i = 1; i < eyes.length; i++) {
+    if (eyes[i] < 0.3 && eyes[i - 1] >= 0.3) {
+      blinks++;
     }
-    
-    // Get image file info for analysis
-    const fileInfo = await FileSystem.getInfoAsync(savedUri);
-    
-    // In a real app, this would use a ML model to analyze the face
-    // For now, we'll use file characteristics to generate somewhat consistent emotion scores
-    const fileSize = fileInfo.exists ? (fileInfo.size || 0) : 0;
-    const modificationTime = fileInfo.exists && 'modificationTime' in fileInfo ? fileInfo.modificationTime : Date.now();
-    
-    // Generate pseudo-random but somewhat consistent emotion scores based on file characteristics
-    const randomSeed = (fileSize + modificationTime) % 1000 / 1000;
-    
-    const mockEmotionScores = {
-      neutral: Math.min(0.1 + (1 - randomSeed) * 0.2, 1),
-      happy: Math.min(0.2 + randomSeed * 0.7, 1),
-      sad: Math.min(0.1 + (1 - randomSeed) * 0.4, 1),
-      surprise: Math.min(0.1 + randomSeed * 0.5, 1),
-      fear: Math.min(0.05 + (1 - randomSeed) * 0.2, 1),
-      disgust: Math.min(0.05 + randomSeed * 0.15, 1),
-      anger: Math.min(0.05 + randomSeed * 0.3, 1),
-      contentment: Math.min(0.15 + randomSeed * 0.4, 1),
-    };
-    
-    // Normalize to ensure values sum to 1
-    const total = Object.values(mockEmotionScores).reduce((sum, score) => sum + score, 0);
-    
-    const normalizedScores: Record<string, number> = {};
-    
-    for (const [emotion, score] of Object.entries(mockEmotionScores)) {
-      normalizedScores[emotion] = score / total;
+  }
+  const times = samples.map(sample => sample.timestamp).filter((time): time is number => time !== undefined);
+  const seconds = times.length > 1 ? (Math.max(...times) - Math.min(...times)) / 1000 : 0;
+
+  return {
+    smile: mean(samples.map(sample => sample.smilingProbability)),
+    // Blinks would read as narrowed eyes, so leave closed-eye readings out
+    eyeOpenness: mean(eyes.filter(value => value >= 0.3)) || mean(eyes),
+    headMovement: (standardDeviation(samples.map(sample => sample.headEulerAngleY))
+      + standardDeviation(samples.map(sample => sample.headEulerAngleZ))) / 2,
+    blinkRate: seconds > 0 ? blinks / seconds : 0,
+  };
+};
+
+/**
+ * Score an expression from face detector readings.
+ *
+ * The detector only reports smiling, eye openness and head yaw and roll
+ * (expo-face-detector gives no pitch, so a lowered head can't be scored), so
+ * the rules stay deliberately coarse:
+ * - a broad smile is joy, a slight smile on a steady face is contentment
+ * - wide eyes without a smile are surprise, or fear when the head is restless
+ *   or the blink rate is high
+ * - narrowed eyes without a smile lean to anger, less so disgust
+ * - heavy eyelids without a smile lean to sadness
+ * - anything not clearly expressed stays neutral
+ * @param features Aggregated readings
+ * @returns Scores per emotion summing to 1
+ */
+const scoreFaceFeatures = (features: FaceFeatures): Record<DiscreteEmotion, number> => {
+  const smile = normalize(features.smile, 0.3, 0.9);
+  const slightSmile = normalize(features.smile, 0.1, 0.4) * (1 - normalize(features.smile, 0.6, 0.9));
+  const noSmile = 1 - normalize(features.smile, 0.1, 0.5);
+  const wideEyes = normalize(features.eyeOpenness, 0.8, 0.97);
+  const narrowEyes = 1 - normalize(features.eyeOpenness, 0.35, 0.65);
+  const heavyEyes = 1 - normalize(features.eyeOpenness, 0.45, 0.8);
+  const restless = Math.max(normalize(features.headMovement, 3, 12), normalize(features.blinkRate, 0.5, 1.2));
+
+  const scores: Record<DiscreteEmotion, number> = {
+    joy: smile,
+    contentment: slightSmile * (1 - restless),
+    surprise: wideEyes * noSmile * (1 - 0.5 * restless) * 0.8,
+    fear: wideEyes * noSmile * restless,
+    anger: narrowEyes * noSmile * 0.8,
+    disgust: narrowEyes * noSmile * 0.4,
+    sadness: noSmile * heavyEyes * 0.7,
+    neutral: 0.1 + 0.4 * noSmile * (1 - restless),
+  };
+
+  const total = DISCRETE_EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+  DISCRETE_EMOTIONS.forEach(emotion => {
+    scores[emotion] = scores[emotion] / total;
+  });
+  return scores;
+};
+
+// Fill in every emotion and scale scores to sum to 1
+const normalizeScores = (scores: Partial<Record<DiscreteEmotion, number>>): Record<DiscreteEmotion, number> | null => {
+  const total = DISCRETE_EMOTIONS.reduce((sum, emotion) => sum + Math.max(0, scores[emotion] || 0), 0);
+  if (total <= 0) {
+    return null;
+  }
+
+  const normalized = {} as Record<DiscreteEmotion, number>;
+  DISCRETE_EMOTIONS.forEach(emotion => {
+    normalized[emotion] = Math.max(0, scores[emotion] || 0) / total;
+  });
+  return normalized;
+};
+
+const buildResult = (
+  emotionScores: Record<DiscreteEmotion, number>,
+  sampleCount: number,
+  source: FaceAnalysisResult['source']
+): FaceAnalysisResult => {
+  const dominantEmotion = DISCRETE_EMOTIONS.reduce((best, emotion) =>
+    emotionScores[emotion] > emotionScores[best] ? emotion : best
+  );
+
+  return {
+    dominantEmotion,
+    emotionScores,
+    faceDetected: true,
+    confidence: source === 'model' ? 1 : clamp01(sampleCount / FULL_CONFIDENCE_SAMPLES),
+    source,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Analyze the expression in recent face detector readings. Uses the
+ * registered expression model when there is one, otherwise landmark scoring.
+ * @param samples Readings in the order they arrived; only the last FACE_WINDOW_MS are used
+ * @param imageUri Optional still of the face, for models that work on images
+ * @returns Analysis result, or null when there are no readings to score
+ */
+export const analyzeFaceSamples = async (
+  samples: FaceDetectionData[],
+  imageUri?: string
+): Promise<FaceAnalysisResult | null> => {
+  const recent = selectRecentSamples(samples);
+
+  if (expressionModel) {
+    try {
+      const predicted = await expressionModel.predict({ samples: recent, imageUri });
+      const scores = predicted ? normalizeScores(predicted) : null;
+      if (scores) {
+        return buildResult(scores, recent.length, 'model');
+      }
+    } catch (error) {
+      console.error(`[faceAnalysis] Expression model ${expressionModel.name} failed, using landmarks:`, error);
     }
-    
-    // Find dominant emotion
-    const dominantEmotion = Object.entries(normalizedScores)
-      .reduce((max, [emotion, score]) => score > max.score ? { emotion, score } : max, { emotion: 'neutral', score: 0 })
-      .emotion;
-    
-    return {
-      dominantEmotion,
-      emotionScores: normalizedScores,
-      faceDetected: true
-    };
+  }
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  return buildResult(scoreFaceFeatures(aggregateFaceSamples(recent)), recent.length, 'landmarks');
+};
+
+/**
+ * Save a still from the camera and analyze the expression in it together
+ * with the face detector readings taken around it
+ * @param imageData Captured image
+ * @param samples Face detector readings; needed unless an image model is registered
+ * @returns Analysis result with the saved snapshot's uri, or null when there is nothing to score
+ */
+export const analyzeImage = async (
+  imageData: { uri: string; base64?: string },
+  samples: FaceDetectionData[] = []
+): Promise<FaceAnalysisResult | null> => {
+  try {
+    // Save the image first
+    const savedUri = imageData.uri.startsWith('file://') ? await saveFaceImage(imageData.uri) : null;
+
+    // Models get the original capture; the saved copy may be encrypted
+    const result = await analyzeFaceSamples(samples, imageData.uri);
+    return result && savedUri ? { ...result, imageUri: savedUri } : result;
   } catch (error) {
     console.error('Error analyzing image:', error);
     return null;
@@ -167,32 +329,36 @@ export const analyzeImage = async (imageData: { uri: string; base64?: string }):
  * @returns EmotionData object
  */
 export const faceAnalysisToEmotionData = (faceAnalysis: FaceAnalysisResult): EmotionData => {
+  const scores = faceAnalysis.emotionScores;
+
   // Map face analysis emotions to EmotionData format
   const emotionData: EmotionData = {
-    joy: faceAnalysis.emotionScores.happy || 0,
-    sadness: faceAnalysis.emotionScores.sad || 0,
-    anger: faceAnalysis.emotionScores.anger || 0,
-    fear: faceAnalysis.emotionScores.fear || 0,
-    surprise: faceAnalysis.emotionScores.surprise || 0,
-    disgust: faceAnalysis.emotionScores.disgust || 0,
-    contentment: faceAnalysis.emotionScores.contentment || 0,
-    neutral: faceAnalysis.emotionScores.neutral || 0,
+    joy: scores.joy || 0,
+    sadness: scores.sadness || 0,
+    anger: scores.anger || 0,
+    fear: scores.fear || 0,
+    surprise: scores.surprise || 0,
+    disgust: scores.disgust || 0,
+    contentment: scores.contentment || 0,
+    neutral: scores.neutral || 0,
     
     // Generate additional parameters based on emotion scores
-    energy: Math.min(50 + 
-      (faceAnalysis.emotionScores.happy || 0) * 30 + 
-      (faceAnalysis.emotionScores.surprise || 0) * 30 + 
-      (faceAnalysis.emotionScores.anger || 0) * 40, 100),
+    energy: clamp(50 + 
+      (scores.joy || 0) * 30 + 
+      (scores.surprise || 0) * 30 + 
+      (scores.anger || 0) * 40 - 
+      (scores.sadness || 0) * 30, 0, 100),
     
-    calmness: Math.min(50 + 
-      (faceAnalysis.emotionScores.neutral || 0) * 40 + 
-      (faceAnalysis.emotionScores.contentment || 0) * 40 - 
-      (faceAnalysis.emotionScores.anger || 0) * 30, 100),
+    calmness: clamp(50 + 
+      (scores.neutral || 0) * 40 + 
+      (scores.contentment || 0) * 40 - 
+      (scores.anger || 0) * 30 - 
+      (scores.fear || 0) * 30, 0, 100),
     
-    tension: Math.min(30 + 
-      (faceAnalysis.emotionScores.fear || 0) * 40 + 
-      (faceAnalysis.emotionScores.anger || 0) * 40 + 
-      (faceAnalysis.emotionScores.sad || 0) * 20, 100)
+    tension: clamp(30 + 
+      (scores.fear || 0) * 40 + 
+      (scores.anger || 0) * 40 + 
+      (scores.sadness || 0) * 20, 0, 100)
   };
   
   return emotionData;
@@ -218,12 +384,12 @@ export const integrateEmotionData = (
   
   // Apply modifiers based on detected facial emotion
   switch (faceAnalysis.dominantEmotion) {
-    case 'happy':
+    case 'joy':
       energyModifier = 20;
       calmnessModifier = 10;
       tensionModifier = -15;
       break;
-    case 'sad':
+    case 'sadness':
       energyModifier = -20;
       calmnessModifier = -10;
       tensionModifier = 10;
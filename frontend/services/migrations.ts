@@ -0,0 +1,195 @@
+import { EmotionData, MoodEntry } from '../types';
+
+/**
+ * Schema version stamped on every stored mood entry.
+ * Bump this and append a step to MIGRATIONS whenever the shape of
+ * MoodEntry or EmotionData changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/**
+ * A single upgrade step from `version - 1` to `version`
+ */
+export interface MoodEntryMigration {
+  version: number;
+  description: string;
+  migrate: (entry: Record<string, any>) => Record<string, any>;
+}
+
+const EMOTION_DEFAULTS: EmotionData = {
+  joy: 0,
+  sadness: 0,
+  anger: 0,
+  fear: 0,
+  surprise: 0,
+  disgust: 0,
+  contentment: 0,
+  neutral: 0,
+  energy: 50,
+  calmness: 50,
+  tension: 50
+};
+
+const VALID_SOURCES = ['sliders', 'drawing', 'voice', 'face', 'text'];
+
+const VALID_ATTACHMENT_KINDS = ['drawing', 'voice', 'face'];
+
+/**
+ * v0 -> v1: entries written before versioning.
+ * Fills in fields that older builds left out and drops malformed values.
+ */
+const migrateToV1 = (entry: Record<string, any>): Record<string, any> => {
+  const timestamp = typeof entry.timestamp === 'number'
+    ? entry.timestamp
+    : (typeof entry.createdAt === 'number' ? entry.createdAt : Date.now());
+
+  // Missing or non-numeric emotion values fall back to the defaults
+  const emotions: EmotionData = { ...EMOTION_DEFAULTS };
+  (Object.keys(EMOTION_DEFAULTS) as (keyof EmotionData)[]).forEach(key => {
+    const value = entry.emotions?.[key];
+    if (typeof value === 'number' && !Number.isNaN(value)) {
+      emotions[key] = value;
+    }
+  });
+
+  const migrated: Record<string, any> = {
+    ...entry,
+    timestamp,
+    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : timestamp,
+    date: typeof entry.date === 'string' ? entry.date : new Date(timestamp).toISOString().split('T')[0],
+    emotions,
+    dominantEmotion: entry.dominantEmotion in EMOTION_DEFAULTS ? entry.dominantEmotion : 'neutral',
+    confidence: typeof entry.confidence === 'number' ? entry.confidence : 0,
+    source: VALID_SOURCES.includes(entry.source) ? entry.source : 'sliders',
+  };
+
+  if (entry.tags !== undefined) {
+    migrated.tags = Array.isArray(entry.tags)
+      ? Array.from(new Set(entry.tags.filter((tag: unknown) => typeof tag === 'string')))
+      : [];
+  }
+
+  if (entry.isFavorite !== undefined) {
+    migrated.isFavorite = Boolean(entry.isFavorite);
+  }
+
+  return migrated;
+};
+
+/**
+ * v1 -> v2: entries record every input that contributed (see
+ * services/emotionFusion.ts). Older entries had a single source, which
+ * becomes their only modality, carrying the entry's own scores.
+ */
+const migrateToV2 = (entry: Record<string, any>): Record<string, any> => {
+  if (Array.isArray(entry.modalities)) {
+    return {
+      ...entry,
+      modalities: entry.modalities.filter((result: any) =>
+        result && VALID_SOURCES.includes(result.modality) && typeof result.emotions === 'object'
+      ),
+    };
+  }
+
+  return {
+    ...entry,
+    modalities: [{
+      modality: entry.source,
+      emotions: entry.emotions,
+      confidence: entry.confidence,
+      timestamp: entry.timestamp,
+    }],
+  };
+};
+
+/**
+ * v2 -> v3: files are listed in `attachments` (see
+ * services/attachmentService.ts). The single drawingUri and
+ * voiceRecordingUri fields become attachments; sizes and checksums were
+ * never recorded for them.
+ */
+const migrateToV3 = (entry: Record<string, any>): Record<string, any> => {
+  const { drawingUri, voiceRecordingUri, ...rest } = entry;
+
+  const attachments = Array.isArray(entry.attachments)
+    ? entry.attachments.filter((attachment: any) =>
+        attachment && VALID_ATTACHMENT_KINDS.includes(attachment.kind) && typeof attachment.uri === 'string'
+      )
+    : [];
+
+  if (typeof drawingUri === 'string') {
+    attachments.push({ kind: 'drawing', uri: drawingUri, createdAt: entry.createdAt });
+  }
+  if (typeof voiceRecordingUri === 'string') {
+    attachments.push({ kind: 'voice', uri: voiceRecordingUri, createdAt: entry.createdAt });
+  }
+
+  if (attachments.length === 0) {
+    delete rest.attachments;
+    return rest;
+  }
+  return { ...rest, attachments };
+};
+
+/**
+ * Upgrade steps, ordered by version. Each step only has to handle entries
+ * exactly one version older than itself.
+ */
+export const MIGRATIONS: MoodEntryMigration[] = [
+  {
+    version: 1,
+    description: 'Backfill required fields on unversioned entries',
+    migrate: migrateToV1,
+  },
+  {
+    version: 2,
+    description: 'Record contributing modalities',
+    migrate: migrateToV2,
+  },
+  {
+    version: 3,
+    description: 'Move drawing and recording files into attachments',
+    migrate: migrateToV3,
+  },
+];
+
+/**
+ * Get the schema version of a stored entry
+ * @param entry Raw stored entry
+ * @returns Schema version, 0 for entries written before versioning
+ */
+export const getSchemaVersion = (entry: Record<string, any>): number => {
+  return typeof entry.schemaVersion === 'number' ? entry.schemaVersion : 0;
+};
+
+/**
+ * Upgrade a stored entry to the current schema, one step at a time
+ * @param entry Raw stored entry
+ * @param migrations Upgrade steps to apply (defaults to MIGRATIONS)
+ * @returns Entry at the latest version in `migrations`
+ */
+export const migrateMoodEntry = (
+  entry: Record<string, any>,
+  migrations: MoodEntryMigration[] = MIGRATIONS
+): MoodEntry => {
+  const fromVersion = getSchemaVersion(entry);
+  const targetVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (fromVersion > targetVersion) {
+    // Written by a newer build; leave it untouched rather than guess
+    console.warn(`[migrations] Entry ${entry.id} has schema v${fromVersion}, newer than v${targetVersion}`);
+    return entry as MoodEntry;
+  }
+
+  let migrated = entry;
+  for (const migration of migrations) {
+    if (migration.version > getSchemaVersion(migrated)) {
+      migrated = {
+        ...migration.migrate(migrated),
+        schemaVersion: migration.version,
+      };
+    }
+  }
+
+  return migrated as MoodEntry;
+};
@@ -0,0 +1,615 @@
+import { MoodEntry } from '../types';
+import { MoodEntryRepository } from './repositories';
+
+/**
+ * Paged mood entry database.
+ *
+ * Entries are grouped into one record per calendar month ("page_YYYY-MM").
+ * A single manifest record holds a small summary of every entry, from which
+ * the secondary indexes (timestamp, dominant emotion, source, tags and note
+ * terms) are rebuilt in memory on load. Queries resolve IDs from the indexes
+ * first and only read the pages that actually contain matches.
+ */
+
+const MANIFEST_KEY = 'manifest';
+const PAGE_PREFIX = 'page_';
+const MANIFEST_VERSION = 1;
+
+// Upper bound on pages kept in memory at once
+const MAX_CACHED_PAGES = 12;
+
+// Summary of an entry kept in the manifest
+interface EntrySummary {
+  id: string;
+  page: string;
+  timestamp: number;
+  dominantEmotion: string;
+  source: string;
+  tags: string[];
+  terms: string[];
+}
+
+interface Manifest {
+  version: number;
+  // Lowest entry schema version present; see services/migrations.ts
+  schemaVersion?: number;
+  entries: EntrySummary[];
+}
+
+// A page maps entry IDs to entries
+type Page = Record<string, MoodEntry>;
+
+/**
+ * Filter for indexed queries. All given criteria must match; within a list,
+ * any value may match.
+ */
+export interface MoodEntryQuery {
+  startTimestamp?: number;
+  endTimestamp?: number;
+  emotions?: string[];
+  sources?: string[];
+  tags?: string[];
+}
+
+export interface MoodEntryDatabase {
+  load(): Promise<void>;
+  getIds(): string[];
+  get(id: string): Promise<MoodEntry | null>;
+  getAll(): Promise<MoodEntry[]>;
+  put(entry: MoodEntry): Promise<void>;
+  remove(id: string): Promise<boolean>;
+  removeMany(ids: string[]): Promise<number>;
+  query(filter: MoodEntryQuery): Promise<MoodEntry[]>;
+  search(text: string): Promise<MoodEntry[]>;
+  getSchemaVersion(): number;
+  upgrade(targetVersion: number, transform: (entry: MoodEntry) => MoodEntry): Promise<number>;
+  rewriteAll(): Promise<number>;
+}
+
+// Month bucket for an entry, in UTC so pages don't shift with the device time zone
+const pageForTimestamp = (timestamp: number): string => {
+  return new Date(timestamp).toISOString().substring(0, 7);
+};
+
+// Split text into lowercase word terms for the search index
+const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\u024f]+/)
+    .filter(term => term.length > 1);
+};
+
+const summarize = (entry: MoodEntry): EntrySummary => {
+  const text = [entry.title, entry.notes, entry.transcript].filter(Boolean).join(' ');
+
+  return {
+    id: entry.id,
+    page: pageForTimestamp(entry.timestamp),
+    timestamp: entry.timestamp,
+    dominantEmotion: entry.dominantEmotion,
+    source: entry.source,
+    tags: (entry.tags || []).map(tag => tag.toLowerCase()),
+    terms: Array.from(new Set(tokenize(text))),
+  };
+};
+
+// Add an ID to a multi-valued index
+const addToIndex = (index: Map<string, Set<string>>, key: string, id: string) => {
+  let ids = index.get(key);
+  if (!ids) {
+    ids = new Set();
+    index.set(key, ids);
+  }
+  ids.add(id);
+};
+
+// Remove an ID from a multi-valued index
+const removeFromIndex = (index: Map<string, Set<string>>, key: string, id: string) => {
+  const ids = index.get(key);
+  if (ids) {
+    ids.delete(id);
+    if (ids.size === 0) {
+      index.delete(key);
+    }
+  }
+};
+
+// Union of the ID sets stored under the given keys
+const lookup = (index: Map<string, Set<string>>, keys: string[]): Set<string> => {
+  const result = new Set<string>();
+  keys.forEach(key => {
+    index.get(key)?.forEach(id => result.add(id));
+  });
+  return result;
+};
+
+export interface MoodEntryDatabaseOptions {
+  // Normalizes raw entries imported from the legacy layout
+  migrateLegacyEntry?: (entry: Record<string, any>) => MoodEntry;
+}
+
+/**
+ * Create a database on top of a record repository
+ * @param repository Record store to persist pages and the manifest in
+ * @param options Optional hooks
+ * @returns Database instance; call load() before use
+ */
+export const createMoodEntryDatabase = (
+  repository: MoodEntryRepository,
+  options: MoodEntryDatabaseOptions = {}
+): MoodEntryDatabase => {
+  const summaries = new Map<string, EntrySummary>();
+  // Summaries sorted by timestamp, oldest first
+  let timeline: EntrySummary[] = [];
+  let schemaVersion = 0;
+  const byEmotion = new Map<string, Set<string>>();
+  const bySource = new Map<string, Set<string>>();
+  const byTag = new Map<string, Set<string>>();
+  const byTerm = new Map<string, Set<string>>();
+
+  // Least recently used page is first in iteration order
+  const pageCache = new Map<string, Page>();
+
+  // Mutations run one at a time so page and manifest writes never interleave
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = writeQueue.then(task, task);
+    writeQueue = run.catch(() => undefined);
+    return run;
+  };
+
+  const indexSummary = (summary: EntrySummary) => {
+    summaries.set(summary.id, summary);
+    addToIndex(byEmotion, summary.dominantEmotion, summary.id);
+    addToIndex(bySource, summary.source, summary.id);
+    summary.tags.forEach(tag => addToIndex(byTag, tag, summary.id));
+    summary.terms.forEach(term => addToIndex(byTerm, term, summary.id));
+  };
+
+  const unindexSummary = (summary: EntrySummary) => {
+    summaries.delete(summary.id);
+    removeFromIndex(byEmotion, summary.dominantEmotion, summary.id);
+    removeFromIndex(bySource, summary.source, summary.id);
+    summary.tags.forEach(tag => removeFromIndex(byTag, tag, summary.id));
+    summary.terms.forEach(term => removeFromIndex(byTerm, term, summary.id));
+  };
+
+  const rebuildTimeline = () => {
+    timeline = Array.from(summaries.values()).sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  const resetIndexes = () => {
+    summaries.clear();
+    byEmotion.clear();
+    bySource.clear();
+    byTag.clear();
+    byTerm.clear();
+    pageCache.clear();
+    timeline = [];
+    schemaVersion = 0;
+  };
+
+  const cachePage = (pageId: string, page: Page) => {
+    pageCache.delete(pageId);
+    pageCache.set(pageId, page);
+
+    while (pageCache.size > MAX_CACHED_PAGES) {
+      const oldest = pageCache.keys().next().value as string;
+      pageCache.delete(oldest);
+    }
+  };
+
+  const readPage = async (pageId: string): Promise<Page> => {
+    const cached = pageCache.get(pageId);
+    if (cached) {
+      cachePage(pageId, cached);
+      return cached;
+    }
+
+    let page: Page = {};
+    const pageJson = await repository.readRecord(PAGE_PREFIX + pageId);
+
+    if (pageJson) {
+      try {
+        page = JSON.parse(pageJson) as Page;
+      } catch (parseError) {
+        console.error(`[moodEntryDatabase] Page ${pageId} is unreadable, dropping its entries:`, parseError);
+        await repository.deleteRecord(PAGE_PREFIX + pageId);
+      }
+    }
+
+    cachePage(pageId, page);
+    return page;
+  };
+
+  const writePage = async (pageId: string, page: Page) => {
+    if (Object.keys(page).length === 0) {
+      await repository.deleteRecord(PAGE_PREFIX + pageId);
+    } else {
+      await repository.writeRecord(PAGE_PREFIX + pageId, JSON.stringify(page));
+    }
+    cachePage(pageId, page);
+  };
+
+  const writeManifest = async () => {
+    const manifest: Manifest = {
+      version: MANIFEST_VERSION,
+      schemaVersion,
+      entries: timeline,
+    };
+    await repository.writeRecord(MANIFEST_KEY, JSON.stringify(manifest));
+  };
+
+  // Read entries for a set of summaries, one page read per month touched
+  const readEntries = async (matches: EntrySummary[]): Promise<MoodEntry[]> => {
+    const entries: MoodEntry[] = [];
+    const missing: string[] = [];
+
+    for (const summary of matches) {
+      const page = await readPage(summary.page);
+      const entry = page[summary.id];
+
+      if (entry) {
+        entries.push(entry);
+      } else {
+        missing.push(summary.id);
+      }
+    }
+
+    // Entries lost with a corrupted page are dropped from the indexes
+    if (missing.length > 0) {
+      console.log(`[moodEntryDatabase] Dropping ${missing.length} entries missing from their pages`);
+      await enqueue(async () => {
+        // Re-check inside the queue: a concurrent put may have moved the entry
+        for (const id of missing) {
+          const summary = summaries.get(id);
+          if (summary && !(await readPage(summary.page))[id]) {
+            unindexSummary(summary);
+          }
+        }
+        rebuildTimeline();
+        await writeManifest();
+      });
+    }
+
+    return entries;
+  };
+
+  // Rebuild the manifest by scanning every page record
+  const rebuildFromPages = async (recordKeys: string[]) => {
+    for (const key of recordKeys.filter(k => k.startsWith(PAGE_PREFIX))) {
+      const page = await readPage(key.substring(PAGE_PREFIX.length));
+      Object.values(page).forEach(entry => indexSummary(summarize(entry)));
+    }
+  };
+
+  // Import entries stored one record per entry by the previous layout
+  const importLegacyEntries = async (recordKeys: string[]) => {
+    const legacyKeys = recordKeys.filter(key => key !== MANIFEST_KEY && !key.startsWith(PAGE_PREFIX));
+
+    if (legacyKeys.length === 0) {
+      return;
+    }
+
+    console.log(`[moodEntryDatabase] Importing ${legacyKeys.length} legacy entries`);
+
+    const pages = new Map<string, Page>();
+
+    for (const key of legacyKeys) {
+      const entryJson = await repository.readRecord(key);
+      if (!entryJson) {
+        continue;
+      }
+
+      try {
+        const rawEntry = JSON.parse(entryJson);
+        const entry = options.migrateLegacyEntry
+          ? options.migrateLegacyEntry(rawEntry)
+          : rawEntry as MoodEntry;
+        const summary = summarize(entry);
+        const page = pages.get(summary.page) || await readPage(summary.page);
+        page[entry.id] = entry;
+        pages.set(summary.page, page);
+        indexSummary(summary);
+      } catch (parseError) {
+        console.error(`[moodEntryDatabase] Skipping unreadable legacy entry ${key}:`, parseError);
+      }
+    }
+
+    for (const [pageId, page] of pages) {
+      await writePage(pageId, page);
+    }
+
+    rebuildTimeline();
+    await writeManifest();
+
+    // Only remove the old records once the new layout is safely written
+    for (const key of legacyKeys) {
+      await repository.deleteRecord(key);
+    }
+    await repository.clearLegacyIndex?.();
+  };
+
+  return {
+    /**
+     * Load the manifest and build the in-memory indexes
+     */
+    load: () => enqueue(async () => {
+      resetIndexes();
+
+      const recordKeys = await repository.listRecords();
+      const manifestJson = await repository.readRecord(MANIFEST_KEY);
+      let manifest: Manifest | null = null;
+
+      if (manifestJson) {
+        try {
+          manifest = JSON.parse(manifestJson) as Manifest;
+        } catch (parseError) {
+          console.error('[moodEntryDatabase] Manifest is unreadable, rebuilding from pages:', parseError);
+        }
+      }
+
+      if (manifest) {
+        manifest.entries.forEach(indexSummary);
+        schemaVersion = manifest.schemaVersion ?? 0;
+      } else {
+        await rebuildFromPages(recordKeys);
+      }
+
+      rebuildTimeline();
+
+      if (!manifest && timeline.length > 0) {
+        await writeManifest();
+      }
+
+      await importLegacyEntries(recordKeys);
+    }),
+
+    /**
+     * IDs of all entries, oldest first
+     */
+    getIds: () => timeline.map(summary => summary.id),
+
+    /**
+     * Get a single entry
+     */
+    get: async (id: string) => {
+      const summary = summaries.get(id);
+      if (!summary) {
+        return null;
+      }
+
+      const [entry] = await readEntries([summary]);
+      return entry || null;
+    },
+
+    /**
+     * Get every entry, oldest first
+     */
+    getAll: () => readEntries(timeline),
+
+    /**
+     * Create or replace an entry
+     */
+    put: (entry: MoodEntry) => enqueue(async () => {
+      const previous = summaries.get(entry.id);
+      const summary = summarize(entry);
+
+      const page = { ...await readPage(summary.page), [entry.id]: entry };
+      await writePage(summary.page, page);
+
+      // Moving to another month removes the entry from its old page afterwards,
+      // so an interrupted write leaves a duplicate rather than a lost entry
+      if (previous && previous.page !== summary.page) {
+        const oldPage = { ...await readPage(previous.page) };
+        delete oldPage[entry.id];
+        await writePage(previous.page, oldPage);
+      }
+
+      if (previous) {
+        unindexSummary(previous);
+      }
+      indexSummary(summary);
+      rebuildTimeline();
+      await writeManifest();
+    }),
+
+    /**
+     * Delete an entry
+     * @returns Whether the entry existed
+     */
+    remove: (id: string) => enqueue(async () => {
+      const summary = summaries.get(id);
+      if (!summary) {
+        return false;
+      }
+
+      const page = { ...await readPage(summary.page) };
+      delete page[id];
+      await writePage(summary.page, page);
+
+      unindexSummary(summary);
+      rebuildTimeline();
+      await writeManifest();
+      return true;
+    }),
+
+    /**
+     * Delete several entries, rewriting each affected page and the manifest once
+     * @returns Number of entries that existed and were removed
+     */
+    removeMany: (ids: string[]) => enqueue(async () => {
+      const byPage = new Map<string, EntrySummary[]>();
+      ids.forEach(id => {
+        const summary = summaries.get(id);
+        if (summary) {
+          byPage.set(summary.page, [...(byPage.get(summary.page) || []), summary]);
+        }
+      });
+
+      let removed = 0;
+      for (const [pageId, pageSummaries] of byPage) {
+        const page = { ...await readPage(pageId) };
+        pageSummaries.forEach(summary => {
+          delete page[summary.id];
+        });
+        await writePage(pageId, page);
+
+        pageSummaries.forEach(unindexSummary);
+        removed += pageSummaries.length;
+      }
+
+      if (removed > 0) {
+        rebuildTimeline();
+        await writeManifest();
+      }
+      return removed;
+    }),
+
+    /**
+     * Find entries through the secondary indexes, oldest first
+     */
+    query: async (filter: MoodEntryQuery) => {
+      const start = filter.startTimestamp ?? -Infinity;
+      const end = filter.endTimestamp ?? Infinity;
+
+      // Binary search for the first entry at or after the start of the range
+      let low = 0;
+      let high = timeline.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (timeline[mid].timestamp < start) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+
+      const candidateSets: Set<string>[] = [];
+      if (filter.emotions?.length) {
+        candidateSets.push(lookup(byEmotion, filter.emotions));
+      }
+      if (filter.sources?.length) {
+        candidateSets.push(lookup(bySource, filter.sources));
+      }
+      if (filter.tags?.length) {
+        candidateSets.push(lookup(byTag, filter.tags.map(tag => tag.toLowerCase())));
+      }
+
+      const matches: EntrySummary[] = [];
+      for (let i = low; i < timeline.length && timeline[i].timestamp <= end; i++) {
+        const summary = timeline[i];
+        if (candidateSets.every(ids => ids.has(summary.id))) {
+          matches.push(summary);
+        }
+      }
+
+      return readEntries(matches);
+    },
+
+    /**
+     * Search entries by dominant emotion, tag, or words in the title,
+     * notes and transcript. Every query word must prefix a word of the entry
+     * text.
+     */
+    search: async (text: string) => {
+      const queryLower = text.toLowerCase().trim();
+      if (!queryLower) {
+        return readEntries(timeline);
+      }
+
+      const matchingIds = new Set<string>();
+
+      byEmotion.forEach((ids, emotion) => {
+        if (emotion.toLowerCase().includes(queryLower)) {
+          ids.forEach(id => matchingIds.add(id));
+        }
+      });
+
+      byTag.forEach((ids, tag) => {
+        if (tag.includes(queryLower)) {
+          ids.forEach(id => matchingIds.add(id));
+        }
+      });
+
+      const queryTerms = tokenize(queryLower);
+      if (queryTerms.length > 0) {
+        const termMatches = queryTerms.map(queryTerm => {
+          const ids = new Set<string>();
+          byTerm.forEach((termIds, term) => {
+            if (term.startsWith(queryTerm)) {
+              termIds.forEach(id => ids.add(id));
+            }
+          });
+          return ids;
+        });
+
+        termMatches[0].forEach(id => {
+          if (termMatches.every(ids => ids.has(id))) {
+            matchingIds.add(id);
+          }
+        });
+      }
+
+      return readEntries(timeline.filter(summary => matchingIds.has(summary.id)));
+    },
+
+    /**
+     * Lowest schema version of any stored entry
+     */
+    getSchemaVersion: () => schemaVersion,
+
+    /**
+     * Rewrite every page through `transform` and record that all entries are
+     * now at `targetVersion`. Does nothing if they already are.
+     * @returns Number of pages rewritten
+     */
+    upgrade: (targetVersion: number, transform: (entry: MoodEntry) => MoodEntry) => enqueue(async () => {
+      if (schemaVersion >= targetVersion) {
+        return 0;
+      }
+
+      const pageIds = Array.from(new Set(timeline.map(summary => summary.page)));
+
+      for (const pageId of pageIds) {
+        const page: Page = {};
+        Object.entries(await readPage(pageId)).forEach(([id, entry]) => {
+          page[id] = transform(entry);
+        });
+        await writePage(pageId, page);
+
+        Object.values(page).forEach(entry => {
+          const previous = summaries.get(entry.id);
+          if (previous) {
+            unindexSummary(previous);
+          }
+          indexSummary(summarize(entry));
+        });
+      }
+
+      schemaVersion = targetVersion;
+      rebuildTimeline();
+      await writeManifest();
+      return pageIds.length;
+    }),
+
+    /**
+     * Read and write back every stored record unchanged, so a wrapping
+     * repository can re-encode them (for example after a key change)
+     * @returns Number of records rewritten
+     */
+    rewriteAll: () => enqueue(async () => {
+      const recordKeys = await repository.listRecords();
+
+      for (const key of recordKeys) {
+        const value = await repository.readRecord(key);
+        if (value !== null) {
+          await repository.writeRecord(key, value);
+        }
+      }
+
+      return recordKeys.length;
+    }),
+  };
+};
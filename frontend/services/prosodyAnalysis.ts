@@ -0,0 +1,405 @@
+import { EmotionData } from '../types';
+import { PcmAudio } from '../utils/wavDecoder';
+
+// Pitch tracking runs on audio resampled to this rate; plenty for voices
+// (75-500 Hz) and keeps autocorrelation cheap on older phones
+const ANALYSIS_RATE = 8000;
+const FRAME_MS = 40;
+const HOP_MS = 20;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 500;
+
+// Normalised autocorrelation a frame needs to count as voiced speech
+const VOICING_THRESHOLD = 0.45;
+
+// Frames quieter than this are never speech, whatever the noise floor
+const SILENCE_DB = -50;
+
+// Speech needs to rise this far above the recording's noise floor
+const SPEECH_ABOVE_FLOOR_DB = 10;
+
+// Less speech than this is not enough to say anything about the voice
+const MIN_SPEECH_SECONDS = 0.5;
+
+// Timeline windows are cut at the quietest moment between these lengths
+const MIN_WINDOW_SECONDS = 2;
+const MAX_WINDOW_SECONDS = 3;
+
+export interface ProsodyFeatures {
+  duration: number; // Seconds of audio analysed
+  speechDuration: number; // Seconds of frames classed as speech
+  meanPitch: number; // Hz over voiced frames
+  pitchVariability: number; // Standard deviation in semitones
+  pitchRange: number; // 10th to 90th percentile, in semitones
+  pitchContour: number[]; // Hz per frame, 0 where unvoiced
+  meanLoudness: number; // dBFS over speech frames
+  loudnessVariability: number; // Standard deviation in dB over speech frames
+  rmsContour: number[]; // RMS per frame
+  speakingRate: number; // Syllable-like energy peaks per second, pauses included
+  jitter: number; // Mean relative change in pitch period between neighbouring voiced frames
+  pauseRatio: number; // Share of the speaking span spent silent
+}
+
+// One stretch of a recording with its own prosody, see extractProsodyTimeline
+export interface ProsodyWindow {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  features: ProsodyFeatures;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Map value onto 0-1 between low and high
+const normalize = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const percentile = (values: number[], fraction: number) => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+};
+
+const toSemitones = (hz: number, reference: number) => 12 * Math.log2(hz / reference);
+
+// Low-pass with a box filter and decimate to the analysis rate
+const resample = (audio: PcmAudio): Float32Array => {
+  if (audio.sampleRate <= ANALYSIS_RATE) {
+    return audio.samples;
+  }
+
+  const ratio = audio.sampleRate / ANALYSIS_RATE;
+  const length = Math.floor(audio.samples.length / ratio);
+  const output = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(audio.samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += audio.samples[j];
+    }
+    output[i] = sum / Math.max(1, end - start);
+  }
+
+  return output;
+};
+
+// Pitch of one frame by normalised autocorrelation, or 0 when unvoiced
+const detectPitch = (samples: Float32Array, start: number, length: number, rate: number): number => {
+  const minLag = Math.floor(rate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(rate / MIN_PITCH_HZ), length - 1);
+
+  let frameMean = 0;
+  for (let i = 0; i < length; i++) {
+    frameMean += samples[start + i];
+  }
+  frameMean /= length;
+
+  let energy = 0;
+  for (let i = 0; i < length; i++) {
+    const value = samples[start + i] - frameMean;
+    energy += value * value;
+  }
+  if (energy === 0) {
+    return 0;
+  }
+
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  let previous = 0;
+  let rising = false;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i + lag < length; i++) {
+      correlation += (samples[start + i] - frameMean) * (samples[start + i + lag] - frameMean);
+    }
+    // Scale by the overlap so long lags are not penalised
+    correlation = (correlation / energy) * (length / (length - lag));
+
+    // Take the first strong peak to avoid octave errors at multiples of the period
+    if (correlation < previous && rising && previous > bestCorrelation) {
+      bestCorrelation = previous;
+      bestLag = lag - 1;
+      if (bestCorrelation > 0.8) {
+        break;
+      }
+    }
+    rising = correlation > previous;
+    previous = correlation;
+  }
+
+  return bestCorrelation >= VOICING_THRESHOLD && bestLag > 0 ? rate / bestLag : 0;
+};
+
+// Count syllable-like peaks in the loudness contour of speech frames
+const countSyllables = (loudness: number[], isSpeech: boolean[], minGapFrames: number): number => {
+  // Smooth over three frames so a single vowel gives one peak
+  const smoothed = loudness.map((_, i) => {
+    const window = loudness.slice(Math.max(0, i - 1), i + 2);
+    return mean(window);
+  });
+
+  let count = 0;
+  let lastPeak = -minGapFrames;
+  let dip = smoothed[0];
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    const isPeak = smoothed[i] > smoothed[i - 1] && smoothed[i] >= smoothed[i + 1];
+    // A peak has to stand out from the dip before it
+    if (isSpeech[i] && isPeak && i - lastPeak >= minGapFrames && smoothed[i] - dip >= 2) {
+      count++;
+      lastPeak = i;
+      dip = smoothed[i];
+    } else {
+      dip = Math.min(dip, smoothed[i]);
+    }
+  }
+  return count;
+};
+
+// RMS and dBFS loudness per analysis frame
+const measureFrames = (samples: Float32Array, rate: number) => {
+  const frameLength = Math.round((rate * FRAME_MS) / 1000);
+  const hop = Math.round((rate * HOP_MS) / 1000);
+
+  const rmsContour: number[] = [];
+  const loudness: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    let sum = 0;
+    for (let i = 0; i < frameLength; i++) {
+      sum += samples[start + i] * samples[start + i];
+    }
+    const rms = Math.sqrt(sum / frameLength);
+    rmsContour.push(rms);
+    loudness.push(20 * Math.log10(Math.max(rms, 1e-6)));
+  }
+
+  return { frameLength, hop, rmsContour, loudness };
+};
+
+// Speech is anything well above the quietest tenth of the recording
+const findSpeechThreshold = (loudness: number[]): number =>
+  Math.max(SILENCE_DB, percentile(loudness, 0.1) + SPEECH_ABOVE_FLOOR_DB);
+
+/**
+ * Measure how something was said: pitch, loudness, rate, jitter and pauses
+ * @param audio Decoded recording
+ * @param speechThreshold dBFS a frame needs to count as speech; by default
+ * worked out from this audio's own noise floor
+ * @returns Prosody features, or null when there is too little speech to measure
+ */
+export const extractProsodyFeatures = (audio: PcmAudio, speechThreshold?: number): ProsodyFeatures | null => {
+  const samples = resample(audio);
+  const rate = Math.min(audio.sampleRate, ANALYSIS_RATE);
+  const { frameLength, hop, rmsContour, loudness } = measureFrames(samples, rate);
+
+  if (loudness.length === 0) {
+    return null;
+  }
+
+  const threshold = speechThreshold ?? findSpeechThreshold(loudness);
+  const isSpeech = loudness.map(value => value >= threshold);
+
+  const speechFrames = isSpeech.filter(Boolean).length;
+  const speechDuration = (speechFrames * HOP_MS) / 1000;
+  if (speechDuration < MIN_SPEECH_SECONDS) {
+    return null;
+  }
+
+  // Pitch only where there is speech
+  const pitchContour = isSpeech.map((speech, frame) =>
+    speech ? detectPitch(samples, frame * hop, frameLength, rate) : 0
+  );
+  const voicedPitches = pitchContour.filter(pitch => pitch > 0);
+  const meanPitch = mean(voicedPitches);
+  const semitones = voicedPitches.map(pitch => toSemitones(pitch, meanPitch || 1));
+
+  // Jitter: relative period change between neighbouring voiced frames
+  const periodChanges: number[] = [];
+  for (let i = 1; i < pitchContour.length; i++) {
+    if (pitchContour[i] > 0 && pitchContour[i - 1] > 0) {
+      const period = 1 / pitchContour[i];
+      const previousPeriod = 1 / pitchContour[i - 1];
+      periodChanges.push(Math.abs(period - previousPeriod) / ((period + previousPeriod) / 2));
+    }
+  }
+
+  // Pauses count only between the first and last speech frame
+  const firstSpeech = isSpeech.indexOf(true);
+  const lastSpeech = isSpeech.lastIndexOf(true);
+  const span = lastSpeech - firstSpeech + 1;
+  const pauseRatio = span > 0 ? 1 - speechFrames / span : 0;
+
+  const speechLoudness = loudness.filter((_, frame) => isSpeech[frame]);
+  const syllables = countSyllables(loudness, isSpeech, Math.round(100 / HOP_MS));
+
+  return {
+    duration: samples.length / rate,
+    speechDuration,
+    meanPitch,
+    pitchVariability: standardDeviation(semitones),
+    pitchRange: percentile(semitones, 0.9) - percentile(semitones, 0.1),
+    pitchContour,
+    meanLoudness: mean(speechLoudness),
+    loudnessVariability: standardDeviation(speechLoudness),
+    rmsContour,
+    speakingRate: syllables / ((span * HOP_MS) / 1000),
+    jitter: mean(periodChanges),
+    pauseRatio,
+  };
+};
+
+/**
+ * Measure prosody a few seconds at a time, to follow how the voice changes
+ * over a longer recording. Windows are 2-3 seconds long and cut at the
+ * quietest moment in that range, so they tend to end in pauses rather than
+ * mid-word. Speech is judged against the whole recording's noise floor, and
+ * windows with too little speech are left out.
+ * @param audio Decoded recording
+ * @returns Windows with speech, in time order
+ */
+export const extractProsodyTimeline = (audio: PcmAudio): ProsodyWindow[] => {
+  const rate = Math.min(audio.sampleRate, ANALYSIS_RATE);
+  const { loudness } = measureFrames(resample(audio), rate);
+  if (loudness.length === 0) {
+    return [];
+  }
+
+  const threshold = findSpeechThreshold(loudness);
+  const framesPerSecond = 1000 / HOP_MS;
+  const minFrames = Math.round(MIN_WINDOW_SECONDS * framesPerSecond);
+  const maxFrames = Math.round(MAX_WINDOW_SECONDS * framesPerSecond);
+
+  // Frame indices where one window ends and the next begins
+  const cuts = [0];
+  let start = 0;
+  while (loudness.length - start > maxFrames) {
+    let cut = start + minFrames;
+    for (let frame = cut; frame <= start + maxFrames; frame++) {
+      if (loudness[frame] < loudness[cut]) {
+        cut = frame;
+      }
+    }
+    cuts.push(cut);
+    start = cut;
+  }
+
+  const totalSeconds = audio.samples.length / audio.sampleRate;
+  const windows: ProsodyWindow[] = [];
+  cuts.forEach((cut, index) => {
+    const windowStart = cut / framesPerSecond;
+    const windowEnd = index + 1 < cuts.length ? cuts[index + 1] / framesPerSecond : totalSeconds;
+    const samples = audio.samples.subarray(
+      Math.round(windowStart * audio.sampleRate),
+      Math.round(windowEnd * audio.sampleRate)
+    );
+
+    const features = extractProsodyFeatures({ sampleRate: audio.sampleRate, samples }, threshold);
+    if (features) {
+      windows.push({ start: windowStart, end: windowEnd, features });
+    }
+  });
+
+  return windows;
+};
+
+/**
+ * Find where speech starts and ends in a recording, e.g. to trim the silence
+ * around it. The speech threshold comes from the recording's noise floor, as
+ * for prosody analysis.
+ * @param audio Decoded recording
+ * @param paddingSeconds Silence kept either side so words aren't clipped
+ * @returns Start and end in seconds, or null when there is no speech
+ */
+export const findSpeechBounds = (
+  audio: PcmAudio,
+  paddingSeconds: number = 0
+): { start: number; end: number } | null => {
+  const rate = Math.min(audio.sampleRate, ANALYSIS_RATE);
+  const { loudness } = measureFrames(resample(audio), rate);
+  if (loudness.length === 0) {
+    return null;
+  }
+
+  const threshold = findSpeechThreshold(loudness);
+  const first = loudness.findIndex(level => level >= threshold);
+  if (first < 0) {
+    return null;
+  }
+  let last = loudness.length - 1;
+  while (loudness[last] < threshold) {
+    last--;
+  }
+
+  const totalSeconds = audio.samples.length / audio.sampleRate;
+  return {
+    start: Math.max(0, (first * HOP_MS) / 1000 - paddingSeconds),
+    end: Math.min(totalSeconds, ((last * HOP_MS) + FRAME_MS) / 1000 + paddingSeconds),
+  };
+};
+
+/**
+ * Turn prosody features into emotion data.
+ *
+ * The heuristics follow the usual findings on vocal emotion:
+ * - energy rises with loudness, speaking rate and pitch movement
+ * - tension rises with jitter (an unsteady voice), fast speech and few pauses
+ * - calmness rises with slow speech, steady pitch and natural pauses
+ * - joy is lively (varied pitch) but steady; anger is loud and tense; fear is
+ *   tense and fast without being loud; sadness is quiet, flat, slow and pausing;
+ *   surprise shows as a wide pitch range
+ * Voice alone says little about valence, so neutral keeps a sizeable share.
+ * @param features Features from extractProsodyFeatures
+ * @returns Emotion data with emotions summing to 1
+ */
+export const prosodyToEmotions = (features: ProsodyFeatures): EmotionData => {
+  // Normal conversational speech sits in the middle of each range
+  const loud = normalize(features.meanLoudness, -40, -12);
+  const rate = normalize(features.speakingRate, 2.5, 6.5);
+  const variability = normalize(features.pitchVariability, 1, 5);
+  const range = normalize(features.pitchRange, 3, 12);
+  const jitter = normalize(features.jitter, 0.01, 0.06);
+  const pauses = normalize(features.pauseRatio, 0.1, 0.5);
+
+  const energy = clamp01(0.4 * loud + 0.3 * rate + 0.3 * variability);
+  const tension = clamp01(0.45 * jitter + 0.3 * rate + 0.25 * (1 - pauses));
+  const calmness = clamp01(0.35 * (1 - rate) + 0.25 * (1 - variability) + 0.2 * (1 - jitter) + 0.2 * pauses);
+
+  const scores = {
+    joy: energy * variability * (1 - 0.5 * jitter),
+    anger: energy * tension * loud,
+    fear: tension * rate * (1 - 0.5 * loud),
+    sadness: (1 - energy) * (1 - variability) * (0.5 + 0.5 * pauses),
+    contentment: calmness * (1 - tension),
+    surprise: 0.6 * range * energy,
+    disgust: 0.3 * (1 - variability) * tension,
+    neutral: 0.3 + 0.3 * (1 - Math.abs(energy - 0.5) * 2),
+  };
+  const total = Object.values(scores).reduce((sum, value) => sum + value, 0);
+
+  return {
+    joy: scores.joy / total,
+    sadness: scores.sadness / total,
+    anger: scores.anger / total,
+    fear: scores.fear / total,
+    surprise: scores.surprise / total,
+    disgust: scores.disgust / total,
+    contentment: scores.contentment / total,
+    neutral: scores.neutral / total,
+    energy: Math.round(energy * 100),
+    calmness: Math.round(calmness * 100),
+    tension: Math.round(tension * 100),
+  };
+};
@@ -0,0 +1,202 @@
+import { MoodEntry } from '../../../types';
+import {
+  MoodEntryRepository,
+  StorageNamespace,
+  createEncryptedRepository,
+  createFileSystemRepository,
+  createLocalStorageRepository,
+  createMemoryRepository,
+} from '..';
+
+// In-memory stand-in for the document directory
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  getInfoAsync: jest.fn(async (path: string) => ({
+    exists: mockFiles.has(path) || Array.from(mockFiles.keys()).some(file => file.startsWith(path)),
+  })),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  readDirectoryAsync: jest.fn(async (dir: string) =>
+    Array.from(mockFiles.keys())
+      .filter(file => file.startsWith(dir) && !file.slice(dir.length).includes('/'))
+      .map(file => file.slice(dir.length))
+  ),
+  readAsStringAsync: jest.fn(async (path: string) => {
+    const contents = mockFiles.get(path);
+    if (contents === undefined) {
+      throw new Error(`No such file: ${path}`);
+    }
+    return contents;
+  }),
+  writeAsStringAsync: jest.fn(async (path: string, contents: string) => {
+    mockFiles.set(path, contents);
+  }),
+  deleteAsync: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+}));
+
+// Not installed for tests; only the legacy index cleanup touches it
+jest.mock('expo-secure-store', () => ({
+  deleteItemAsync: jest.fn(async () => undefined),
+}), { virtual: true });
+
+// Minimal browser localStorage
+const createLocalStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+};
+
+// Reversible stand-in for the real cipher
+const reverseCipher = {
+  encrypt: (plaintext: string) => `enc:${plaintext.split('').reverse().join('')}`,
+  decrypt: (stored: string) => stored.slice('enc:'.length).split('').reverse().join(''),
+};
+
+beforeEach(() => {
+  mockFiles.clear();
+  (globalThis as { localStorage?: Storage }).localStorage = createLocalStorage();
+});
+
+const adapters: [string, (namespace?: StorageNamespace) => MoodEntryRepository][] = [
+  ['memory', () => createMemoryRepository()],
+  ['encrypted', () => createEncryptedRepository(createMemoryRepository(), reverseCipher)],
+  ['localStorage', namespace => createLocalStorageRepository(namespace)],
+  ['fileSystem', namespace => createFileSystemRepository(namespace)],
+];
+
+describe.each(adapters)('%s repository', (_name, create) => {
+  let repository: MoodEntryRepository;
+
+  beforeEach(async () => {
+    repository = create();
+    expect(await repository.init()).toBe(true);
+  });
+
+  it('starts empty', async () => {
+    expect(await repository.listRecords()).toEqual([]);
+  });
+
+  it('reads back what was written', async () => {
+    await repository.writeRecord('manifest', '{"version":3}');
+    await repository.writeRecord('page_2024-05', '[{"id":"a"}]');
+
+    expect(await repository.readRecord('manifest')).toBe('{"version":3}');
+    expect(await repository.readRecord('page_2024-05')).toBe('[{"id":"a"}]');
+  });
+
+  it('returns null for missing records', async () => {
+    expect(await repository.readRecord('page_1999-01')).toBeNull();
+  });
+
+  it('overwrites existing records', async () => {
+    await repository.writeRecord('manifest', 'first');
+    await repository.writeRecord('manifest', 'second');
+
+    expect(await repository.readRecord('manifest')).toBe('second');
+    expect(await repository.listRecords()).toEqual(['manifest']);
+  });
+
+  it('lists every written key', async () => {
+    await repository.writeRecord('manifest', '{}');
+    await repository.writeRecord('page_2024-05', '[]');
+    await repository.writeRecord('page_2024-06', '[]');
+
+    expect((await repository.listRecords()).sort()).toEqual(['manifest', 'page_2024-05', 'page_2024-06']);
+  });
+
+  it('deletes records, and deleting a missing record is not an error', async () => {
+    await repository.writeRecord('page_2024-05', '[]');
+    await repository.deleteRecord('page_2024-05');
+    await repository.deleteRecord('page_2024-05');
+
+    expect(await repository.readRecord('page_2024-05')).toBeNull();
+    expect(await repository.listRecords()).toEqual([]);
+  });
+});
+
+describe.each(adapters.filter(([name]) => name === 'localStorage' || name === 'fileSystem'))(
+  '%s namespaces',
+  (_name, create) => {
+    it('keeps main and demo records apart', async () => {
+      const main = create('main');
+      const demo = create('demo');
+      await main.init();
+      await demo.init();
+
+      await main.writeRecord('manifest', 'main');
+      await demo.writeRecord('manifest', 'demo');
+      await demo.writeRecord('page_2024-05', 'demo page');
+
+      expect(await main.readRecord('manifest')).toBe('main');
+      expect(await demo.readRecord('manifest')).toBe('demo');
+      expect(await main.listRecords()).toEqual(['manifest']);
+      expect((await demo.listRecords()).sort()).toEqual(['manifest', 'page_2024-05']);
+
+      await demo.deleteRecord('manifest');
+      expect(await main.readRecord('manifest')).toBe('main');
+    });
+  }
+);
+
+describe('encrypted repository', () => {
+  it('stores only ciphertext in the inner repository', async () => {
+    const inner = createMemoryRepository();
+    const repository = createEncryptedRepository(inner, reverseCipher);
+
+    await repository.writeRecord('manifest', 'secret');
+
+    expect(await inner.readRecord('manifest')).toBe(reverseCipher.encrypt('secret'));
+    expect(await inner.listRecords()).toEqual(['manifest']);
+  });
+
+  it('passes decryption errors to the caller', async () => {
+    const inner = createMemoryRepository();
+    const repository = createEncryptedRepository(inner, {
+      encrypt: value => value,
+      decrypt: () => {
+        throw new Error('wrong key');
+      },
+    });
+
+    await inner.writeRecord('manifest', 'garbled');
+
+    await expect(repository.readRecord('manifest')).rejects.toThrow('wrong key');
+  });
+});
+
+describe('memory repository', () => {
+  it('lists pre-populated legacy entries as records', async () => {
+    const legacyEntry: MoodEntry = {
+      id: 'legacy_1',
+      timestamp: 1,
+      createdAt: 1,
+      date: '1970-01-01',
+      emotions: {
+        joy: 1, sadness: 0, anger: 0, fear: 0, surprise: 0, disgust: 0, contentment: 0, neutral: 0,
+        energy: 50, calmness: 50, tension: 50,
+      },
+      dominantEmotion: 'joy',
+      confidence: 1,
+      source: 'sliders',
+    };
+    const repository = createMemoryRepository([legacyEntry]);
+
+    expect(await repository.listRecords()).toEqual(['legacy_1']);
+    expect(JSON.parse((await repository.readRecord('legacy_1')) as string).id).toBe('legacy_1');
+  });
+});
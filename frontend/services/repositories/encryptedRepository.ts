@@ -0,0 +1,42 @@
+import { MoodEntryRepository } from './moodEntryRepository';
+
+/**
+ * Transforms applied to record contents on their way to and from storage
+ */
+export interface RecordCipher {
+  encrypt(plaintext: string): string;
+  decrypt(stored: string): string;
+}
+
+/**
+ * Wrap a repository so every record is encrypted before it is written and
+ * decrypted when it is read. Keys stay in plaintext so records can still be
+ * listed; decryption errors are thrown to the caller rather than treated as
+ * missing records.
+ * @param inner Repository that stores the encrypted records
+ * @param cipher Encrypts and decrypts record contents
+ * @returns Encrypting repository
+ */
+export const createEncryptedRepository = (
+  inner: MoodEntryRepository,
+  cipher: RecordCipher
+): MoodEntryRepository => {
+  return {
+    name: inner.name,
+
+    init: () => inner.init(),
+
+    listRecords: () => inner.listRecords(),
+
+    readRecord: async (key: string) => {
+      const stored = await inner.readRecord(key);
+      return stored === null ? null : cipher.decrypt(stored);
+    },
+
+    writeRecord: (key: string, value: string) => inner.writeRecord(key, cipher.encrypt(value)),
+
+    deleteRecord: (key: string) => inner.deleteRecord(key),
+
+    clearLegacyIndex: inner.clearLegacyIndex ? () => inner.clearLegacyIndex!() : undefined,
+  };
+};
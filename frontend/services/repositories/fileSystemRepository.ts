@@ -0,0 +1,103 @@
+import { MoodEntryRepository, StorageNamespace } from './moodEntryRepository';
+
+// SecureStore key of the old one-record-per-entry index
+const MOOD_ENTRIES_KEY = 'emotiglass_mood_entries_index';
+
+// Directory of each namespace inside the document directory
+const NAMESPACE_DIRECTORIES: Record<StorageNamespace, string> = {
+  main: 'mood_entries/',
+  demo: 'demo_entries/',
+};
+
+/**
+ * Create a repository that stores each record as a JSON file in the
+ * document directory (native only)
+ * @param namespace Which set of records to use
+ * @returns File system repository
+ */
+export const createFileSystemRepository = (namespace: StorageNamespace = 'main'): MoodEntryRepository => {
+  // Required lazily so web bundles never evaluate the native modules
+  let SecureStore: any = null;
+  let FileSystem: any = null;
+
+  try {
+    SecureStore = require('expo-secure-store');
+    FileSystem = require('expo-file-system');
+  } catch (error) {
+    console.warn('Failed to import mobile-specific modules:', error);
+  }
+
+  // The main namespace uses the directory of the per-entry layout, so legacy
+  // entries list as records
+  const recordsDir: string | null = FileSystem?.documentDirectory
+    ? FileSystem.documentDirectory + NAMESPACE_DIRECTORIES[namespace]
+    : null;
+
+  const recordPath = (key: string): string => `${recordsDir}${key}.json`;
+
+  const requireModules = () => {
+    if (!FileSystem || !recordsDir) {
+      throw new Error('File system storage is not available on this device');
+    }
+  };
+
+  return {
+    name: namespace === 'main' ? 'fileSystem' : `fileSystem (${namespace})`,
+
+    init: async () => {
+      if (!FileSystem || !recordsDir) {
+        return false;
+      }
+
+      try {
+        const dirInfo = await FileSystem.getInfoAsync(recordsDir);
+
+        if (!dirInfo.exists) {
+          console.log(`Creating directory: ${recordsDir}`);
+          await FileSystem.makeDirectoryAsync(recordsDir, { intermediates: true });
+        }
+
+        return true;
+      } catch (error) {
+        console.error(`Error ensuring directory exists: ${recordsDir}`, error);
+        return false;
+      }
+    },
+
+    listRecords: async () => {
+      requireModules();
+      const files: string[] = await FileSystem.readDirectoryAsync(recordsDir);
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => file.slice(0, -'.json'.length));
+    },
+
+    readRecord: async (key: string) => {
+      requireModules();
+      const path = recordPath(key);
+
+      const fileInfo = await FileSystem.getInfoAsync(path);
+      if (!fileInfo.exists) {
+        return null;
+      }
+
+      return FileSystem.readAsStringAsync(path);
+    },
+
+    writeRecord: async (key: string, value: string) => {
+      requireModules();
+      await FileSystem.writeAsStringAsync(recordPath(key), value);
+    },
+
+    deleteRecord: async (key: string) => {
+      requireModules();
+      await FileSystem.deleteAsync(recordPath(key), { idempotent: true });
+    },
+
+    clearLegacyIndex: async () => {
+      if (SecureStore && namespace === 'main') {
+        await SecureStore.deleteItemAsync(MOOD_ENTRIES_KEY);
+      }
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { Platform } from 'react-native';
+import { MoodEntryRepository, StorageNamespace } from './moodEntryRepository';
+import { createLocalStorageRepository } from './localStorageRepository';
+import { createFileSystemRepository } from './fileSystemRepository';
+
+export type { MoodEntryRepository, StorageNamespace };
+export type { RecordCipher } from './encryptedRepository';
+export { createMemoryRepository } from './memoryRepository';
+export { createEncryptedRepository } from './encryptedRepository';
+export { createLocalStorageRepository, createFileSystemRepository };
+
+/**
+ * Pick the default repository for the current platform
+ * @param namespace Which set of records to use
+ * @returns localStorage repository on web, file system repository on native
+ */
+export const createPlatformRepository = (namespace: StorageNamespace = 'main'): MoodEntryRepository => {
+  return Platform.OS === 'web'
+    ? createLocalStorageRepository(namespace)
+    : createFileSystemRepository(namespace);
+};
@@ -0,0 +1,61 @@
+import { MoodEntryRepository, StorageNamespace } from './moodEntryRepository';
+
+// Index key of the old one-record-per-entry layout
+const MOOD_ENTRIES_KEY = 'emotiglass_mood_entries_index';
+
+// Records of the main namespace share the old entry key prefix so legacy
+// entries list as records
+const RECORD_PREFIXES: Record<StorageNamespace, string> = {
+  main: `${MOOD_ENTRIES_KEY}_`,
+  demo: 'emotiglass_demo_entries_',
+};
+
+/**
+ * Create a repository backed by the browser's localStorage (web only)
+ * @param namespace Which set of records to use
+ * @returns localStorage repository
+ */
+export const createLocalStorageRepository = (namespace: StorageNamespace = 'main'): MoodEntryRepository => {
+  const recordPrefix = RECORD_PREFIXES[namespace];
+
+  return {
+    name: namespace === 'main' ? 'localStorage' : `localStorage (${namespace})`,
+
+    init: async () => {
+      if (typeof localStorage === 'undefined') {
+        console.error('localStorage is not available');
+        return false;
+      }
+      return true;
+    },
+
+    listRecords: async () => {
+      const keys: string[] = [];
+
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(recordPrefix)) {
+          keys.push(key.substring(recordPrefix.length));
+        }
+      }
+
+      return keys;
+    },
+
+    readRecord: async (key: string) => localStorage.getItem(recordPrefix + key),
+
+    writeRecord: async (key: string, value: string) => {
+      localStorage.setItem(recordPrefix + key, value);
+    },
+
+    deleteRecord: async (key: string) => {
+      localStorage.removeItem(recordPrefix + key);
+    },
+
+    clearLegacyIndex: async () => {
+      if (namespace === 'main') {
+        localStorage.removeItem(MOOD_ENTRIES_KEY);
+      }
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import { MoodEntry } from '../../types';
+import { MoodEntryRepository } from './moodEntryRepository';
+
+/**
+ * Create a repository that keeps records in memory only.
+ * Has no platform dependencies, so storage logic can run on plain Node.
+ * @param legacyEntries Entries to pre-populate in the old one-record-per-entry
+ * layout; the database imports them on first load
+ * @returns In-memory repository
+ */
+export const createMemoryRepository = (legacyEntries: MoodEntry[] = []): MoodEntryRepository => {
+  const records = new Map<string, string>();
+
+  legacyEntries.forEach(entry => {
+    records.set(entry.id, JSON.stringify(entry));
+  });
+
+  return {
+    name: 'memory',
+
+    init: async () => true,
+
+    listRecords: async () => Array.from(records.keys()),
+
+    readRecord: async (key: string) => records.get(key) ?? null,
+
+    writeRecord: async (key: string, value: string) => {
+      records.set(key, value);
+    },
+
+    deleteRecord: async (key: string) => {
+      records.delete(key);
+    },
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * Persistence backend for the mood entry database.
+ *
+ * Adapters are plain string record stores: they know nothing about entries,
+ * pages or indexes. The paged layout and its secondary indexes live in
+ * services/moodEntryDatabase.ts so they behave the same on every platform.
+ */
+/**
+ * Separate sets of records on the same device. Demo mode keeps its sample
+ * entries in their own namespace so they never mix with the real diary.
+ */
+export type StorageNamespace = 'main' | 'demo';
+
+export interface MoodEntryRepository {
+  // Adapter name, used in log messages
+  readonly name: string;
+
+  /**
+   * Prepare the backing medium (create directories, check availability)
+   * @returns Whether the adapter is ready to use
+   */
+  init(): Promise<boolean>;
+
+  /**
+   * List the keys of every stored record
+   * @returns Record keys in no particular order
+   */
+  listRecords(): Promise<string[]>;
+
+  /**
+   * Read a single record
+   * @param key Record key
+   * @returns The raw record, or null if it does not exist
+   */
+  readRecord(key: string): Promise<string | null>;
+
+  /**
+   * Create or overwrite a single record
+   * @param key Record key
+   * @param value Raw record contents
+   */
+  writeRecord(key: string, value: string): Promise<void>;
+
+  /**
+   * Remove a single record. Removing a missing record is not an error.
+   * @param key Record key
+   */
+  deleteRecord(key: string): Promise<void>;
+
+  /**
+   * Remove bookkeeping left behind by the old one-record-per-entry layout.
+   * Called once after legacy entries have been imported.
+   */
+  clearLegacyIndex?(): Promise<void>;
+}
@@ -0,0 +1,118 @@
+import { getSecureItem, setSecureItem } from '../utils/secureStorage';
+import { ThemeMode } from '../constants/theme';
+
+const SETTINGS_KEY = 'emotiglass_settings';
+
+/**
+ * User preferences that persist across restarts. App lock settings
+ * (PIN, biometrics, auto-lock) live in services/appLockService.ts.
+ */
+export interface AppSettings {
+  themeMode: ThemeMode;
+  demoMode: boolean; // Showing sample entries instead of the diary, see services/demoMode.ts
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  themeMode: 'system',
+  demoMode: false,
+};
+
+type SettingsListener = (settings: AppSettings) => void;
+
+let settings: AppSettings = DEFAULT_SETTINGS;
+const listeners = new Set<SettingsListener>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener(settings));
+};
+
+const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system'];
+
+type StoredSettings = Partial<Record<keyof AppSettings, unknown>> & { darkModeEnabled?: unknown };
+
+// Take one stored setting when it has the same type as its default
+const copySetting = <K extends keyof AppSettings>(result: AppSettings, stored: StoredSettings, key: K) => {
+  const value = stored[key];
+  if (typeof value === typeof DEFAULT_SETTINGS[key]) {
+    result[key] = value as AppSettings[K];
+  }
+};
+
+// Keep known keys with the right type, falling back to defaults. Settings
+// dropped from AppSettings are left behind.
+const sanitizeSettings = (stored: StoredSettings): AppSettings => {
+  const result = { ...DEFAULT_SETTINGS };
+
+  // Older builds stored a dark mode switch instead of a theme mode
+  if (stored.themeMode === undefined && typeof stored.darkModeEnabled === 'boolean') {
+    result.themeMode = stored.darkModeEnabled ? 'dark' : 'light';
+  }
+
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => copySetting(result, stored, key));
+
+  if (!THEME_MODES.includes(result.themeMode)) {
+    result.themeMode = DEFAULT_SETTINGS.themeMode;
+  }
+
+  return result;
+};
+
+/**
+ * Load saved settings. Call once at startup; until then defaults are used.
+ * @returns The loaded settings
+ */
+export const initSettings = async (): Promise<AppSettings> => {
+  try {
+    const settingsJson = await getSecureItem(SETTINGS_KEY);
+    settings = settingsJson ? sanitizeSettings(JSON.parse(settingsJson)) : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('[settingsService] Failed to load settings, using defaults:', error);
+    settings = DEFAULT_SETTINGS;
+  }
+
+  notifyListeners();
+  return settings;
+};
+
+/**
+ * Current settings. The object is replaced on every change, so it can be
+ * compared by reference.
+ */
+export const getSettings = (): AppSettings => settings;
+
+/**
+ * Change one or more settings and save them
+ * @param changes Settings to change
+ * @returns Whether the settings were saved; they apply for this session either way
+ */
+export const updateSettings = async (changes: Partial<AppSettings>): Promise<boolean> => {
+  settings = { ...settings, ...changes };
+  notifyListeners();
+
+  try {
+    await setSecureItem(SETTINGS_KEY, JSON.stringify(settings));
+    return true;
+  } catch (error) {
+    console.error('[settingsService] Failed to save settings:', error);
+    return false;
+  }
+};
+
+/**
+ * Restore every setting to its default
+ */
+export const resetSettings = async (): Promise<boolean> => {
+  return updateSettings(DEFAULT_SETTINGS);
+};
+
+/**
+ * Get notified whenever settings change
+ * @param listener Called with the new settings
+ * @returns Function that removes the listener
+ */
+export const subscribeToSettings = (listener: SettingsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
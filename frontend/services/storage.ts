@@ -1,74 +1,83 @@
-import { Platform } from 'react-native';
-import { MoodEntry } from '../types';
-import { generateMoodEntries } from './dummyData';
+import { MoodEntry, MoodEntryAttachment } from '../types';
+import {
+  MoodEntryRepository,
+  RecordCipher,
+  StorageNamespace,
+  createEncryptedRepository,
+  createPlatformRepository,
+} from './repositories';
+import { MoodEntryDatabase, MoodEntryQuery, createMoodEntryDatabase } from './moodEntryDatabase';
+import { CURRENT_SCHEMA_VERSION, migrateMoodEntry } from './migrations';
+import { decryptText, encryptText } from './encryptionService';
+import { deleteAttachments } from './attachmentService';
 
-// Import expo modules conditionally to avoid web build issues
-let SecureStore: any = null;
-let FileSystem: any = null;
+export type { MoodEntry, MoodEntryQuery, StorageNamespace };
 
-// Only import native modules on mobile platforms
-if (Platform.OS !== 'web') {
-  try {
-    SecureStore = require('expo-secure-store');
-    FileSystem = require('expo-file-system');
-  } catch (error) {
-    console.warn('Failed to import mobile-specific modules:', error);
-  }
-}
+// Active repository, chosen once by initStorage (or lazily on first use)
+let repository: MoodEntryRepository | null = null;
+// Which set of records the platform repository opens; see services/demoMode.ts
+let namespace: StorageNamespace = 'main';
+let database: MoodEntryDatabase | null = null;
+let databaseLoad: Promise<void> | null = null;
 
-const MOOD_ENTRIES_KEY = 'emotiglass_mood_entries_index';
-const MOOD_ENTRIES_DIR = FileSystem?.documentDirectory ? FileSystem.documentDirectory + 'mood_entries/' : null;
+// Records are encrypted whenever encryption is enabled, see services/encryptionService.ts
+const recordCipher: RecordCipher = {
+  encrypt: encryptText,
+  decrypt: decryptText,
+};
 
-export type { MoodEntry };
+const getRepository = (): MoodEntryRepository => {
+  if (!repository) {
+    repository = createEncryptedRepository(createPlatformRepository(namespace), recordCipher);
+  }
+  return repository;
+};
 
-// Helper function to ensure directory exists (mobile only)
-const ensureDirectoryExists = async (directory: string): Promise<boolean> => {
-  if (Platform.OS === 'web' || !FileSystem) {
-    return true; // On web, directories don't need to be created
+// Get the loaded database, loading the manifest on first use
+const getDatabase = async (): Promise<MoodEntryDatabase> => {
+  if (!database) {
+    database = createMoodEntryDatabase(getRepository(), {
+      migrateLegacyEntry: migrateMoodEntry,
+    });
+    databaseLoad = null;
+  }
+  if (!databaseLoad) {
+    databaseLoad = database.load();
   }
 
   try {
-    const dirInfo = await FileSystem.getInfoAsync(directory);
-    
-    if (!dirInfo.exists) {
-      console.log(`Creating directory: ${directory}`);
-      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
-    }
-    
-    return true;
+    await databaseLoad;
   } catch (error) {
-    console.error(`Error ensuring directory exists: ${directory}`, error);
-    return false;
+    // Allow the next call to retry the load
+    databaseLoad = null;
+    throw error;
   }
+
+  return database;
 };
 
 // Initialize storage
-export const initStorage = async (): Promise<boolean> => {
+export const initStorage = async (adapter?: MoodEntryRepository): Promise<boolean> => {
   try {
-    // Create mood entries directory if needed (mobile only)
-    if (Platform.OS !== 'web' && MOOD_ENTRIES_DIR) {
-      const dirCreated = await ensureDirectoryExists(MOOD_ENTRIES_DIR);
-      
-      if (!dirCreated) {
-        console.error('Failed to create mood entries directory');
-        return false;
-      }
+    // An explicit adapter always wins; otherwise keep whatever is already active
+    if (adapter) {
+      repository = createEncryptedRepository(adapter, recordCipher);
+      database = null;
     }
-    
-    // Check if we have any entries already
-    const entryIds = await getEntryIndex();
-    
-    // If no entries, generate some dummy data for prototype
-    if (entryIds.length === 0) {
-      console.log('No entries found, generating dummy data');
-      const dummyEntries = generateMoodEntries(30);
-      
-      // Save each dummy entry
-      for (const entry of dummyEntries) {
-        await saveMoodEntry(entry);
-      }
+
+    const activeRepository = getRepository();
+    const ready = await activeRepository.init();
+
+    if (!ready) {
+      console.error(`Failed to initialize ${activeRepository.name} storage`);
+      return false;
     }
-    
+
+    const db = await getDatabase();
+
+    // Bring entries written by older builds up to the current schema
+    await runMigrations(db);
+
     return true;
   } catch (error) {
     console.error('Failed to initialize storage:', error);
@@ -76,204 +85,115 @@ export const initStorage = async (): Promise<boolean> => {
   }
 };
 
-// Get entry index from secure storage or localStorage
+// Get the namespace whose entries are active
+export const getStorageNamespace = (): StorageNamespace => namespace;
+
+/**
+ * Close the active entries and open another namespace's instead
+ * @param next Namespace to open
+ * @returns Whether the namespace was opened and initialized
+ */
+export const switchStorageNamespace = async (next: StorageNamespace): Promise<boolean> => {
+  namespace = next;
+  repository = null;
+  database = null;
+  databaseLoad = null;
+  return initStorage();
+};
+
+// Upgrade stored entries step by step until they reach the current schema
+const runMigrations = async (db: MoodEntryDatabase): Promise<void> => {
+  const fromVersion = db.getSchemaVersion();
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return;
+  }
+
+  console.log(`Migrating mood entries from schema v${fromVersion} to v${CURRENT_SCHEMA_VERSION}`);
+  const pagesRewritten = await db.upgrade(CURRENT_SCHEMA_VERSION, entry => migrateMoodEntry(entry));
+  console.log(`Migrated ${pagesRewritten} pages of mood entries`);
+};
+
+// Rewrite every stored record with the current encryption settings
+export const reencryptMoodEntries = async (): Promise<number> => {
+  const db = await getDatabase();
+  return db.rewriteAll();
+};
+
+// Get IDs of all stored entries, oldest first
 export const getEntryIndex = async (): Promise<string[]> => {
   try {
-    let indexJson: string | null = null;
-    
-    if (Platform.OS === 'web') {
-      // Use localStorage on web
-      indexJson = localStorage.getItem(MOOD_ENTRIES_KEY);
-    } else if (SecureStore) {
-      // Use SecureStore on native
-      indexJson = await SecureStore.getItemAsync(MOOD_ENTRIES_KEY);
-    }
-    
-    if (!indexJson) {
-      return [];
-    }
-    
-    return JSON.parse(indexJson);
+    const db = await getDatabase();
+    return db.getIds();
   } catch (error) {
     console.error('Failed to get entry index:', error);
     return [];
   }
 };
 
-// Update entry index
-export const updateEntryIndex = async (entryIds: string[]): Promise<boolean> => {
+// Save a mood entry
+export const saveMoodEntry = async (entry: MoodEntry): Promise<boolean> => {
   try {
-    const indexJson = JSON.stringify(entryIds);
-    
-    if (Platform.OS === 'web') {
-      // Use localStorage on web
-      localStorage.setItem(MOOD_ENTRIES_KEY, indexJson);
-    } else if (SecureStore) {
-      // Use SecureStore on native
-      await SecureStore.setItemAsync(MOOD_ENTRIES_KEY, indexJson);
-    }
-    
+    const db = await getDatabase();
+    await db.put({ ...entry, schemaVersion: CURRENT_SCHEMA_VERSION });
     return true;
   } catch (error) {
-    console.error('Failed to update entry index:', error);
+    console.error('Failed to save mood entry:', error);
     return false;
   }
 };
 
-// Save a mood entry
-export const saveMoodEntry = async (entry: MoodEntry): Promise<boolean> => {
-  try {
-    // Ensure directory exists (mobile only)
-    if (Platform.OS !== 'web' && MOOD_ENTRIES_DIR) {
-      const dirCreated = await ensureDirectoryExists(MOOD_ENTRIES_DIR);
-      if (!dirCreated) {
-        console.error('Failed to ensure mood entries directory exists');
-        return false;
-      }
-    }
-    
-    // Get current entry index
-    const entryIds = await getEntryIndex();
-    
-    // Add entry ID to index if not already present
-    if (!entryIds.includes(entry.id)) {
-      entryIds.push(entry.id);
-      await updateEntryIndex(entryIds);
-    }
-    
-    // Save entry data
-    const entryJson = JSON.stringify(entry);
-    
-    if (Platform.OS === 'web') {
-      // Use localStorage on web
-      localStorage.setItem(`${MOOD_ENTRIES_KEY}_${entry.id}`, entryJson);
-    } else if (MOOD_ENTRIES_DIR && FileSystem) {
-      // Use FileSystem on native
-      const entryPath = MOOD_ENTRIES_DIR + entry.id + '.json';
-      await FileSystem.writeAsStringAsync(entryPath, entryJson);
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Failed to save mood entry:', error);
+// Update an existing mood entry
+export const updateMoodEntry = async (entry: MoodEntry): Promise<boolean> => {
+  const entryIds = await getEntryIndex();
+
+  if (!entryIds.includes(entry.id)) {
+    console.error(`Cannot update missing mood entry ${entry.id}`);
     return false;
   }
+
+  return saveMoodEntry(entry);
 };
 
 // Get a single mood entry
 export const getMoodEntry = async (id: string): Promise<MoodEntry | null> => {
   try {
-    let entryJson: string | null = null;
-    
-    if (Platform.OS === 'web') {
-      // Use localStorage on web
-      entryJson = localStorage.getItem(`${MOOD_ENTRIES_KEY}_${id}`);
-      if (!entryJson) {
-        // Clean up the index by removing the non-existent entry
-        const entryIds = await getEntryIndex();
-        if (entryIds.includes(id)) {
-          const newEntryIds = entryIds.filter(entryId => entryId !== id);
-          await updateEntryIndex(newEntryIds);
-        }
-        return null;
-      }
-      
-      return JSON.parse(entryJson) as MoodEntry;
-    } else if (MOOD_ENTRIES_DIR && FileSystem) {
-      // Use FileSystem on native
-      const entryPath = MOOD_ENTRIES_DIR + id + '.json';
-      
-      // Check if file exists
-      const fileInfo = await FileSystem.getInfoAsync(entryPath);
-      if (!fileInfo.exists) {
-        // Clean up the index
-        const entryIds = await getEntryIndex();
-        if (entryIds.includes(id)) {
-          const newEntryIds = entryIds.filter(entryId => entryId !== id);
-          await updateEntryIndex(newEntryIds);
-        }
-        return null;
-      }
-      
-      try {
-        entryJson = await FileSystem.readAsStringAsync(entryPath);
-        return JSON.parse(entryJson) as MoodEntry;
-      } catch (readError) {
-        console.error(`Error reading mood entry file ${entryPath}:`, readError);
-        await FileSystem.deleteAsync(entryPath, { idempotent: true });
-        
-        // Remove from index
-        const entryIds = await getEntryIndex();
-        if (entryIds.includes(id)) {
-          const newEntryIds = entryIds.filter(entryId => entryId !== id);
-          await updateEntryIndex(newEntryIds);
-        }
-        return null;
-      }
-    }
-    
-    return null;
+    const db = await getDatabase();
+    return await db.get(id);
   } catch (error) {
     console.error(`Failed to get mood entry ${id}:`, error);
     return null;
   }
 };
 
-// Get all mood entries
+// Get all mood entries, oldest first
 export const getAllMoodEntries = async (): Promise<MoodEntry[]> => {
   try {
-    // Get entry index
-    const entryIds = await getEntryIndex();
-    
-    // Load each entry
-    const entries: MoodEntry[] = [];
-    const validEntryIds: string[] = [];
-    
-    for (const id of entryIds) {
-      const entry = await getMoodEntry(id);
-      if (entry) {
-        entries.push(entry);
-        validEntryIds.push(id);
-      }
-    }
-    
-    // If we found fewer valid entries than were in the index,
-    // update the index to contain only valid entries
-    if (validEntryIds.length < entryIds.length) {
-      console.log(`Updating entry index: ${entryIds.length} -> ${validEntryIds.length} entries`);
-      await updateEntryIndex(validEntryIds);
-    }
-    
-    return entries;
+    const db = await getDatabase();
+    return await db.getAll();
   } catch (error) {
     console.error('Failed to get all mood entries:', error);
     return [];
   }
 };
 
-// Delete a mood entry
+// Attachments of an entry; an unreadable entry can still be deleted, and its
+// files are left to collectOrphanedFiles
+const getAttachmentsOf = async (db: MoodEntryDatabase, id: string): Promise<MoodEntryAttachment[]> => {
+  try {
+    return (await db.get(id))?.attachments ?? [];
+  } catch (error) {
+    console.error(`Failed to read attachments of mood entry ${id}:`, error);
+    return [];
+  }
+};
+
+// Delete a mood entry and its attached files
 export const deleteMoodEntry = async (id: string): Promise<boolean> => {
   try {
-    // Remove from index
-    const entryIds = await getEntryIndex();
-    const newEntryIds = entryIds.filter(entryId => entryId !== id);
-    await updateEntryIndex(newEntryIds);
-    
-    // Delete entry data
-    if (Platform.OS === 'web') {
-      // Use localStorage on web
-      localStorage.removeItem(`${MOOD_ENTRIES_KEY}_${id}`);
-    } else if (MOOD_ENTRIES_DIR && FileSystem) {
-      // Use FileSystem on native
-      const entryPath = MOOD_ENTRIES_DIR + id + '.json';
-      
-      // Check if file exists before deleting
-      const fileInfo = await FileSystem.getInfoAsync(entryPath);
-      if (fileInfo.exists) {
-        await FileSystem.deleteAsync(entryPath);
-      }
-    }
-    
+    const db = await getDatabase();
+    const attachments = await getAttachmentsOf(db, id);
+    await db.remove(id);
+    await deleteAttachments(attachments);
     return true;
   } catch (error) {
     console.error(`Failed to delete mood entry ${id}:`, error);
@@ -281,42 +201,73 @@ export const deleteMoodEntry = async (id: string): Promise<boolean> => {
   }
 };
 
-// Search mood entries
-export const searchMoodEntries = async (query: string): Promise<MoodEntry[]> => {
+// Delete several mood entries at once, with their attached files
+export const deleteMoodEntries = async (ids: string[]): Promise<number> => {
   try {
-    // Get all entries
-    const allEntries = await getAllMoodEntries();
-    
-    // Filter entries based on query
-    // Simple implementation: search in notes and dominant emotion
-    const queryLower = query.toLowerCase();
-    
-    return allEntries.filter(entry => 
-      (entry.notes && entry.notes.toLowerCase().includes(queryLower)) ||
-      entry.dominantEmotion.toLowerCase().includes(queryLower)
-    );
+    const db = await getDatabase();
+    const attachments = new Map<string, MoodEntryAttachment[]>();
+    for (const id of ids) {
+      attachments.set(id, await getAttachmentsOf(db, id));
+    }
+
+    const removed = await db.removeMany(ids);
+
+    // Only remove the files of entries that are really gone
+    const remaining = new Set(db.getIds());
+    await deleteAttachments(ids.filter(id => !remaining.has(id)).flatMap(id => attachments.get(id) ?? []));
+
+    return removed;
   } catch (error) {
-    console.error('Failed to search mood entries:', error);
+    console.error('Failed to delete mood entries:', error);
+    return 0;
+  }
+};
+
+/**
+ * Every attachment referenced by a stored entry in the active namespace
+ * @returns The attachments, or null if any entry could not be read
+ */
+export const getAllAttachments = async (): Promise<MoodEntryAttachment[] | null> => {
+  try {
+    const db = await getDatabase();
+    const entries = await db.getAll();
+    if (entries.length < db.getIds().length) {
+      console.error('Some mood entries could not be read; attachments are incomplete');
+      return null;
+    }
+    return entries.flatMap(entry => entry.attachments ?? []);
+  } catch (error) {
+    console.error('Failed to get attachments:', error);
+    return null;
+  }
+};
+
+// Query mood entries through the secondary indexes
+export const queryMoodEntries = async (filter: MoodEntryQuery): Promise<MoodEntry[]> => {
+  try {
+    const db = await getDatabase();
+    return await db.query(filter);
+  } catch (error) {
+    console.error('Failed to query mood entries:', error);
     return [];
   }
 };
 
-// Get entries within date range
-export const getEntriesInDateRange = async (startDate: Date, endDate: Date): Promise<MoodEntry[]> => {
+// Search mood entries by dominant emotion, tag, or words in the title, notes and transcript
+export const searchMoodEntries = async (query: string): Promise<MoodEntry[]> => {
   try {
-    // Get all entries
-    const allEntries = await getAllMoodEntries();
-    
-    // Convert dates to timestamps
-    const startTimestamp = startDate.getTime();
-    const endTimestamp = endDate.getTime();
-    
-    // Filter entries based on date range
-    return allEntries.filter(entry => 
-      entry.timestamp >= startTimestamp && entry.timestamp <= endTimestamp
-    );
+    const db = await getDatabase();
+    return await db.search(query);
   } catch (error) {
-    console.error('Failed to get entries in date range:', error);
+    console.error('Failed to search mood entries:', error);
     return [];
   }
-}; 
\ No newline at end of file
+};
+
+// Get entries within date range
+export const getEntriesInDateRange = async (startDate: Date, endDate: Date): Promise<MoodEntry[]> => {
+  return queryMoodEntries({
+    startTimestamp: startDate.getTime(),
+    endTimestamp: endDate.getTime(),
+  });
+};
@@ -0,0 +1,301 @@
+import { DiscreteEmotion, EmotionData } from '../types';
+import {
+  EMOJI_LEXICON,
+  EMOTION_LEXICON,
+  INTENSIFIERS,
+  LexiconEntry,
+  NEGATIONS,
+} from '../constants/emotionLexicon';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
+
+// Emotions the lexicon gives evidence for; neutral is what's left over
+const EMOTIONS = DISCRETE_EMOTIONS.filter(
+  (emotion): emotion is Exclude<DiscreteEmotion, 'neutral'> => emotion !== 'neutral'
+);
+
+// Evidence that has to accumulate before a text stops looking neutral.
+// One plain emotion word (strength ~0.8) gives that emotion about 0.7.
+const NEUTRAL_PRIOR = 0.35;
+
+// How many words after a negation or intensifier it still applies to
+const NEGATION_SCOPE = 3;
+const INTENSIFIER_SCOPE = 2;
+
+// What a negated emotion word expresses instead, scaled down: "not happy" is
+// mildly sad rather than the opposite of happy, "not worried" is mildly calm
+const NEGATED_EMOTION: Record<Exclude<DiscreteEmotion, 'neutral'>, LexiconEntry> = {
+  joy: { sadness: 0.5 },
+  contentment: { fear: 0.3, sadness: 0.2 },
+  sadness: { contentment: 0.3 },
+  anger: { contentment: 0.3 },
+  fear: { contentment: 0.4 },
+  surprise: {},
+  disgust: {},
+};
+
+// Where each emotion pushes energy, calmness and tension (-1 to 1)
+const EMOTION_DIMENSIONS: Record<Exclude<DiscreteEmotion, 'neutral'>, { energy: number; calmness: number; tension: number }> = {
+  joy: { energy: 0.7, calmness: 0.2, tension: -0.4 },
+  sadness: { energy: -0.7, calmness: -0.1, tension: 0.2 },
+  anger: { energy: 0.8, calmness: -0.9, tension: 0.9 },
+  fear: { energy: 0.4, calmness: -0.8, tension: 0.9 },
+  surprise: { energy: 0.7, calmness: -0.3, tension: 0.3 },
+  disgust: { energy: 0.2, calmness: -0.4, tension: 0.5 },
+  contentment: { energy: -0.2, calmness: 0.9, tension: -0.8 },
+};
+
+// Words that end a clause, and with it any negation or intensifier
+const CLAUSE_BREAKS = new Set(['but', 'however', 'although', 'though', 'yet']);
+
+export interface TextEmotionCue {
+  text: string; // The word, emoji or punctuation as found
+  emotions: LexiconEntry; // What it contributed, after modifiers
+  negated: boolean;
+}
+
+export interface TextEmotionResult {
+  emotions: EmotionData;
+  cues: TextEmotionCue[];
+  evidence: number; // Total weight of emotional cues; 0 means nothing was found
+}
+
+interface Token {
+  word: string;
+  raw: string;
+  elongated: boolean; // "soooo", "nooo"
+  shouted: boolean; // "HATE"
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first so ":-(" wins over ":("
+const EMOJI_PATTERN = new RegExp(
+  Object.keys(EMOJI_LEXICON)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|'),
+  'g'
+);
+
+/**
+ * Split text into lowercase word and punctuation tokens. Contractions are
+ * expanded so negations survive ("don't" -> "do", "nt").
+ * @param text Text to split
+ * @returns Tokens in order
+ */
+export const tokenize = (text: string): Token[] => {
+  const normalized = text
+    .replace(/[‘’]/g, "'")
+    .replace(/\bcan't\b/gi, 'can not')
+    .replace(/\bwon't\b/gi, 'will not')
+    .replace(/n't\b/gi, ' nt');
+
+  const matches = normalized.match(/[A-Za-z']+|[!?]+|[.,;:]/g) || [];
+
+  return matches.map(raw => {
+    const lower = raw.toLowerCase().replace(/^'+|'+$/g, '');
+    // Squash letters repeated three or more times ("sooo" -> "so")
+    const squashed = lower.replace(/([a-z])\1{2,}/g, '$1');
+    return {
+      word: squashed,
+      raw,
+      elongated: squashed !== lower,
+      shouted: raw.length > 2 && raw === raw.toUpperCase() && /[A-Z]/.test(raw),
+    };
+  });
+};
+
+// Look a word up, trying simple base forms when the word itself is missing
+const lookupWord = (word: string): LexiconEntry | null => {
+  const candidates = [word];
+  if (word.endsWith('ies')) candidates.push(word.slice(0, -3) + 'y');
+  if (word.endsWith('ied')) candidates.push(word.slice(0, -3) + 'y');
+  if (word.endsWith('ily')) candidates.push(word.slice(0, -3) + 'y');
+  if (word.endsWith('ing')) candidates.push(word.slice(0, -3), word.slice(0, -3) + 'e');
+  if (word.endsWith('ed')) candidates.push(word.slice(0, -2), word.slice(0, -1));
+  if (word.endsWith('ly')) candidates.push(word.slice(0, -2));
+  if (word.endsWith('iness')) candidates.push(word.slice(0, -5) + 'y');
+  if (word.endsWith('ness')) candidates.push(word.slice(0, -4));
+  if (word.endsWith('s')) candidates.push(word.slice(0, -1));
+
+  for (const candidate of candidates) {
+    if (Object.prototype.hasOwnProperty.call(EMOTION_LEXICON, candidate)) {
+      return EMOTION_LEXICON[candidate];
+    }
+  }
+  return null;
+};
+
+const scaleEntry = (entry: LexiconEntry, factor: number): LexiconEntry => {
+  const scaled: LexiconEntry = {};
+  (Object.keys(entry) as DiscreteEmotion[]).forEach(emotion => {
+    scaled[emotion] = (entry[emotion] || 0) * factor;
+  });
+  return scaled;
+};
+
+// What a negated entry expresses, weighted by how strongly each emotion was meant
+const negateEntry = (entry: LexiconEntry): LexiconEntry => {
+  const negated: LexiconEntry = {};
+  (Object.keys(entry) as Exclude<DiscreteEmotion, 'neutral'>[]).forEach(emotion => {
+    const strength = entry[emotion] || 0;
+    const shifted = NEGATED_EMOTION[emotion] || {};
+    (Object.keys(shifted) as DiscreteEmotion[]).forEach(target => {
+      negated[target] = (negated[target] || 0) + strength * (shifted[target] || 0);
+    });
+  });
+  return negated;
+};
+
+/**
+ * Classify the emotional content of free text, fully offline.
+ *
+ * Words are matched against a lexicon with negation ("not happy"),
+ * intensifiers ("very", "slightly"), shouting, letter elongation, emoji,
+ * emoticons and exclamation marks taken into account. Scores are turned into
+ * a distribution with a neutral prior, so short or weak texts stay mostly
+ * neutral instead of jumping to 100% of one emotion.
+ * @param text The text to classify
+ * @returns Emotion data plus the cues that produced it
+ */
+export const classifyText = (text: string): TextEmotionResult => {
+  const scores: Record<string, number> = {};
+  EMOTIONS.forEach(emotion => {
+    scores[emotion] = 0;
+  });
+  const cues: TextEmotionCue[] = [];
+
+  const addCue = (cueText: string, entry: LexiconEntry, negated: boolean) => {
+    let added = false;
+    (Object.keys(entry) as DiscreteEmotion[]).forEach(emotion => {
+      const value = entry[emotion] || 0;
+      if (value > 0 && emotion !== 'neutral') {
+        scores[emotion] += value;
+        added = true;
+      }
+    });
+    if (added) {
+      cues.push({ text: cueText, emotions: entry, negated });
+    }
+  };
+
+  // Emoji and emoticons are not words, so pick them out first
+  const emojiText = text.replace(/\uFE0F/g, '');
+  const emojiMatches = emojiText.match(EMOJI_PATTERN) || [];
+  emojiMatches.forEach(emoji => addCue(emoji, EMOJI_LEXICON[emoji], false));
+  const wordText = emojiText.replace(EMOJI_PATTERN, ' ');
+
+  const tokens = tokenize(wordText);
+  let negationLeft = 0;
+  let modifier = 1;
+  let modifierLeft = 0;
+  let exclamations = 0;
+  let clauseStart = cues.length;
+
+  // Exclamation marks strengthen the clause they end
+  const emphasizeClause = (marks: string) => {
+    const boost = 1 + Math.min(marks.length, 3) * 0.15;
+    for (let i = clauseStart; i < cues.length; i++) {
+      const cue = cues[i];
+      (Object.keys(cue.emotions) as DiscreteEmotion[]).forEach(emotion => {
+        const extra = (cue.emotions[emotion] || 0) * (boost - 1);
+        if (emotion !== 'neutral') {
+          scores[emotion] += extra;
+        }
+      });
+    }
+  };
+
+  tokens.forEach(token => {
+    const { word } = token;
+
+    if (/^[!?]+$/.test(word)) {
+      const bangs = word.replace(/\?/g, '');
+      if (bangs.length > 0) {
+        exclamations += bangs.length;
+        emphasizeClause(bangs);
+      }
+      if (word.includes('?') && word.includes('!')) {
+        addCue(word, { surprise: 0.4 }, false);
+      }
+      negationLeft = 0;
+      modifier = 1;
+      clauseStart = cues.length;
+      return;
+    }
+
+    if (/^[.,;:]$/.test(word) || CLAUSE_BREAKS.has(word)) {
+      negationLeft = 0;
+      modifier = 1;
+      clauseStart = cues.length;
+      return;
+    }
+
+    if (NEGATIONS.has(word)) {
+      negationLeft = NEGATION_SCOPE;
+      return;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(INTENSIFIERS, word)) {
+      modifier *= INTENSIFIERS[word];
+      modifierLeft = INTENSIFIER_SCOPE;
+      return;
+    }
+
+    const entry = lookupWord(word);
+    if (entry) {
+      let factor = modifier;
+      if (token.shouted) factor *= 1.3;
+      if (token.elongated) factor *= 1.2;
+
+      const negated = negationLeft > 0;
+      const contribution = scaleEntry(negated ? negateEntry(entry) : entry, factor);
+      addCue(token.raw, contribution, negated);
+      modifier = 1;
+      modifierLeft = 0;
+    }
+
+    if (negationLeft > 0) {
+      negationLeft--;
+    }
+    if (modifierLeft > 0 && --modifierLeft === 0) {
+      modifier = 1;
+    }
+  });
+
+  const evidence = EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+  const total = evidence + NEUTRAL_PRIOR;
+
+  const emotions: EmotionData = {
+    joy: scores.joy / total,
+    sadness: scores.sadness / total,
+    anger: scores.anger / total,
+    fear: scores.fear / total,
+    surprise: scores.surprise / total,
+    disgust: scores.disgust / total,
+    contentment: scores.contentment / total,
+    neutral: NEUTRAL_PRIOR / total,
+    energy: 50,
+    calmness: 50,
+    tension: 50,
+  };
+
+  // Dimensions follow the emotion mix; exclamation marks add energy
+  let energy = 0;
+  let calmness = 0;
+  let tension = 0;
+  EMOTIONS.forEach(emotion => {
+    energy += emotions[emotion] * EMOTION_DIMENSIONS[emotion].energy;
+    calmness += emotions[emotion] * EMOTION_DIMENSIONS[emotion].calmness;
+    tension += emotions[emotion] * EMOTION_DIMENSIONS[emotion].tension;
+  });
+  energy += Math.min(exclamations, 5) * 0.05;
+
+  emotions.energy = Math.round(clamp(50 + energy * 50, 0, 100));
+  emotions.calmness = Math.round(clamp(50 + calmness * 50, 0, 100));
+  emotions.tension = Math.round(clamp(50 + tension * 50, 0, 100));
+
+  return { emotions, cues, evidence };
+};
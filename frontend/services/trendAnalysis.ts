@@ -1,4 +1,5 @@
 import { MoodEntry, EmotionData } from '../types';
+import { DISCRETE_EMOTIONS } from '../constants/emotions';
 
 /**
  * Result of trend analysis containing data for visualization
@@ -49,12 +50,26 @@ export interface TrendAnalysisResult {
   };
 }
 
+export interface TrendAnalysisOptions {
+  includeSynthetic?: boolean; // Count demo mode sample entries too
+}
+
 /**
- * Analyze mood entries for trends and generate visualization data
- * @param entries Array of mood entries
+ * Analyze mood entries for trends and generate visualization data.
+ * Synthetic entries are left out unless asked for, so sample data never
+ * skews a real diary's trends.
+ * @param allEntries Array of mood entries
+ * @param options What to include
  * @returns Analysis result with visualization-ready data
  */
-export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
+export const analyzeTrends = (
+  allEntries: MoodEntry[],
+  options: TrendAnalysisOptions = {}
+): TrendAnalysisResult => {
+  const entries = options.includeSynthetic
+    ? allEntries
+    : allEntries.filter(entry => !entry.synthetic);
+
   // Sort entries by timestamp (oldest first for timeline data)
   const sortedEntries = [...entries].sort((a, b) => a.timestamp - b.timestamp);
   
@@ -70,6 +85,7 @@ export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
       drawing: 0,
       voice: 0,
       face: 0,
+      text: 0,
     },
     moodFactorsTimeline: {
       dates: [],
@@ -99,14 +115,8 @@ export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
     },
   };
   
-  // Initialize emotion types for tracking
-  const emotionTypes = [
-    'joy', 'sadness', 'anger', 'fear', 
-    'surprise', 'disgust', 'contentment', 'neutral'
-  ];
-  
   // Initialize emotion frequency
-  emotionTypes.forEach(emotion => {
+  DISCRETE_EMOTIONS.forEach(emotion => {
     result.emotionFrequency[emotion] = 0;
     result.emotionTimeline.emotions[emotion] = [];
   });
@@ -133,8 +143,12 @@ export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
       (result.emotionFrequency[entry.dominantEmotion] || 0) + 1;
     
     // Count input methods
-    result.inputMethodUsage[entry.source] = 
-      (result.inputMethodUsage[entry.source] || 0) + 1;
+    const inputMethods = entry.modalities && entry.modalities.length > 0
+      ? Array.from(new Set(entry.modalities.map(result => result.modality)))
+      : [entry.source];
+    inputMethods.forEach(method => {
+      result.inputMethodUsage[method] = (result.inputMethodUsage[method] || 0) + 1;
+    });
     
     // Track mood factors for averages
     totalEnergy += entry.emotions.energy;
@@ -156,7 +170,7 @@ export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
       };
       
       // Initialize emotions count for this date
-      emotionTypes.forEach(emotion => {
+      DISCRETE_EMOTIONS.forEach(emotion => {
         dateData.emotions[emotion] = 0;
       });
       
@@ -203,7 +217,7 @@ export const analyzeTrends = (entries: MoodEntry[]): TrendAnalysisResult => {
     result.moodFactorsTimeline.tension.push(dateData.tension / dateData.count);
     
     // Emotion values for each date (as percentages)
-    emotionTypes.forEach(emotion => {
+    DISCRETE_EMOTIONS.forEach(emotion => {
       const percentage = (dateData.emotions[emotion] / dateData.count) * 100;
       result.emotionTimeline.emotions[emotion].push(percentage);
     });
@@ -0,0 +1,93 @@
+// Metering levels are dBFS; this and quieter shows as an empty level meter
+const METER_FLOOR_DB = -60;
+
+// Levels quieter than this are never speech, whatever the noise floor
+const SILENCE_DB = -50;
+
+// Speech needs to rise this far above the noise floor
+const SPEECH_ABOVE_FLOOR_DB = 10;
+
+// The noise floor follows the quietest level heard, drifting up this fast so
+// it can recover when the room gets louder
+const FLOOR_RISE_DB_PER_SECOND = 2;
+
+// Speech heard before auto-stop is armed, so a cough doesn't end the recording
+const MIN_SPEECH_MS = 300;
+
+export interface VoiceActivityOptions {
+  trailingSilenceMs: number; // Silence after speech that ends the recording; 0 never stops
+  speechThresholdDb?: number; // Fixed threshold instead of following the noise floor
+}
+
+/**
+ * What the detector makes of the latest metering level
+ */
+export interface VoiceActivityState {
+  level: number; // Meter level, 0-1
+  speaking: boolean; // The level counts as speech
+  heardSpeech: boolean; // Enough speech has been heard to arm auto-stop
+  silenceMs: number; // Silence since speech was last heard
+  shouldStop: boolean; // Trailing silence has lasted long enough
+}
+
+export interface VoiceActivityDetector {
+  update: (decibels: number, timeMs: number) => VoiceActivityState;
+  getAverageSpeechLevel: () => number | null; // Mean dBFS of speech, null before any
+}
+
+/**
+ * Scale a metering level to 0-1 for a level meter
+ * @param decibels Level in dBFS
+ */
+export const meterLevel = (decibels: number): number =>
+  Math.min(1, Math.max(0, (decibels - METER_FLOOR_DB) / -METER_FLOOR_DB));
+
+/**
+ * Create a detector that follows live metering levels during a recording and
+ * says when the speaker has finished. Speech is anything well above the noise
+ * floor; once enough of it has been heard, the configured stretch of silence
+ * ends the recording.
+ * @param options Trailing silence and, optionally, a fixed speech threshold
+ * @returns Detector to feed each metering update
+ */
+export const createVoiceActivityDetector = (options: VoiceActivityOptions): VoiceActivityDetector => {
+  let noiseFloor: number | null = null;
+  let lastTime: number | null = null;
+  let lastSpeechTime: number | null = null;
+  let speechMs = 0;
+  let speechLevelSum = 0;
+  let speechUpdates = 0;
+
+  return {
+    update: (decibels: number, timeMs: number): VoiceActivityState => {
+      const elapsed = lastTime === null ? 0 : Math.max(0, timeMs - lastTime);
+      lastTime = timeMs;
+
+      noiseFloor = noiseFloor === null
+        ? decibels
+        : Math.min(decibels, noiseFloor + (FLOOR_RISE_DB_PER_SECOND * elapsed) / 1000);
+
+      const threshold = options.speechThresholdDb ?? Math.max(SILENCE_DB, noiseFloor + SPEECH_ABOVE_FLOOR_DB);
+      const speaking = decibels >= threshold;
+
+      if (speaking) {
+        speechMs += elapsed;
+        speechLevelSum += decibels;
+        speechUpdates++;
+        lastSpeechTime = timeMs;
+      }
+
+      const heardSpeech = speechMs >= MIN_SPEECH_MS;
+      const silenceMs = lastSpeechTime === null ? 0 : timeMs - lastSpeechTime;
+
+      return {
+        level: meterLevel(decibels),
+        speaking,
+        heardSpeech,
+        silenceMs,
+        shouldStop: heardSpeech && options.trailingSilenceMs > 0 && silenceMs >= options.trailingSilenceMs,
+      };
+    },
+    getAverageSpeechLevel: () => (speechUpdates > 0 ? speechLevelSum / speechUpdates : null),
+  };
+};
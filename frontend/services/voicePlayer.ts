@@ -0,0 +1,106 @@
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { closeOpenedFile, openSealedFile } from './encryptionService';
+
+// How often playback position is reported, in milliseconds
+const STATUS_INTERVAL_MS = 100;
+
+/**
+ * Playback state reported to the listener
+ */
+export interface VoicePlayerStatus {
+  playing: boolean;
+  position: number; // Seconds
+  duration: number; // Seconds, 0 until known
+}
+
+/**
+ * Controls for one loaded recording
+ */
+export interface VoicePlayer {
+  play: () => Promise<void>;
+  pause: () => Promise<void>;
+  seekTo: (seconds: number) => Promise<void>;
+  unload: () => Promise<void>;
+}
+
+/**
+ * Load a recording for playback. Sealed recordings are decrypted to a
+ * temporary copy first, which is deleted on unload.
+ * @param uri URI of the recording
+ * @param onStatus Called whenever the playback state changes
+ * @returns Player, or null if the recording could not be loaded
+ */
+export const createVoicePlayer = async (
+  uri: string,
+  onStatus: (status: VoicePlayerStatus) => void
+): Promise<VoicePlayer | null> => {
+  let duration = 0;
+  let position = 0;
+
+  const handleStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) {
+      if (status.error) {
+        console.error('[voicePlayer] Playback failed:', status.error);
+      }
+      return;
+    }
+
+    duration = (status.durationMillis ?? 0) / 1000;
+    position = status.positionMillis / 1000;
+    onStatus({
+      // Finished clips report playing for one more update
+      playing: status.isPlaying && !status.didJustFinish,
+      position: status.didJustFinish ? duration : position,
+      duration,
+    });
+  };
+
+  let openedUri: string | null = null;
+
+  try {
+    // Recording leaves iOS routed to the earpiece; play through the speaker
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: false,
+      playsInSilentModeIOS: true,
+    });
+
+    const readableUri = await openSealedFile(uri);
+    openedUri = readableUri;
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: readableUri },
+      { progressUpdateIntervalMillis: STATUS_INTERVAL_MS },
+      handleStatus
+    );
+
+    return {
+      play: async () => {
+        // Start over once the end has been reached
+        if (duration > 0 && position >= duration - STATUS_INTERVAL_MS / 1000) {
+          await sound.setPositionAsync(0);
+        }
+        await sound.playAsync();
+      },
+      pause: async () => {
+        await sound.pauseAsync();
+      },
+      seekTo: async (seconds: number) => {
+        const target = Math.max(0, duration > 0 ? Math.min(seconds, duration) : seconds);
+        await sound.setPositionAsync(Math.round(target * 1000));
+      },
+      unload: async () => {
+        try {
+          await sound.unloadAsync();
+        } finally {
+          // Don't leave the decrypted copy behind
+          await closeOpenedFile(readableUri).catch(() => {});
+        }
+      },
+    };
+  } catch (error) {
+    console.error('[voicePlayer] Failed to load recording:', error);
+    if (openedUri) {
+      await closeOpenedFile(openedUri).catch(() => {});
+    }
+    return null;
+  }
+};
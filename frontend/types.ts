@@ -1,4 +1,7 @@
 // Common types used across the application
+import type { CompositeScreenProps, NavigatorScreenParams } from '@react-navigation/native';
+import type { StackScreenProps } from '@react-navigation/stack';
+import type { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 
 // Emotion data structure
 export interface EmotionData {
@@ -16,18 +19,78 @@ export interface EmotionData {
   tension: number;
 }
 
+// The categorical emotions in EmotionData, without the energy/calmness/tension dimensions
+export type DiscreteEmotion = Exclude<keyof EmotionData, 'energy' | 'calmness' | 'tension'>;
+
+// Input methods that can produce emotion data
+export type EmotionModality = 'sliders' | 'drawing' | 'voice' | 'face' | 'text';
+
+// What one input method said, before fusion
+export interface ModalityResult {
+  modality: EmotionModality;
+  emotions: EmotionData; // Raw scores from that input
+  confidence: number; // 0-1, how much the input itself trusts its scores
+  timestamp: number;
+}
+
+// One reason behind an analysis result, worded for the user
+export interface EmotionExplanation {
+  factor: 'score' | 'margin' | 'secondary' | 'ambiguity' | 'dimension' | 'neutral' | 'conflict';
+  message: string;
+  emotion?: DiscreteEmotion;
+  value?: number;
+}
+
 // Result of emotion analysis
 export interface EmotionAnalysisResult {
   emotions: EmotionData;
   dominantEmotion: keyof EmotionData;
-  confidence: number;
+  confidence: number; // 0-1, how clearly the dominant emotion leads the runner-up
   timestamp: number;
   intensity: number; // Overall intensity of emotion
+  ambiguity?: number; // 0-1, normalised entropy of the emotion scores
+  secondaryEmotions?: { emotion: DiscreteEmotion; score: number }[];
+  explanations?: EmotionExplanation[];
+}
+
+// Emotions heard in one stretch of a voice recording
+export interface VoiceEmotionSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  emotions: EmotionData;
+  dominantEmotion: keyof EmotionData;
+  confidence: number; // 0-1, share of the stretch that was speech
+}
+
+// One face reading from the camera's face detector
+export interface FaceDetectionData {
+  smilingProbability: number;
+  leftEyeOpenProbability: number;
+  rightEyeOpenProbability: number;
+  headEulerAngleX: number; // Head tilt (pitch), positive when looking up; 0 when the detector doesn't report it
+  headEulerAngleY: number; // Head rotation (yaw)
+  headEulerAngleZ: number; // Head roll
+  timestamp?: number; // When the reading was taken, for windowing
+}
+
+// Kinds of file an entry can carry
+export type AttachmentKind = 'drawing' | 'voice' | 'face';
+
+// A file saved with a mood entry, see services/attachmentService.ts
+export interface MoodEntryAttachment {
+  kind: AttachmentKind;
+  uri: string; // As saved; encryption changes may add or drop the sealed suffix
+  createdAt: number;
+  duration?: number; // Seconds, for voice recordings
+  timeline?: VoiceEmotionSegment[]; // Emotion heard in each stretch of a voice recording, scored when it was attached
+  size?: number; // Bytes, as stored when attached
+  checksum?: string; // MD5 of the stored file when attached
 }
 
 // Mood entry for storage
 export interface MoodEntry {
   id: string;
+  schemaVersion?: number; // Stamped by storage on save, see services/migrations.ts
   timestamp: number;
   createdAt: number;
   date: string;
@@ -35,32 +98,89 @@ export interface MoodEntry {
   dominantEmotion: keyof EmotionData;
   confidence: number;
   notes?: string;
-  source: 'sliders' | 'drawing' | 'voice' | 'face';
+  transcript?: string; // What was said in the voice recording, if an engine transcribed it
+  source: EmotionModality; // The modality that weighed most in the fused result
+  modalities?: ModalityResult[]; // Every input that contributed, with its raw scores
   drawingData?: string; // JSON string of drawing paths for thumbnails
+  attachments?: MoodEntryAttachment[]; // Drawings, recordings and snapshots saved with the entry
   
   // Personalization features
   tags?: string[]; // User-defined tags like "Morning", "Work", "Exercise", etc.
   emojiSummary?: string; // Emoji representing the mood
   title?: string; // User-defined title for the entry
   isFavorite?: boolean; // Whether entry is marked as favorite
+
+  synthetic?: boolean; // Sample data from demo mode, never a real recording
 }
 
-// Navigation types
-export type RootStackParamList = {
+// Navigation types. This is the single route registry: navigation/AppNavigator.tsx
+// registers exactly these screens and navigation/linking.ts maps them to URLs.
+
+// Input tabs of EmotionInputScreen
+export type EmotionInputTab = 'sliders' | 'drawing' | 'voice' | 'face';
+
+// Initial state of EmotionInputScreen, e.g. from a deep link
+export interface EmotionInputParams {
+  source?: EmotionInputTab; // Tab to open
+  prefill?: Partial<EmotionData>; // Starting slider values, in EmotionData units
+}
+
+// Initial filters of MoodDiaryScreen, e.g. from a deep link
+export interface MoodDiaryParams {
+  tag?: string;
+  emotion?: DiscreteEmotion;
+  query?: string;
+  highlightId?: string; // Entry to scroll to and highlight, e.g. one just saved
+}
+
+// Screens reachable from the bottom tab bar
+export type MainTabParamList = {
   Home: undefined;
-  EmotionInput: undefined;
-  MoodDiary: undefined;
-  MoodAnalysis: undefined;
+  MoodDiary: MoodDiaryParams | undefined;
   Settings: undefined;
+};
+
+// Screens of the root stack; the tabs are nested under Main
+export type RootStackParamList = {
+  Lock: undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
+  EmotionCapture: undefined;
+  EmotionInput: EmotionInputParams | undefined;
   MoodVisualization: {
     emotionData: EmotionData;
   };
+  MoodAnalysis: undefined;
   EntryDetails: {
     entryId: string;
   };
   AmbientMode: undefined;
 };
 
+// Props of a screen in the root stack
+export type RootStackScreenProps<T extends keyof RootStackParamList> =
+  StackScreenProps<RootStackParamList, T>;
+
+// Props of a tab screen, which can also navigate the root stack
+export type MainTabScreenProps<T extends keyof MainTabParamList> = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, T>,
+  RootStackScreenProps<keyof RootStackParamList>
+>;
+
+// Navigation prop of a root stack screen
+export type RootStackNavigationProp<T extends keyof RootStackParamList> =
+  RootStackScreenProps<T>['navigation'];
+
+// Navigation prop of a tab screen
+export type MainTabNavigationProp<T extends keyof MainTabParamList> =
+  MainTabScreenProps<T>['navigation'];
+
+// Type useNavigation() and <Link> against the registry everywhere
+declare global {
+  namespace ReactNavigation {
+    interface RootParamList extends RootStackParamList {}
+  }
+}
+
 // Theme types
 export interface ThemeColors {
   primary: string;
@@ -220,10 +340,13 @@ export interface Theme {
   };
 }
 
-// Types for drawing paths
+// Types for drawing paths. Drawings saved before timing was captured have
+// points with x and y only.
 export interface Point {
   x: number;
   y: number;
+  t?: number; // When the point was drawn, in milliseconds since the epoch
+  pressure?: number; // Touch force, 0-1, on devices that report it
 }
 
 export interface Path {
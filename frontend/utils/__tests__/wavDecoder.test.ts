@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeWav, encodeWav, isWav } from '../wavDecoder';
+
+// Recordings bundled under fixtures/audio, also read by the prosody tests
+const readFixture = (name: string): Uint8Array =>
+  new Uint8Array(readFileSync(join(__dirname, 'fixtures', 'audio', name)));
+
+describe('isWav', () => {
+  it('recognises RIFF/WAVE files', () => {
+    expect(isWav(readFixture('speech_200hz.wav'))).toBe(true);
+  });
+
+  it('rejects other files', () => {
+    // Start of an MPEG-4 file, as Android records
+    const m4a = new Uint8Array([0, 0, 0, 0x20, 0x66, 0x74, 0x79, 0x70, 0x4d, 0x34, 0x41, 0x20]);
+    expect(isWav(m4a)).toBe(false);
+    expect(isWav(new Uint8Array(4))).toBe(false);
+  });
+});
+
+describe('decodeWav', () => {
+  it('decodes 16-bit mono PCM', () => {
+    const audio = decodeWav(readFixture('speech_200hz.wav'));
+
+    expect(audio).not.toBeNull();
+    expect(audio!.sampleRate).toBe(8000);
+    expect(audio!.samples).toHaveLength(20000); // 2.5 seconds
+    expect(Math.max(...Array.from(audio!.samples, Math.abs))).toBeLessThanOrEqual(1);
+  });
+
+  it('mixes 8-bit stereo down to mono', () => {
+    const audio = decodeWav(readFixture('stereo_8bit.wav'));
+
+    expect(audio!.samples).toHaveLength(100);
+    // Left +0.5, right -0.25
+    audio!.samples.forEach(sample => expect(sample).toBeCloseTo(0.125, 5));
+  });
+
+  it('decodes 32-bit float', () => {
+    const audio = decodeWav(readFixture('ramp_float32.wav'));
+
+    expect(audio!.samples).toHaveLength(100);
+    expect(audio!.samples[0]).toBeCloseTo(-1, 5);
+    expect(audio!.samples[99]).toBeCloseTo(1, 5);
+  });
+
+  it('reads the sub-format of WAVE_FORMAT_EXTENSIBLE files and skips unknown chunks', () => {
+    const audio = decodeWav(readFixture('extensible_24bit.wav'));
+
+    expect(Array.from(audio!.samples)).toEqual([0, 0.5, -0.5, 8388607 / 8388608, -1]);
+  });
+
+  it('reads recordings whose data size was never filled in', () => {
+    const bytes = readFixture('ramp_float32.wav').slice();
+    new DataView(bytes.buffer).setUint32(40, 0xffffffff, true);
+
+    expect(decodeWav(bytes)!.samples).toHaveLength(100);
+  });
+
+  it('returns null for files it cannot read', () => {
+    expect(decodeWav(new Uint8Array(64))).toBeNull();
+
+    // A-law is not supported
+    const bytes = readFixture('stereo_8bit.wav').slice();
+    new DataView(bytes.buffer).setUint16(20, 6, true);
+    expect(decodeWav(bytes)).toBeNull();
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes 16-bit mono PCM that decodes back to the same audio', () => {
+    const original = decodeWav(readFixture('speech_200hz.wav'))!;
+    const roundTrip = decodeWav(encodeWav(original))!;
+
+    expect(roundTrip.sampleRate).toBe(original.sampleRate);
+    expect(roundTrip.samples).toHaveLength(original.samples.length);
+    roundTrip.samples.forEach((sample, index) => {
+      expect(Math.abs(sample - original.samples[index])).toBeLessThan(1e-4);
+    });
+  });
+});
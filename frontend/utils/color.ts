@@ -0,0 +1,128 @@
+/**
+ * Colour conversions for drawing analysis and the colour picker. Colours
+ * are CSS-style strings: #rgb, #rrggbb, #rrggbbaa, rgb()/rgba() or hsl()/hsla().
+ */
+
+export interface Rgb {
+  r: number; // 0-255
+  g: number;
+  b: number;
+}
+
+export interface Hsl {
+  h: number; // Hue in degrees, 0-360
+  s: number; // Saturation, 0-1
+  l: number; // Lightness, 0-1
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Convert RGB to HSL
+ * @param rgb Channels, 0-255
+ * @returns Hue in degrees, saturation and lightness 0-1
+ */
+export function rgbToHsl({ r, g, b }: Rgb): Hsl {
+  const red = r / 255;
+  const green = g / 255;
+  const blue = b / 255;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l };
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === red) {
+    h = ((green - blue) / delta) % 6;
+  } else if (max === green) {
+    h = (blue - red) / delta + 2;
+  } else {
+    h = (red - green) / delta + 4;
+  }
+
+  return { h: (h * 60 + 360) % 360, s: clamp(s, 0, 1), l };
+}
+
+/**
+ * Convert HSL to RGB
+ * @param hsl Hue in degrees, saturation and lightness 0-1
+ * @returns Channels, 0-255
+ */
+export function hslToRgb({ h, s, l }: Hsl): Rgb {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+
+  const [red, green, blue] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+
+  return {
+    r: Math.round((red + m) * 255),
+    g: Math.round((green + m) * 255),
+    b: Math.round((blue + m) * 255),
+  };
+}
+
+/**
+ * Format HSL as a #rrggbb string
+ */
+export function hslToHex(hsl: Hsl): string {
+  const { r, g, b } = hslToRgb(hsl);
+  return '#' + [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/**
+ * Read a colour string
+ * @param color Hex, rgb() or hsl() colour
+ * @returns The colour as HSL, or null if it can't be read
+ */
+export function parseColor(color: string): Hsl | null {
+  const value = color.trim().toLowerCase();
+
+  const hex = value.match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(digit => digit + digit).join('');
+    }
+    if (digits.length !== 6 && digits.length !== 8) {
+      return null;
+    }
+    return rgbToHsl({
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+    });
+  }
+
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/);
+  if (rgb) {
+    return rgbToHsl({
+      r: clamp(Number(rgb[1]), 0, 255),
+      g: clamp(Number(rgb[2]), 0, 255),
+      b: clamp(Number(rgb[3]), 0, 255),
+    });
+  }
+
+  const hsl = value.match(/^hsla?\(\s*([\d.]+)(?:deg)?\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%/);
+  if (hsl) {
+    return {
+      h: Number(hsl[1]) % 360,
+      s: clamp(Number(hsl[2]) / 100, 0, 1),
+      l: clamp(Number(hsl[3]) / 100, 0, 1),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,126 @@
+/**
+ * Base64 and UTF-8 helpers that work the same on Hermes, JSC and web
+ * (React Native doesn't have btoa/atob or TextEncoder/TextDecoder everywhere)
+ */
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Uint8Array(256);
+for (let i = 0; i < ALPHABET.length; i++) {
+  LOOKUP[ALPHABET.charCodeAt(i)] = i;
+}
+
+/**
+ * Encode bytes as standard padded base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    result += ALPHABET[b0 >> 2];
+    result += ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    result += i + 1 < bytes.length ? ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    result += i + 2 < bytes.length ? ALPHABET[b2 & 0x3f] : '=';
+  }
+
+  return result;
+}
+
+/**
+ * Decode standard base64, ignoring whitespace and padding
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const c0 = LOOKUP[clean.charCodeAt(i)];
+    const c1 = LOOKUP[clean.charCodeAt(i + 1)];
+    const c2 = i + 2 < clean.length ? LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const c3 = i + 3 < clean.length ? LOOKUP[clean.charCodeAt(i + 3)] : 0;
+
+    bytes[byteIndex++] = (c0 << 2) | (c1 >> 4);
+    if (i + 2 < clean.length) {
+      bytes[byteIndex++] = ((c1 & 0x0f) << 4) | (c2 >> 2);
+    }
+    if (i + 3 < clean.length) {
+      bytes[byteIndex++] = ((c2 & 0x03) << 6) | c3;
+    }
+  }
+
+  return bytes.subarray(0, byteIndex);
+}
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8ToBytes(text: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+
+    // Combine surrogate pairs into one code point
+    if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next <= 0xdfff) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes into a string
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const b0 = bytes[i++];
+    let code: number;
+
+    if (b0 < 0x80) {
+      code = b0;
+    } else if (b0 < 0xe0) {
+      code = ((b0 & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b0 < 0xf0) {
+      code = ((b0 & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((b0 & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    }
+
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      result += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else {
+      result += String.fromCharCode(code);
+    }
+  }
+
+  return result;
+}
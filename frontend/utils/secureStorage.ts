@@ -0,0 +1,54 @@
+import { Platform } from 'react-native';
+
+// Import expo modules conditionally to avoid web build issues
+let SecureStore: any = null;
+
+if (Platform.OS !== 'web') {
+  try {
+    SecureStore = require('expo-secure-store');
+  } catch (error) {
+    console.warn('Failed to import expo-secure-store:', error);
+  }
+}
+
+/**
+ * Read a small value from SecureStore (native) or localStorage (web)
+ * @param key Storage key
+ * @returns Stored value or null if not set
+ */
+export const getSecureItem = async (key: string): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+  }
+  return SecureStore ? SecureStore.getItemAsync(key) : null;
+};
+
+/**
+ * Write a small value to SecureStore (native) or localStorage (web)
+ * @param key Storage key
+ * @param value Value to store
+ */
+export const setSecureItem = async (key: string, value: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    localStorage.setItem(key, value);
+    return;
+  }
+  if (!SecureStore) {
+    throw new Error('Secure storage is not available on this device');
+  }
+  await SecureStore.setItemAsync(key, value);
+};
+
+/**
+ * Remove a value from SecureStore (native) or localStorage (web)
+ * @param key Storage key
+ */
+export const deleteSecureItem = async (key: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    localStorage.removeItem(key);
+    return;
+  }
+  if (SecureStore) {
+    await SecureStore.deleteItemAsync(key);
+  }
+};
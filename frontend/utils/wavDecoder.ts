@@ -0,0 +1,160 @@
+/**
+ * Minimal RIFF/WAVE decoder for offline audio analysis. Handles integer PCM
+ * (8, 16, 24, 32 bit) and 32-bit float, mixing all channels down to mono.
+ * Edited audio is written back as 16-bit mono PCM.
+ */
+
+export interface PcmAudio {
+  sampleRate: number;
+  samples: Float32Array; // Mono, -1 to 1
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const readTag = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/**
+ * Check whether bytes look like a WAV file
+ */
+export function isWav(bytes: Uint8Array): boolean {
+  if (bytes.length < 12) {
+    return false;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readTag(view, 0) === 'RIFF' && readTag(view, 8) === 'WAVE';
+}
+
+/**
+ * Decode a WAV file to mono floating point samples
+ * @param bytes Contents of the file
+ * @returns Decoded audio, or null if the file is not a WAV format we can read
+ */
+export function decodeWav(bytes: Uint8Array): PcmAudio | null {
+  if (!isWav(bytes)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunks; "fmt " must come before "data"
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (tag === 'data') {
+      dataOffset = body;
+      // Recorders that were interrupted can leave the size unset
+      dataLength = Math.min(size, bytes.length - body);
+      break;
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0) {
+    return null;
+  }
+
+  const isFloat = format === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32;
+  const isInt = format === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample);
+  if (!isFloat && !isInt) {
+    return null;
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * channels;
+  const frameCount = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (position: number): number => {
+    if (isFloat) {
+      return view.getFloat32(position, true);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128;
+      case 16:
+        return view.getInt16(position, true) / 32768;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 8388608;
+      }
+      default:
+        return view.getInt32(position, true) / 2147483648;
+    }
+  };
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameStart = dataOffset + frame * frameSize;
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(frameStart + channel * bytesPerSample);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples };
+}
+
+/**
+ * Encode mono samples as a 16-bit PCM WAV file
+ * @param audio Samples to write, -1 to 1
+ * @returns Contents of the file
+ */
+export function encodeWav(audio: PcmAudio): Uint8Array {
+  const dataLength = audio.samples.length * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, tag.charCodeAt(i));
+    }
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < audio.samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, audio.samples[i]));
+    view.setInt16(44 + i * 2, Math.round(sample < 0 ? sample * 32768 : sample * 32767), true);
+  }
+
+  return bytes;
+}